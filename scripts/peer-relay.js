@@ -0,0 +1,125 @@
+// Relay for the local peer mode: every message received from one organizer is
+// sent to the others. Run on one computer of the network with `npm run peer-relay`
+// (PORT=8787 by default); the app connects to ws://<computer>:8787.
+//
+// Minimal WebSocket server (RFC 6455) with Node built-ins only: unfragmented
+// text frames, ping and close, which is what browsers send for this use.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD_BYTES = 20 * 1024 * 1024;
+
+const clients = new Set();
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  const header =
+    length < 126
+      ? Buffer.from([0x80 | opcode, length])
+      : length < 65536
+        ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigUint64(length)]);
+  return Buffer.concat([header, payload]);
+}
+
+function bigUint64(value) {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(value));
+  return buffer;
+}
+
+// Complete frames at the start of the buffer, and the bytes left for the next chunk
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let position = offset + 2;
+    if (length === 126) {
+      if (buffer.length - position < 2) break;
+      length = buffer.readUInt16BE(position);
+      position += 2;
+    } else if (length === 127) {
+      if (buffer.length - position < 8) break;
+      length = Number(buffer.readBigUInt64BE(position));
+      position += 8;
+    }
+    if (length > MAX_PAYLOAD_BYTES) throw new Error('Message trop volumineux');
+
+    const mask = masked ? buffer.subarray(position, position + 4) : null;
+    if (masked) position += 4;
+    if (buffer.length - position < length) break;
+
+    const payload = Buffer.from(buffer.subarray(position, position + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset = position + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+const server = createServer((_request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+  response.end(`Relais de l'échéancier : ${clients.size} organisateur(s) connecté(s)\n`);
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  clients.add(socket);
+  console.log(`Connexion (${clients.size} organisateur(s))`);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    let decoded;
+    try {
+      decoded = decodeFrames(Buffer.concat([pending, chunk]));
+    } catch (error) {
+      console.error(error.message);
+      socket.destroy();
+      return;
+    }
+    pending = decoded.rest;
+
+    for (const { opcode, payload } of decoded.frames) {
+      if (opcode === 0x1) {
+        const frame = encodeFrame(0x1, payload);
+        for (const client of clients) {
+          if (client !== socket) client.write(frame);
+        }
+      } else if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      }
+    }
+  });
+
+  const remove = () => {
+    if (clients.delete(socket)) console.log(`Déconnexion (${clients.size} organisateur(s))`);
+  };
+  socket.on('close', remove);
+  socket.on('error', remove);
+});
+
+server.listen(PORT, () => {
+  console.log(`Relais de l'échéancier sur ws://localhost:${PORT}`);
+});
@@ -1,8 +1,31 @@
-import { useTournamentStore } from './store';
-import { ConfigPhase, SchedulePhase } from './components';
+import { useEffect, useState } from 'react';
+import { useStoresHydrated, useTournamentStore, useWorkspaceStore } from './store';
+import {
+  ConfigPhase,
+  HistoryPanel,
+  LivePhase,
+  SchedulePhase,
+  StorageStatusBar,
+  TournamentLibraryDialog,
+} from './components';
 
 function App() {
   const currentPhase = useTournamentStore((state) => state.currentPhase);
+  const activeName = useWorkspaceStore((state) => state.tournaments.find((t) => t.id === state.activeId)?.name);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const hydrated = useStoresHydrated();
+
+  useEffect(() => {
+    if (hydrated) useWorkspaceStore.getState().ensureActiveTournament();
+  }, [hydrated]);
+
+  if (!hydrated) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center text-gray-500">
+        Chargement du tournoi…
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -15,6 +38,13 @@ function App() {
               <h1 className="text-2xl font-bold">Échéancier Tournoi Badminton</h1>
               <p className="text-sm opacity-80">Planifiez votre tournoi facilement</p>
             </div>
+            <button
+              onClick={() => setShowLibrary(true)}
+              className="ml-4 px-3 py-1 rounded bg-white/20 hover:bg-white/30 text-sm"
+              title="Changer de tournoi, en créer ou en dupliquer un"
+            >
+              📚 {activeName ?? 'Mes tournois'}
+            </button>
           </div>
           <div className="flex items-center gap-4">
             <div
@@ -36,20 +66,38 @@ function App() {
             >
               2. Échéancier
             </div>
+            <div className="w-8 h-0.5 bg-white/40"></div>
+            <div
+              className={`px-3 py-1 rounded-full text-sm ${
+                currentPhase === 'live'
+                  ? 'bg-white text-blue-600 font-semibold'
+                  : 'bg-white/20'
+              }`}
+            >
+              3. Jour J
+            </div>
+            <div className="w-px h-6 bg-white/40"></div>
+            <HistoryPanel />
           </div>
         </div>
       </header>
 
+      {showLibrary && <TournamentLibraryDialog onClose={() => setShowLibrary(false)} />}
+
       {/* Main content */}
       <main className="py-6">
-        {currentPhase === 'config' ? <ConfigPhase /> : <SchedulePhase />}
+        {currentPhase === 'config' ? (
+          <ConfigPhase />
+        ) : currentPhase === 'schedule' ? (
+          <SchedulePhase />
+        ) : (
+          <LivePhase />
+        )}
       </main>
 
       {/* Footer */}
       <footer className="bg-gray-800 text-gray-400 py-4 text-center text-sm">
-        <p>
-          💾 Données sauvegardées automatiquement dans votre navigateur
-        </p>
+        <StorageStatusBar />
       </footer>
     </div>
   );
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { solveSchedule } from './autoScheduler';
+import { findScheduleIssues } from './scheduleValidation';
+import { Series, TournamentSettings, createCellAvailability, getRowSlot, getScheduledRoundPositions } from './types';
+
+// Saturday and Sunday 09:00-13:00, 8 rows each: Saturday is rows 0-7, Sunday rows 8-15
+const settings: TournamentSettings = {
+  courtCount: 3,
+  timeSlotDuration: 30,
+  startTime: '09:00',
+  endTime: '13:00',
+  days: [
+    { id: 'sat', label: 'Samedi', startTime: '09:00', endTime: '13:00', courtCount: 3 },
+    { id: 'sun', label: 'Dimanche', startTime: '09:00', endTime: '13:00', courtCount: 3 },
+  ],
+  restRules: { min: 0, ideal: 30, max: 240 },
+};
+
+function makeSeries(id: string, matchCounts: number[], extra: Partial<Series> = {}): Series {
+  return {
+    id,
+    name: `Série ${id}`,
+    shortName: id.toUpperCase(),
+    color: '#3b82f6',
+    rounds: matchCounts.map((matchCount, i) => ({
+      id: `${id}${i + 1}`,
+      seriesId: id,
+      roundNumber: i + 1,
+      matchCount,
+      label: `Tour ${i + 1}`,
+    })),
+    ...extra,
+  };
+}
+
+const options = { iterations: 20, seed: 7 };
+
+describe('solveSchedule', () => {
+  it('places every round without overlap, in series order, one round of a series per row', () => {
+    const series = [
+      makeSeries('a', [4, 2, 1]),
+      makeSeries('b', [3, 2, 1]),
+      makeSeries('c', [2, 1], { matchDuration: { value: 2, unit: 'slots' } }),
+    ];
+    const result = solveSchedule(series, settings, options);
+
+    expect(result.success).toBe(true);
+    expect(result.unplacedRoundIds).toEqual([]);
+    expect(result.schedule).toHaveLength(8);
+    expect(findScheduleIssues(series, result.schedule, settings).filter((i) => i.severity === 'error')).toEqual([]);
+  });
+
+  it('keeps a pinned series on its day', () => {
+    const series = [makeSeries('a', [3, 2, 1], { dayId: 'sun' }), makeSeries('b', [2, 1])];
+    const result = solveSchedule(series, settings, options);
+    const isCellOpen = createCellAvailability(settings);
+
+    for (const round of series[0].rounds) {
+      const sr = result.schedule.find((item) => item.roundId === round.id)!;
+      const days = getScheduledRoundPositions(sr, round, series[0], settings, isCellOpen).map((p) => getRowSlot(p.row, settings).dayIndex);
+      expect(new Set(days)).toEqual(new Set([1]));
+    }
+  });
+
+  it('gives the same schedule for the same seed', () => {
+    const series = [makeSeries('a', [4, 2, 1]), makeSeries('b', [3, 2, 1])];
+    expect(solveSchedule(series, settings, options).schedule).toEqual(solveSchedule(series, settings, options).schedule);
+  });
+
+  it('reports the rounds that do not fit before the end of the tournament', () => {
+    const oneDay: TournamentSettings = { courtCount: 1, timeSlotDuration: 30, startTime: '09:00', endTime: '10:00' };
+    const result = solveSchedule([makeSeries('a', [2, 1, 1])], oneDay, options);
+
+    expect(result.success).toBe(false);
+    expect(result.unplacedRoundIds.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,283 @@
+// Constraint-based auto-scheduler
+//
+// Rules enforced for every placement:
+// - matches never overlap (rounds wrap row by row like in the grid)
+// - a round starts on a row after the last row used by the previous round of its series,
+//   matches lasting several slots included
+// - a series never has two rounds on the same row
+// - matches only use open courts outside blocked windows, on the day a series is pinned to
+// - every match fits before the end of the last day
+//
+// The search runs many randomized list-scheduling passes and keeps the best one:
+// fewest unplaced rounds, then earliest end, then rest gaps closest to the rest rules
+// of each series (between the ideal and the maximum rest).
+
+import {
+  Series,
+  Round,
+  ScheduledRound,
+  TournamentSettings,
+  getRoundCellPositions,
+  getMatchSlotSpan,
+  getSlotCount,
+  getRowSlot,
+  getTournamentDays,
+  createCellAvailability,
+  RowSlot,
+  CellAvailability,
+  RestRules,
+  getRestRules,
+} from './types';
+
+export interface AutoScheduleResult {
+  schedule: ScheduledRound[];
+  unplacedRoundIds: string[];
+  endRow: number; // Number of rows used by the placement
+  gapPenalty: number; // Number of slots short of the ideal rest or over the maximum rest, summed over all series
+  success: boolean; // Every round fits before the end of the last day
+}
+
+export interface AutoScheduleOptions {
+  iterations?: number;
+  timeBudgetMs?: number;
+  seed?: number;
+}
+
+type SeriesPlan = {
+  series: Series;
+  rounds: Round[]; // Sorted by roundNumber
+  spans: number[]; // Rows occupied by one match of each round
+  dayIndex: number | null; // Day the series is pinned to
+  rest: RestRules;
+  minGapSlots: number; // Rows of rest needed to reach the ideal rest
+  maxGapSlots: number;
+};
+
+type Candidate = {
+  plan: SeriesPlan;
+  positions: Array<{ row: number; col: number }>;
+  score: number;
+  gapMinutes: number | null;
+};
+
+// Small deterministic PRNG so that a given seed always gives the same schedule
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function rowsSpanned(matchCount: number, courtCount: number, span: number): number {
+  return Math.ceil(matchCount / courtCount) * span;
+}
+
+// Rest between the end of a round (its last row) and the start of the next one,
+// null when they are on different days
+function getGapMinutes(lastRow: number, toRow: number, rowSlots: RowSlot[], slotDuration: number): number | null {
+  const from = rowSlots[lastRow];
+  const to = rowSlots[toRow];
+  if (from.dayIndex !== to.dayIndex) return null;
+  return to.minutes - (from.minutes + slotDuration);
+}
+
+// Penalty (in slots) for the rest between two consecutive rounds
+function gapPenaltySlots(gapMinutes: number | null, rules: RestRules, slotDuration: number): number {
+  if (gapMinutes === null) return 0;
+  if (gapMinutes < rules.ideal) {
+    return Math.ceil((rules.ideal - gapMinutes) / slotDuration);
+  }
+  if (gapMinutes > rules.max) {
+    return Math.ceil((gapMinutes - rules.max) / slotDuration);
+  }
+  return 0;
+}
+
+// One randomized list-scheduling pass, filling the grid cell by cell
+function constructSchedule(
+  plans: SeriesPlan[],
+  settings: TournamentSettings,
+  rowSlots: RowSlot[],
+  isCellOpen: CellAvailability,
+  random: () => number,
+  noise: number,
+  strictRest: boolean
+): AutoScheduleResult {
+  const { courtCount, timeSlotDuration } = settings;
+  const rowLimit = rowSlots.length;
+
+  const occupied = new Set<string>();
+  const seriesRows = new Map<string, Set<number>>();
+  const nextIndex = new Map<string, number>();
+  const lastUsedRow = new Map<string, number>();
+  const schedule: ScheduledRound[] = [];
+  let gapPenalty = 0;
+
+  for (const plan of plans) {
+    seriesRows.set(plan.series.id, new Set());
+    nextIndex.set(plan.series.id, 0);
+  }
+
+  // Rows still needed by a series, used as its priority (longest remaining chain first)
+  const remainingRows = (plan: SeriesPlan, fromIndex: number): number => {
+    let total = 0;
+    for (let i = fromIndex; i < plan.rounds.length; i++) {
+      total += rowsSpanned(plan.rounds[i].matchCount, courtCount, plan.spans[i]) + (i > fromIndex ? plan.minGapSlots : 0);
+    }
+    return total;
+  };
+
+  for (let row = 0; row < rowLimit; row++) {
+    for (let col = 0; col < courtCount; col++) {
+      if (occupied.has(`${row}-${col}`) || !isCellOpen(row, col)) continue;
+
+      let best: Candidate | null = null;
+
+      for (const plan of plans) {
+        const index = nextIndex.get(plan.series.id)!;
+        if (index >= plan.rounds.length) continue;
+
+        const round = plan.rounds[index];
+        const usedRows = seriesRows.get(plan.series.id)!;
+        const previousEnd = lastUsedRow.get(plan.series.id);
+
+        // Series ordering: the previous round must be fully played
+        if (previousEnd !== undefined && row <= previousEnd) continue;
+
+        const gapMinutes =
+          previousEnd !== undefined ? getGapMinutes(previousEnd, row, rowSlots, timeSlotDuration) : null;
+        if (strictRest && gapMinutes !== null && gapMinutes < plan.rest.min) continue;
+
+        const positions = getRoundCellPositions(row, col, round.matchCount, courtCount, isCellOpen, plan.spans[index]);
+        const fits = positions.every(
+          (p) =>
+            p.row < rowLimit &&
+            !occupied.has(`${p.row}-${p.col}`) &&
+            !usedRows.has(p.row) &&
+            (plan.dayIndex === null || rowSlots[p.row].dayIndex === plan.dayIndex)
+        );
+        if (!fits) continue;
+
+        let score = remainingRows(plan, index);
+        if (gapMinutes !== null) {
+          const gapSlots = Math.floor(gapMinutes / timeSlotDuration);
+          // Overdue series get pushed forward, early ones held back
+          if (gapSlots >= plan.maxGapSlots) score += (gapSlots - plan.maxGapSlots + 1) * 2;
+          if (gapSlots < plan.minGapSlots) score -= (plan.minGapSlots - gapSlots) * 3;
+        }
+        // Prefer rounds that do not wrap onto the next row
+        if (col + round.matchCount <= courtCount) score += 0.5;
+        score += random() * noise;
+
+        if (!best || score > best.score) {
+          best = { plan, positions, score, gapMinutes };
+        }
+      }
+
+      if (!best) continue;
+
+      const seriesId = best.plan.series.id;
+      const index = nextIndex.get(seriesId)!;
+      const round = best.plan.rounds[index];
+      const usedRows = seriesRows.get(seriesId)!;
+
+      for (const p of best.positions) {
+        occupied.add(`${p.row}-${p.col}`);
+        usedRows.add(p.row);
+      }
+
+      schedule.push({ roundId: round.id, row, startCol: col });
+      nextIndex.set(seriesId, index + 1);
+      gapPenalty += gapPenaltySlots(best.gapMinutes, best.plan.rest, timeSlotDuration);
+      lastUsedRow.set(seriesId, Math.max(...best.positions.map((p) => p.row)));
+    }
+  }
+
+  const unplacedRoundIds = plans.flatMap((plan) =>
+    plan.rounds.slice(nextIndex.get(plan.series.id)!).map((r) => r.id)
+  );
+
+  return {
+    schedule,
+    unplacedRoundIds,
+    endRow: lastUsedRow.size > 0 ? Math.max(...lastUsedRow.values()) + 1 : 0,
+    gapPenalty,
+    success: unplacedRoundIds.length === 0,
+  };
+}
+
+function isBetter(a: AutoScheduleResult, b: AutoScheduleResult | null): boolean {
+  if (!b) return true;
+  if (a.unplacedRoundIds.length !== b.unplacedRoundIds.length) {
+    return a.unplacedRoundIds.length < b.unplacedRoundIds.length;
+  }
+  if (a.endRow !== b.endRow) return a.endRow < b.endRow;
+  return a.gapPenalty < b.gapPenalty;
+}
+
+export function solveSchedule(
+  series: Series[],
+  settings: TournamentSettings,
+  options: AutoScheduleOptions = {}
+): AutoScheduleResult {
+  const iterations = options.iterations ?? 300;
+  const timeBudgetMs = options.timeBudgetMs ?? 1500;
+  const seed = options.seed ?? 1;
+
+  const days = getTournamentDays(settings);
+  const plans: SeriesPlan[] = series
+    .filter((s) => s.rounds.length > 0)
+    .map((s) => {
+      const dayIndex = s.dayId ? days.findIndex((d) => d.id === s.dayId) : -1;
+      const rounds = [...s.rounds].sort((a, b) => a.roundNumber - b.roundNumber);
+      const rest = getRestRules(s, settings);
+      return {
+        series: s,
+        rounds,
+        spans: rounds.map((r) => getMatchSlotSpan(r, s, settings.timeSlotDuration)),
+        dayIndex: dayIndex === -1 ? null : dayIndex,
+        rest,
+        minGapSlots: Math.ceil(rest.ideal / settings.timeSlotDuration),
+        maxGapSlots: Math.ceil(rest.max / settings.timeSlotDuration),
+      };
+    });
+
+  const rowSlots = Array.from({ length: getSlotCount(settings) }, (_, row) => getRowSlot(row, settings));
+  const isCellOpen = createCellAvailability(settings);
+  const totalCells = plans.reduce(
+    (acc, plan) => acc + plan.rounds.reduce((a, r, i) => a + r.matchCount * plan.spans[i], 0),
+    0
+  );
+  const lowerBound = Math.ceil(totalCells / settings.courtCount);
+
+  const startedAt = Date.now();
+  let best: AutoScheduleResult | null = null;
+
+  // Strict passes keep the minimum rest gap; relaxed passes only run if nothing fits
+  for (const strictRest of [true, false]) {
+    for (let i = 0; i < iterations; i++) {
+      const random = createRandom(seed + i);
+      // First pass is purely priority-driven, later passes explore with more noise
+      const noise = i === 0 ? 0 : 1 + (i % 5);
+      const result = constructSchedule(plans, settings, rowSlots, isCellOpen, random, noise, strictRest);
+
+      if (isBetter(result, best)) best = result;
+      if (best!.success && best!.endRow <= lowerBound && best!.gapPenalty === 0) break;
+      if (Date.now() - startedAt > timeBudgetMs) break;
+    }
+
+    if (best?.success) break;
+  }
+
+  return best ?? {
+    schedule: [],
+    unplacedRoundIds: [],
+    endRow: 0,
+    gapPenalty: 0,
+    success: true,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { describeBracket, generateBracket } from './brackets';
+
+const rounds = (format: Parameters<typeof generateBracket>[0]) =>
+  generateBracket(format).plan?.rounds.map((r) => `${r.label}:${r.matchCount}`);
+
+describe('generateBracket', () => {
+  it('plays every round of a power-of-two knockout in full', () => {
+    const { plan } = generateBracket({ entryCount: 8, poolSize: 0, qualifiersPerPool: 0 });
+    expect(plan?.byes).toBe(0);
+    expect(plan?.rounds).toEqual([
+      { label: 'Quarts de finale', matchCount: 4 },
+      { label: 'Demi-finales', matchCount: 2 },
+      { label: 'Finale', matchCount: 1 },
+    ]);
+  });
+
+  it('gives byes in the first round of an incomplete draw', () => {
+    const { plan } = generateBracket({ entryCount: 6, poolSize: 0, qualifiersPerPool: 0 });
+    expect(plan?.byes).toBe(2);
+    expect(plan?.rounds.map((r) => r.matchCount)).toEqual([2, 2, 1]);
+    expect(rounds({ entryCount: 17, poolSize: 0, qualifiersPerPool: 0 })?.[0]).toBe('Seizièmes de finale:1');
+  });
+
+  it('plays pools then a knockout of their qualifiers', () => {
+    const { plan } = generateBracket({ entryCount: 12, poolSize: 4, qualifiersPerPool: 2 });
+    expect(plan?.poolSizes).toEqual([4, 4, 4]);
+    expect(plan?.knockoutEntries).toBe(6);
+    expect(plan?.byes).toBe(2);
+    expect(plan?.rounds.map((r) => `${r.label}:${r.matchCount}`)).toEqual([
+      'Poule T1:6',
+      'Poule T2:6',
+      'Poule T3:6',
+      'Quarts de finale:2',
+      'Demi-finales:2',
+      'Finale:1',
+    ]);
+  });
+
+  it('rests one entry per round in odd pools', () => {
+    expect(rounds({ entryCount: 5, poolSize: 5, qualifiersPerPool: 0 })).toEqual([
+      'Poule T1:2',
+      'Poule T2:2',
+      'Poule T3:2',
+      'Poule T4:2',
+      'Poule T5:2',
+    ]);
+    expect(generateBracket({ entryCount: 7, poolSize: 3, qualifiersPerPool: 1 }).plan?.poolSizes).toEqual([4, 3]);
+  });
+
+  it('takes the best qualifiers into a shorter knockout', () => {
+    const { plan } = generateBracket({ entryCount: 12, poolSize: 4, qualifiersPerPool: 2, knockoutDepth: 2 });
+    expect(plan?.knockoutEntries).toBe(4);
+    expect(plan?.byes).toBe(0);
+    expect(plan?.rounds.slice(-2).map((r) => r.matchCount)).toEqual([2, 1]);
+    expect(describeBracket(plan!)).toBe('3 poules (4, 4, 4), 2 sortants par poule, les 4 meilleurs en élimination');
+  });
+
+  it('refuses invalid formats', () => {
+    expect(generateBracket({ entryCount: 1, poolSize: 0, qualifiersPerPool: 0 }).error).toBeDefined();
+    expect(generateBracket({ entryCount: 2.5, poolSize: 0, qualifiersPerPool: 0 }).error).toBeDefined();
+    expect(generateBracket({ entryCount: 8, poolSize: 2, qualifiersPerPool: 1 }).error).toBeDefined();
+    expect(generateBracket({ entryCount: 12, poolSize: 4, qualifiersPerPool: 5 }).error).toBeDefined();
+    expect(generateBracket({ entryCount: 12, poolSize: 4, qualifiersPerPool: 0 }).error).toBeDefined();
+    expect(generateBracket({ entryCount: 8, poolSize: 0, qualifiersPerPool: 0, knockoutDepth: 4 }).error).toBeDefined();
+    expect(generateBracket({ entryCount: 8, poolSize: 0, qualifiersPerPool: 0, knockoutDepth: 2 }).error).toBeDefined();
+    expect(generateBracket({ entryCount: 12, poolSize: 3, qualifiersPerPool: 1, knockoutDepth: 1 }).error).toBeDefined();
+  });
+});
@@ -0,0 +1,276 @@
+// Bracket structures: pools played as round robins, followed by a knockout
+//
+// A pool of n entries needs n - 1 rounds when n is even and n rounds when n is
+// odd (one entry rests each round), with floor(n / 2) matches per round. The
+// knockout is a power-of-two draw, missing qualifiers being byes in its first round.
+// A knockout with fewer rounds than the qualifiers need takes the best of them,
+// every pool winner first.
+//
+// Pure module: no React or store access, so that it can be tested on its own.
+
+export interface BracketRound {
+  label: string;
+  matchCount: number;
+}
+
+export interface BracketFormat {
+  entryCount: number;
+  poolSize: number; // Target pool size, 0 for a knockout-only draw
+  qualifiersPerPool: number;
+  knockoutDepth?: number; // Knockout rounds (1 = final only), derived from the qualifiers when not set, fewer keep the best
+}
+
+export interface BracketPlan {
+  entryCount: number;
+  poolSizes: number[]; // Empty for a knockout-only draw
+  qualifiersPerPool: number;
+  knockoutEntries: number; // Entries starting the knockout, fewer than the qualifiers for a short knockout
+  byes: number;
+  rounds: BracketRound[];
+}
+
+// Label of a knockout round from the size of its draw
+export function getKnockoutLabel(drawSize: number): string {
+  switch (drawSize) {
+    case 2:
+      return 'Finale';
+    case 4:
+      return 'Demi-finales';
+    case 8:
+      return 'Quarts de finale';
+    case 16:
+      return 'Huitièmes de finale';
+    case 32:
+      return 'Seizièmes de finale';
+    default:
+      return `Tableau de ${drawSize}`;
+  }
+}
+
+// Split entries into pools whose sizes differ by at most one
+export function splitIntoPools(entryCount: number, poolCount: number): number[] {
+  if (poolCount <= 0) return [];
+  const base = Math.floor(entryCount / poolCount);
+  const extra = entryCount % poolCount;
+  return Array.from({ length: poolCount }, (_, i) => base + (i < extra ? 1 : 0));
+}
+
+export function getPoolRounds(poolSizes: number[]): BracketRound[] {
+  const roundsPerPool = poolSizes.map((size) => (size < 2 ? 0 : size % 2 === 0 ? size - 1 : size));
+  const roundCount = Math.max(0, ...roundsPerPool);
+
+  return Array.from({ length: roundCount }, (_, round) => ({
+    label: `Poule T${round + 1}`,
+    matchCount: poolSizes.reduce(
+      (acc, size, pool) => acc + (round < roundsPerPool[pool] ? Math.floor(size / 2) : 0),
+      0
+    ),
+  }));
+}
+
+// Smallest number of knockout rounds for this many entries
+export function getKnockoutDepth(entryCount: number): number {
+  let depth = 0;
+  while (2 ** depth < entryCount) depth++;
+  return depth;
+}
+
+export function getKnockoutRounds(entryCount: number, depth = getKnockoutDepth(entryCount)): BracketRound[] {
+  if (entryCount < 2) return [];
+  const drawSize = 2 ** depth;
+
+  const rounds: BracketRound[] = [];
+  // First round: only entries without a bye play
+  rounds.push({ label: getKnockoutLabel(drawSize), matchCount: entryCount - drawSize / 2 });
+  for (let size = drawSize / 2; size >= 2; size /= 2) {
+    rounds.push({ label: getKnockoutLabel(size), matchCount: size / 2 });
+  }
+  return rounds;
+}
+
+// Pools close to the target size: at most `poolSize` entries when every pool
+// keeps at least 3 (and no fewer than poolSize - 1), one more entry otherwise
+export function getPoolCount(entryCount: number, poolSize: number): number {
+  const upper = Math.ceil(entryCount / poolSize);
+  const smallest = Math.floor(entryCount / upper);
+  if (smallest >= Math.max(3, poolSize - 1)) return upper;
+  return Math.max(1, Math.floor(entryCount / poolSize));
+}
+
+export function generateBracket(format: BracketFormat): { plan?: BracketPlan; error?: string } {
+  const { entryCount, poolSize, qualifiersPerPool, knockoutDepth } = format;
+
+  if (!Number.isInteger(entryCount) || entryCount < 2) {
+    return { error: 'Il faut au moins 2 inscrits.' };
+  }
+  if (!Number.isInteger(poolSize) || poolSize < 0 || poolSize === 1 || poolSize === 2) {
+    return { error: 'Une poule compte au moins 3 inscrits.' };
+  }
+
+  const poolSizes = poolSize === 0 ? [] : splitIntoPools(entryCount, getPoolCount(entryCount, poolSize));
+  if (poolSizes.some((size) => size < 3)) {
+    return { error: `Pas assez d'inscrits pour des poules de ${poolSize}.` };
+  }
+
+  const qualifiers = poolSizes.length === 0 ? 0 : qualifiersPerPool;
+  if (poolSizes.length > 0) {
+    if (!Number.isInteger(qualifiers) || qualifiers < 0 || qualifiers > Math.min(...poolSizes)) {
+      return { error: 'Le nombre de sortants dépasse la taille des poules.' };
+    }
+    if (poolSizes.length > 1 && qualifiers === 0) {
+      return { error: 'Au moins un sortant par poule est nécessaire avec plusieurs poules.' };
+    }
+  }
+
+  // A single pool with one qualifier designates the winner directly
+  let knockoutEntries =
+    poolSizes.length === 0 ? entryCount : poolSizes.length * qualifiers > 1 ? poolSizes.length * qualifiers : 0;
+
+  let depth = 0;
+  if (knockoutEntries > 0) {
+    depth = knockoutDepth ?? getKnockoutDepth(knockoutEntries);
+    if (!Number.isInteger(depth) || depth < 1) {
+      return { error: "Il faut au moins un tour d'élimination." };
+    }
+    if (2 ** (depth - 1) >= knockoutEntries) {
+      return { error: `Trop de tours d'élimination pour ${knockoutEntries} qualifiés.` };
+    }
+    if (2 ** depth < knockoutEntries) {
+      if (poolSizes.length === 0) {
+        return { error: `${knockoutEntries} inscrits ne tiennent pas dans ${depth} tour(s) d'élimination.` };
+      }
+      if (2 ** depth < poolSizes.length) {
+        return { error: `Un tableau de ${2 ** depth} ne peut pas accueillir le premier de chaque poule.` };
+      }
+      knockoutEntries = 2 ** depth;
+    }
+  }
+
+  const knockoutRounds = knockoutEntries > 0 ? getKnockoutRounds(knockoutEntries, depth) : [];
+
+  return {
+    plan: {
+      entryCount,
+      poolSizes,
+      qualifiersPerPool: qualifiers,
+      knockoutEntries,
+      byes: knockoutEntries > 0 ? 2 ** depth - knockoutEntries : 0,
+      rounds: [...getPoolRounds(poolSizes), ...knockoutRounds],
+    },
+  };
+}
+
+// Usual format for a number of entries: pools of 3 to 5, two qualifiers per
+// pool while the knockout stays at quarter-finals, one qualifier beyond
+export function suggestBracketFormat(entryCount: number): BracketFormat {
+  if (entryCount < 3) return { entryCount, poolSize: 0, qualifiersPerPool: 0 };
+  if (entryCount <= 5) return { entryCount, poolSize: entryCount, qualifiersPerPool: 0 };
+
+  const poolCount = getPoolCount(entryCount, 4);
+  return { entryCount, poolSize: 4, qualifiersPerPool: poolCount <= 4 ? 2 : 1 };
+}
+
+export function suggestBracket(entryCount: number): BracketPlan {
+  const { plan } = generateBracket(suggestBracketFormat(entryCount));
+  return plan ?? { entryCount, poolSizes: [], qualifiersPerPool: 0, knockoutEntries: 0, byes: 0, rounds: [] };
+}
+
+export function describeBracket(plan: BracketPlan): string {
+  if (plan.poolSizes.length === 0) {
+    return plan.rounds.length > 0 ? `Élimination directe (${plan.entryCount} inscrits)` : 'Aucun match';
+  }
+  const pools = plan.poolSizes.length === 1
+    ? `Poule unique de ${plan.poolSizes[0]}`
+    : `${plan.poolSizes.length} poules (${plan.poolSizes.join(', ')})`;
+  if (plan.qualifiersPerPool === 0) return pools;
+  const byes = plan.byes > 0 ? `, ${plan.byes} exempt${plan.byes > 1 ? 's' : ''}` : '';
+  const best =
+    plan.knockoutEntries > 0 && plan.knockoutEntries < plan.poolSizes.length * plan.qualifiersPerPool
+      ? `, les ${plan.knockoutEntries} meilleurs en élimination`
+      : '';
+  return `${pools}, ${plan.qualifiersPerPool} sortant${plan.qualifiersPerPool > 1 ? 's' : ''} par poule${best}${byes}`;
+}
+
+// Bracket shape saved by the user to be reused from one season to the next
+export interface BracketTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  rounds: BracketRound[];
+}
+
+export type BracketTemplateDraft = Omit<BracketTemplate, 'id'>;
+
+// Marker of the template files, so that a tournament export is not taken for one
+export const BRACKET_TEMPLATE_FILE_TYPE = 'badminton-bracket-templates';
+
+export function validateBracketTemplate(value: unknown): { template?: BracketTemplateDraft; error?: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'objet attendu' };
+  }
+  const { name, description, rounds } = value as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'nom manquant' };
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    return { error: 'description invalide' };
+  }
+  if (!Array.isArray(rounds) || rounds.length === 0) {
+    return { error: 'au moins un tour est nécessaire' };
+  }
+
+  const validatedRounds: BracketRound[] = [];
+  for (const [index, round] of rounds.entries()) {
+    const { label, matchCount } = (typeof round === 'object' && round !== null ? round : {}) as Record<string, unknown>;
+    if (typeof label !== 'string' || !label.trim()) {
+      return { error: `tour ${index + 1} sans libellé` };
+    }
+    if (typeof matchCount !== 'number' || !Number.isInteger(matchCount) || matchCount < 1) {
+      return { error: `tour ${index + 1} : nombre de matchs invalide` };
+    }
+    validatedRounds.push({ label: label.trim(), matchCount });
+  }
+
+  return {
+    template: {
+      name: name.trim(),
+      ...(description?.trim() ? { description: description.trim() } : {}),
+      rounds: validatedRounds,
+    },
+  };
+}
+
+export function serializeBracketTemplates(templates: BracketTemplate[]): string {
+  return JSON.stringify(
+    {
+      type: BRACKET_TEMPLATE_FILE_TYPE,
+      templates: templates.map(({ name, description, rounds }) => ({ name, description, rounds })),
+    },
+    null,
+    2
+  );
+}
+
+// Templates of an exported file, a single template object is accepted as well
+export function parseBracketTemplateFile(data: unknown): { templates?: BracketTemplateDraft[]; error?: string } {
+  const isFile = typeof data === 'object' && data !== null && 'templates' in data;
+  if (isFile && (data as Record<string, unknown>).type !== BRACKET_TEMPLATE_FILE_TYPE) {
+    return { error: "Ce fichier n'est pas un export de modèles de tableau." };
+  }
+
+  const items = isFile ? (data as Record<string, unknown>).templates : [data];
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: 'Aucun modèle de tableau dans ce fichier.' };
+  }
+
+  const templates: BracketTemplateDraft[] = [];
+  for (const [index, item] of items.entries()) {
+    const { template, error } = validateBracketTemplate(item);
+    if (!template) {
+      return { error: `Modèle ${index + 1} invalide : ${error}.` };
+    }
+    templates.push(template);
+  }
+  return { templates };
+}
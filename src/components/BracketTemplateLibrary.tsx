@@ -0,0 +1,272 @@
+import React, { useRef, useState } from 'react';
+import { useTemplateStore } from '../store';
+import {
+  BracketRound,
+  BracketTemplate,
+  BracketTemplateDraft,
+  serializeBracketTemplates,
+  validateBracketTemplate,
+} from '../brackets';
+
+interface BracketTemplateDialogProps {
+  initial: BracketTemplateDraft;
+  title: string;
+  onSave: (template: BracketTemplateDraft) => void;
+  onClose: () => void;
+}
+
+const BracketTemplateDialog: React.FC<BracketTemplateDialogProps> = ({ initial, title, onSave, onClose }) => {
+  const [name, setName] = useState(initial.name);
+  const [description, setDescription] = useState(initial.description ?? '');
+  const [rounds, setRounds] = useState<BracketRound[]>(initial.rounds);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRound = (index: number, updates: Partial<BracketRound>) => {
+    setRounds(rounds.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  };
+
+  const handleSave = () => {
+    const result = validateBracketTemplate({ name, description, rounds });
+    if (!result.template) {
+      setError(`Modèle invalide : ${result.error}.`);
+      return;
+    }
+    onSave(result.template);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">{title}</h3>
+
+        <label className="text-sm text-gray-700 mb-3">
+          Nom
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Ex : Poules de 4 + demies"
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-sm text-gray-700 mb-3">
+          Description
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+
+        <div className="text-sm font-medium text-gray-700 mb-2">Tours</div>
+        <div className="overflow-y-auto space-y-2 pr-1 mb-2">
+          {rounds.map((round, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-6 text-xs text-gray-500 text-right">{index + 1}.</span>
+              <input
+                type="text"
+                value={round.label}
+                onChange={(e) => updateRound(index, { label: e.target.value })}
+                className="flex-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="number"
+                min="1"
+                value={round.matchCount}
+                onChange={(e) => updateRound(index, { matchCount: parseInt(e.target.value) || 0 })}
+                className="w-16 px-2 py-1 text-sm border rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="Nombre de matchs"
+              />
+              <span className="text-xs text-gray-500">m</span>
+              <button
+                onClick={() => setRounds(rounds.filter((_, i) => i !== index))}
+                className="px-2 text-gray-400 hover:text-red-600"
+                title="Supprimer le tour"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setRounds([...rounds, { label: `Tour ${rounds.length + 1}`, matchCount: 1 }])}
+          className="self-start px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors mb-4"
+        >
+          + Ajouter un tour
+        </button>
+
+        {error && (
+          <div className="mb-3 p-2 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">⚠️ {error}</div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+            Annuler
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Enregistrer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface BracketTemplateLibraryProps {
+  generated?: BracketTemplateDraft; // Bracket currently shown by the generator
+  canApply: boolean;
+  onApply: (rounds: BracketRound[]) => void;
+}
+
+// Templates saved by the user, shared between tournaments and exportable as JSON
+export const BracketTemplateLibrary: React.FC<BracketTemplateLibraryProps> = ({ generated, canApply, onApply }) => {
+  const { templates, saveTemplate, removeTemplate, importTemplates } = useTemplateStore();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<{ id?: string; initial: BracketTemplateDraft } | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([serializeBracketTemplates(templates)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'modeles-tableaux.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport: React.ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const result = importTemplates(JSON.parse(await file.text()));
+      setMessage(
+        result.success
+          ? { text: `${result.count} modèle(s) importé(s).`, isError: false }
+          : { text: result.error ?? 'Import impossible. Fichier invalide.', isError: true }
+      );
+    } catch {
+      setMessage({ text: 'Import impossible. Le fichier JSON est invalide.', isError: true });
+    } finally {
+      // Allow importing the same file again.
+      event.target.value = '';
+    }
+  };
+
+  const handleRemove = (template: BracketTemplate) => {
+    if (window.confirm(`Supprimer le modèle "${template.name}" ?`)) {
+      removeTemplate(template.id);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      {editing && (
+        <BracketTemplateDialog
+          initial={editing.initial}
+          title={editing.id ? '✏️ Modifier le modèle' : '📋 Nouveau modèle de tableau'}
+          onSave={(template) => saveTemplate(template, editing.id)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h4 className="text-sm font-medium text-gray-700 mr-auto">📚 Mes modèles de tableau</h4>
+        <button
+          onClick={() => generated && setEditing({ initial: generated })}
+          disabled={!generated}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Enregistrer le tableau du générateur comme modèle"
+        >
+          💾 Enregistrer le tableau généré
+        </button>
+        <button
+          onClick={() => setEditing({ initial: { name: '', rounds: [{ label: 'Tour 1', matchCount: 1 }] } })}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+        >
+          + Nouveau
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+        >
+          📥 Importer
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+        <button
+          onClick={handleExport}
+          disabled={templates.length === 0}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          📤 Exporter
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`mb-3 p-2 rounded-md text-sm border ${
+            message.isError ? 'bg-red-100 border-red-300 text-red-700' : 'bg-green-50 border-green-300 text-green-700'
+          }`}
+        >
+          {message.isError ? '⚠️' : '✓'} {message.text}
+        </div>
+      )}
+
+      {templates.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Aucun modèle enregistré. Les modèles sont conservés d'un tournoi à l'autre.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {templates.map((template) => (
+            <div key={template.id} className="p-3 border-2 border-gray-200 rounded-lg hover:border-blue-300 transition-colors">
+              <div className="flex items-start gap-2 mb-1">
+                <button
+                  onClick={() => onApply(template.rounds)}
+                  disabled={!canApply}
+                  className="flex-1 text-left font-medium text-sm text-gray-800 hover:text-blue-700 disabled:hover:text-gray-800 disabled:cursor-not-allowed"
+                  title={canApply ? 'Créer la série avec ce modèle' : "Remplissez d'abord l'abréviation"}
+                >
+                  {template.name}
+                </button>
+                <button
+                  onClick={() => setEditing({ id: template.id, initial: template })}
+                  className="text-gray-400 hover:text-blue-600"
+                  title="Modifier"
+                >
+                  ✏️
+                </button>
+                <button
+                  onClick={() => handleRemove(template)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Supprimer"
+                >
+                  🗑
+                </button>
+              </div>
+              {template.description && <div className="text-xs text-gray-600 mb-1">{template.description}</div>}
+              <div className="text-xs text-gray-500">
+                {template.rounds.map((r) => `${r.label} (${r.matchCount}m)`).join(' → ')}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,97 +1,113 @@
 import React, { useRef, useState } from 'react';
 import { useTournamentStore } from '../store';
-import { getContrastColor } from '../types';
-
-// Tournament bracket templates
-interface BracketTemplate {
-  id: string;
-  name: string;
-  description: string;
-  rounds: Array<{
-    label: string;
-    matchCount: number;
-  }>;
-}
-
-const BRACKET_TEMPLATES: BracketTemplate[] = [
-  {
-    id: 'two-pools-4-2out',
-    name: '2 Poules de 4 (2 sortants)',
-    description: 'Deux poules de 4, 2 qualifiés par poule, demi-finales et finale',
-    rounds: [
-      { label: 'Poule T1', matchCount: 4 },
-      { label: 'Poule T2', matchCount: 4 },
-      { label: 'Poule T3', matchCount: 4 },
-      { label: 'Demi-finales', matchCount: 2 },
-      { label: 'Finale', matchCount: 1 },
-    ],
-  },
-  {
-    id: 'four-pools-3-1out',
-    name: '4 Poules de 3 (1 sortant)',
-    description: 'Quatre poules de 3, 1 qualifié par poule, demi-finales et finale',
-    rounds: [
-      { label: 'Poule T1', matchCount: 4 },
-      { label: 'Poule T2', matchCount: 4 },
-      { label: 'Poule T3', matchCount: 4 },
-      { label: 'Demi-finales', matchCount: 2 },
-      { label: 'Finale', matchCount: 1 },
-    ],
-  },
-  {
-    id: 'four-pools-3-2out',
-    name: '4 Poules de 3 (2 sortants)',
-    description: 'Quatre poules de 3, 2 qualifiés par poule, quart de finale,  demi-finales et finale',
-    rounds: [
-      { label: 'Poule T1', matchCount: 4 },
-      { label: 'Poule T2', matchCount: 4 },
-      { label: 'Poule T3', matchCount: 4 },
-      { label: 'Quart de finale', matchCount: 4 },
-      { label: 'Demi-finales', matchCount: 2 },
-      { label: 'Finale', matchCount: 1 },
-    ],
-  },
-  {
-    id: 'two-pools-3-2out',
-    name: '2 Poules de 3 (2 sortants)',
-    description: 'Deux poules de 3, 2 qualifiés par poule,   demi-finales et finale',
-    rounds: [
-      { label: 'Poule T1', matchCount: 2 },
-      { label: 'Poule T2', matchCount: 2 },
-      { label: 'Poule T3', matchCount: 2 },
-      { label: 'Demi-finales', matchCount: 2 },
-      { label: 'Finale', matchCount: 1 },
-    ],
-  },
-  {
-    id: 'single-pool-5',
-    name: 'Poule unique (5 équipes)',
-    description: 'Une poule de 5 avec finale',
-    rounds: [
-      { label: 'Poule T1', matchCount: 2 },
-      { label: 'Poule T2', matchCount: 2 },
-      { label: 'Poule T3', matchCount: 2 },
-      { label: 'Poule T4', matchCount: 2 },
-      { label: 'Poule T5', matchCount: 2 },
-      { label: 'Finale', matchCount: 1 },
-    ],
-  },
-  {
-    id: 'single-pool-4',
-    name: 'Poule unique (4 équipes)',
-    description: 'Une poule de 4 avec finale',
-    rounds: [
-      { label: 'Poule T1', matchCount: 2 },
-      { label: 'Poule T2', matchCount: 2 },
-      { label: 'Poule T3', matchCount: 2 }
-    ],
-  }
-];
+import {
+  BlockedWindow,
+  CourtAvailability,
+  CourtInterval,
+  MatchDuration,
+  RestRules,
+  TournamentDay,
+  TournamentSettings,
+  formatDuration,
+  generateId,
+  getContrastColor,
+  getRestRules,
+  getTournamentDays,
+  isValidRestRules,
+} from '../types';
+import { EntryImportPreview, buildEntryImportPreview, readEntryFile } from '../entryImport';
+import { EntryImportDialog } from './EntryImportDialog';
+import { SettingsChangeDialog } from './SettingsChangeDialog';
+import { MergeDialog } from './MergeDialog';
+import { MergeConflict } from '../merge';
+import { affectsScheduleLayout, applySettingsChanges } from '../settingsChange';
+import { BracketTemplateLibrary } from './BracketTemplateLibrary';
+import { BracketFormat, BracketRound, describeBracket, generateBracket, suggestBracketFormat } from '../brackets';
+
+// Optional duration override, empty means "inherit"
+const MatchDurationInput: React.FC<{
+  value: MatchDuration | undefined;
+  placeholder: string;
+  onChange: (value: MatchDuration | undefined) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}> = ({ value, placeholder, onChange, className = '', style }) => (
+  <div className="flex items-center gap-1" title="Durée d'un match">
+    <span className="text-xs" style={style}>⏱</span>
+    <input
+      type="number"
+      min="1"
+      value={value?.value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => {
+        const parsed = parseInt(e.target.value);
+        onChange(parsed > 0 ? { value: parsed, unit: value?.unit ?? 'minutes' } : undefined);
+      }}
+      className={`w-14 px-2 py-1 text-sm rounded text-center focus:outline-none focus:ring-2 ${className}`}
+      style={style}
+    />
+    <select
+      value={value?.unit ?? 'minutes'}
+      onChange={(e) =>
+        value && onChange({ ...value, unit: e.target.value as MatchDuration['unit'] })
+      }
+      disabled={!value}
+      className={`px-1 py-1 text-xs rounded focus:outline-none ${className}`}
+      style={style}
+    >
+      <option value="minutes" className="text-gray-800">min</option>
+      <option value="slots" className="text-gray-800">créneaux</option>
+    </select>
+  </div>
+);
+
+// Minimum, ideal and maximum rest in minutes, only valid rules are applied
+const RestRulesInput: React.FC<{
+  value: RestRules;
+  onChange: (value: RestRules) => void;
+}> = ({ value, onChange }) => {
+  const [draft, setDraft] = useState(value);
+  const isValid = isValidRestRules(draft);
+
+  const handleChange = (key: keyof RestRules, input: string) => {
+    const next = { ...draft, [key]: parseInt(input) };
+    setDraft(next);
+    if (isValidRestRules(next)) onChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+      {([
+        ['min', 'Minimum'],
+        ['ideal', 'Idéal'],
+        ['max', 'Maximum'],
+      ] as const).map(([key, label]) => (
+        <label key={key} className="flex items-center gap-1">
+          {label}
+          <input
+            type="number"
+            min="0"
+            step="5"
+            value={Number.isNaN(draft[key]) ? '' : draft[key]}
+            onChange={(e) => handleChange(key, e.target.value)}
+            className={`w-16 px-2 py-1 border rounded text-center focus:outline-none focus:ring-2 ${
+              isValid ? 'border-gray-300 focus:ring-blue-500' : 'border-red-400 focus:ring-red-400'
+            }`}
+          />
+        </label>
+      ))}
+      <span className="text-xs text-gray-500">min</span>
+      {!isValid && <span className="text-xs text-red-600">Minimum ≤ idéal ≤ maximum</span>}
+    </div>
+  );
+};
 
 export const ConfigPhase: React.FC = () => {
   const {
-    settings,
+    settings: savedSettings,
     series,
+    players,
+    schedule,
     updateSettings,
     addSeries,
     removeSeries,
@@ -99,14 +115,147 @@ export const ConfigPhase: React.FC = () => {
     addRound,
     removeRound,
     updateRound,
+    addEntry,
+    removeEntry,
     setPhase,
     resetAll,
-    importTournamentData,
+    receiveTournamentFile,
+    replaceWithTournamentFile,
+    mergeTournamentFile,
   } = useTournamentStore();
 
   const importInputRef = useRef<HTMLInputElement>(null);
+  const entriesInputRef = useRef<HTMLInputElement>(null);
+  const [entryImport, setEntryImport] = useState<{ fileName: string; preview: EntryImportPreview } | null>(null);
   const [newSeriesShortName, setNewSeriesShortName] = useState('');
+  const [bracketFormat, setBracketFormat] = useState<BracketFormat>(() => suggestBracketFormat(8));
   const [importError, setImportError] = useState<string | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{ file: unknown; conflicts: MergeConflict[] } | null>(null);
+  const [entryInputs, setEntryInputs] = useState<Record<string, string>>({});
+  const [courtForm, setCourtForm] = useState<{
+    col: number;
+    kind: 'available' | 'unavailable';
+    dayId: string;
+    startTime: string;
+    endTime: string;
+  }>({ col: 0, kind: 'available', dayId: '', startTime: '10:00', endTime: '18:00' });
+
+  // Grid changes on a scheduled tournament wait for the settings-change assistant
+  const [pendingSettings, setPendingSettings] = useState<Partial<TournamentSettings> | null>(null);
+  const [showSettingsChange, setShowSettingsChange] = useState(false);
+  const settings = pendingSettings ? applySettingsChanges(savedSettings, pendingSettings) : savedSettings;
+
+  const changeLayoutSettings = (changes: Partial<TournamentSettings>) => {
+    const merged = { ...pendingSettings, ...changes };
+    if (schedule.length === 0 || !affectsScheduleLayout(savedSettings, merged)) {
+      updateSettings(merged);
+      setPendingSettings(null);
+    } else {
+      setPendingSettings(merged);
+    }
+  };
+
+  const playerNameById = new Map(players.map((p) => [p.id, p.name]));
+  const days = getTournamentDays(settings);
+
+  const handleUpdateDay = (dayId: string, updates: Partial<Omit<TournamentDay, 'id'>>) => {
+    changeLayoutSettings({
+      days: days.map((d) => (d.id === dayId ? { ...d, ...updates } : d)),
+    });
+  };
+
+  const blockedWindows = settings.blockedWindows ?? [];
+
+  const handleUpdateBlockedWindow = (windowId: string, updates: Partial<Omit<BlockedWindow, 'id'>>) => {
+    changeLayoutSettings({
+      blockedWindows: blockedWindows.map((w) => (w.id === windowId ? { ...w, ...updates } : w)),
+    });
+  };
+
+  const handleAddBlockedWindow = () => {
+    changeLayoutSettings({
+      blockedWindows: [
+        ...blockedWindows,
+        { id: generateId(), label: 'Pause déjeuner', startTime: '12:00', endTime: '13:00' },
+      ],
+    });
+  };
+
+  const handleRemoveBlockedWindow = (windowId: string) => {
+    changeLayoutSettings({ blockedWindows: blockedWindows.filter((w) => w.id !== windowId) });
+  };
+
+  const courtSettings = settings.courts ?? [];
+
+  const updateCourt = (col: number, update: (court: CourtAvailability) => CourtAvailability) => {
+    const existing = courtSettings.find((c) => c.col === col) ?? { col };
+    const updated = update(existing);
+    const others = courtSettings.filter((c) => c.col !== col);
+    const isEmpty = (updated.available ?? []).length === 0 && (updated.unavailable ?? []).length === 0;
+    changeLayoutSettings({
+      courts: (isEmpty ? others : [...others, updated]).sort((a, b) => a.col - b.col),
+    });
+  };
+
+  const handleAddCourtInterval = () => {
+    const interval: CourtInterval = {
+      ...(courtForm.dayId ? { dayId: courtForm.dayId } : {}),
+      startTime: courtForm.startTime,
+      endTime: courtForm.endTime,
+    };
+    updateCourt(courtForm.col, (court) => ({
+      ...court,
+      [courtForm.kind]: [...(court[courtForm.kind] ?? []), interval],
+    }));
+  };
+
+  const handleRemoveCourtInterval = (col: number, kind: 'available' | 'unavailable', index: number) => {
+    updateCourt(col, (court) => ({
+      ...court,
+      [kind]: (court[kind] ?? []).filter((_, i) => i !== index),
+    }));
+  };
+
+  const formatCourtInterval = (interval: CourtInterval) => {
+    const day = days.find((d) => d.id === interval.dayId);
+    return `${day && days.length > 1 ? `${day.label} ` : ''}${interval.startTime}-${interval.endTime}`;
+  };
+
+  // Courts are typed as "1, 2, 5" and stored as 0-indexed columns, empty means all courts
+  const parseCourtList = (value: string): number[] =>
+    value
+      .split(/[,;\s]+/)
+      .map((v) => parseInt(v, 10) - 1)
+      .filter((c) => Number.isInteger(c) && c >= 0 && c < settings.courtCount);
+
+  const handleAddDay = () => {
+    const last = days[days.length - 1];
+    changeLayoutSettings({
+      days: [
+        ...days,
+        { ...last, id: generateId(), label: `Jour ${days.length + 1}` },
+      ],
+    });
+  };
+
+  const handleRemoveDay = (dayId: string) => {
+    const keepInterval = (interval: CourtInterval) => interval.dayId !== dayId;
+    changeLayoutSettings({
+      days: days.filter((d) => d.id !== dayId),
+      blockedWindows: blockedWindows.filter((w) => w.dayId !== dayId),
+      courts: courtSettings.map((court) => ({
+        ...court,
+        available: (court.available ?? []).filter(keepInterval),
+        unavailable: (court.unavailable ?? []).filter(keepInterval),
+      })),
+    });
+    // Unpin series from the removed day, done with the change itself on a scheduled tournament
+    if (schedule.length === 0) {
+      series
+        .filter((s) => s.dayId === dayId)
+        .forEach((s) => updateSeries(s.id, { dayId: undefined }));
+    }
+  };
 
   const handleAddSeries = () => {
     if (newSeriesShortName.trim()) {
@@ -125,7 +274,18 @@ export const ConfigPhase: React.FC = () => {
     addRound(seriesId, 4, label);
   };
 
-  const handleApplyBracketTemplate = (template: BracketTemplate) => {
+  // "Dupont / Martin" registers a pair, "Dupont" a single player
+  const handleAddEntry = (seriesId: string) => {
+    const value = entryInputs[seriesId] ?? '';
+    const names = value.split('/').map((n) => n.trim()).filter(Boolean);
+    if (names.length === 0) return;
+    addEntry(seriesId, names);
+    setEntryInputs((prev) => ({ ...prev, [seriesId]: '' }));
+  };
+
+  const bracket = generateBracket(bracketFormat);
+
+  const handleApplyBracket = (rounds: BracketRound[]) => {
     if (newSeriesShortName.trim()) {
       // Add the series first
       addSeries(newSeriesShortName.trim(), newSeriesShortName.trim());
@@ -136,8 +296,8 @@ export const ConfigPhase: React.FC = () => {
         const newSeries = currentSeries[currentSeries.length - 1];
 
         if (newSeries) {
-          // Add all rounds from the template
-          template.rounds.forEach((round) => {
+          // Add all rounds from the generated bracket
+          rounds.forEach((round) => {
             addRound(newSeries.id, round.matchCount, round.label);
           });
         }
@@ -178,12 +338,22 @@ export const ConfigPhase: React.FC = () => {
     try {
       const content = await file.text();
       const parsed = JSON.parse(content);
-      const result = importTournamentData(parsed);
+      const result = receiveTournamentFile(parsed);
 
       if (!result.success) {
         setImportError(result.error ?? 'Import impossible. Fichier invalide.');
         return;
       }
+      if (result.conflicts) {
+        setPendingMerge({ file: parsed, conflicts: result.conflicts });
+      }
+      if (result.unrelated && window.confirm('Ce fichier ne partage aucun état commun avec le tournoi. Remplacer le tournoi actuel par son contenu ?')) {
+        const replaced = replaceWithTournamentFile(parsed);
+        if (!replaced.success) {
+          setImportError(replaced.error ?? 'Import impossible. Fichier invalide.');
+          return;
+        }
+      }
 
       setImportError(null);
     } catch {
@@ -194,8 +364,53 @@ export const ConfigPhase: React.FC = () => {
     }
   };
 
+  const handleImportEntries: React.ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const rows = await readEntryFile(file);
+      setEntryImport({ fileName: file.name, preview: buildEntryImportPreview(rows, series) });
+      setImportError(null);
+    } catch {
+      setImportError('Import impossible. Le fichier des inscriptions est illisible.');
+    } finally {
+      // Allow importing the same file again.
+      event.target.value = '';
+    }
+  };
+
   return (
     <div className="max-w-6xl mx-auto p-6">
+      {showSettingsChange && pendingSettings && (
+        <SettingsChangeDialog
+          changes={pendingSettings}
+          onApplied={() => {
+            setPendingSettings(null);
+            setShowSettingsChange(false);
+          }}
+          onClose={() => setShowSettingsChange(false)}
+        />
+      )}
+      {pendingMerge && (
+        <MergeDialog
+          conflicts={pendingMerge.conflicts}
+          onResolve={(choices) => {
+            const result = mergeTournamentFile(pendingMerge.file, choices);
+            setImportError(result.success ? null : result.error ?? 'Fusion impossible.');
+            setPendingMerge(null);
+          }}
+          onClose={() => setPendingMerge(null)}
+        />
+      )}
+      {entryImport && (
+        <EntryImportDialog
+          fileName={entryImport.fileName}
+          preview={entryImport.preview}
+          onClose={() => setEntryImport(null)}
+        />
+      )}
+
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
         <h2 className="text-2xl font-bold mb-6 text-gray-800">
           ⚙️ Configuration du Tournoi
@@ -216,8 +431,21 @@ export const ConfigPhase: React.FC = () => {
             onChange={handleImportJSON}
           />
           <span className="text-sm text-gray-600">
-            Charge configuration + echeancier depuis un export
+            Charge configuration + échéancier depuis un export, ou fusionne un export modifié par un autre organisateur
           </span>
+          <button
+            onClick={() => entriesInputRef.current?.click()}
+            className="ml-auto px-4 py-2 bg-emerald-600 text-white rounded-md hover:bg-emerald-700 transition-colors"
+          >
+            👥 Importer des inscriptions
+          </button>
+          <input
+            ref={entriesInputRef}
+            type="file"
+            accept=".csv,.txt,.xlsx,.xls,.ods,text/csv"
+            className="hidden"
+            onChange={handleImportEntries}
+          />
         </div>
 
         {importError && (
@@ -227,23 +455,28 @@ export const ConfigPhase: React.FC = () => {
         )}
 
         {/* Tournament Settings */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8 p-4 bg-gray-50 rounded-lg">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Nombre de terrains
-            </label>
-            <input
-              type="number"
-              min="1"
-              max="20"
-              value={settings.courtCount}
-              onChange={(e) =>
-                updateSettings({ courtCount: parseInt(e.target.value) || 1 })
-              }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
-          <div>
+        <div className="mb-8 p-4 bg-gray-50 rounded-lg space-y-4">
+          {pendingSettings && (
+            <div className="p-3 bg-amber-50 border border-amber-300 rounded-md flex flex-wrap items-center gap-3 text-sm text-amber-900">
+              <span className="flex-1">
+                ⚠️ Ces modifications déplacent des tours déjà placés, elles ne sont pas encore appliquées.
+              </span>
+              <button
+                onClick={() => setShowSettingsChange(true)}
+                className="px-3 py-1 bg-amber-600 text-white rounded hover:bg-amber-700 transition-colors"
+              >
+                🧭 Voir l'impact et appliquer
+              </button>
+              <button
+                onClick={() => setPendingSettings(null)}
+                className="px-3 py-1 bg-white border border-amber-300 rounded hover:bg-amber-100 transition-colors"
+              >
+                Abandonner
+              </button>
+            </div>
+          )}
+
+          <div className="max-w-xs">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Durée créneau (minutes)
             </label>
@@ -254,34 +487,238 @@ export const ConfigPhase: React.FC = () => {
               step="5"
               value={settings.timeSlotDuration}
               onChange={(e) =>
-                updateSettings({
+                changeLayoutSettings({
                   timeSlotDuration: parseInt(e.target.value) || 35,
                 })
               }
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
+
+          {/* Rest rules */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Heure de début
+              Repos entre deux tours d'une série (après la fin du tour précédent)
             </label>
-            <input
-              type="time"
-              value={settings.startTime}
-              onChange={(e) => updateSettings({ startTime: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            <RestRulesInput
+              value={getRestRules(undefined, settings)}
+              onChange={(restRules) => updateSettings({ restRules })}
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Utilisé pour les couleurs de la vue par série, la vérification et l'auto-génération.
+              Chaque série peut avoir ses propres règles.
+            </p>
           </div>
+
+          {/* Days */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Heure de fin
-            </label>
-            <input
-              type="time"
-              value={settings.endTime || '18:00'}
-              onChange={(e) => updateSettings({ endTime: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
+            <div className="grid grid-cols-[1fr_repeat(3,minmax(0,140px))_40px] gap-3 mb-2 text-sm font-medium text-gray-700">
+              <span>Jour</span>
+              <span>Heure de début</span>
+              <span>Heure de fin</span>
+              <span>Nombre de terrains</span>
+              <span />
+            </div>
+            <div className="space-y-2">
+              {days.map((day) => (
+                <div
+                  key={day.id}
+                  className="grid grid-cols-[1fr_repeat(3,minmax(0,140px))_40px] gap-3 items-center"
+                >
+                  <input
+                    type="text"
+                    value={day.label}
+                    onChange={(e) => handleUpdateDay(day.id, { label: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="time"
+                    value={day.startTime}
+                    onChange={(e) => handleUpdateDay(day.id, { startTime: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="time"
+                    value={day.endTime}
+                    onChange={(e) => handleUpdateDay(day.id, { endTime: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    max="20"
+                    value={day.courtCount}
+                    onChange={(e) =>
+                      handleUpdateDay(day.id, { courtCount: parseInt(e.target.value) || 1 })
+                    }
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => handleRemoveDay(day.id)}
+                    disabled={days.length === 1}
+                    className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Supprimer le jour"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={handleAddDay}
+              className="mt-2 px-3 py-1 text-sm border border-dashed border-gray-400 text-gray-600 rounded hover:bg-gray-100 transition-colors"
+            >
+              + Ajouter un jour
+            </button>
+          </div>
+
+          {/* Blocked windows */}
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">
+              ⛔ Pauses et créneaux bloqués
+            </div>
+            <div className="space-y-2">
+              {blockedWindows.map((w) => (
+                <div key={w.id} className="flex flex-wrap gap-2 items-center">
+                  <input
+                    type="text"
+                    value={w.label}
+                    onChange={(e) => handleUpdateBlockedWindow(w.id, { label: e.target.value })}
+                    className="flex-1 min-w-[150px] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {days.length > 1 && (
+                    <select
+                      value={w.dayId ?? ''}
+                      onChange={(e) => handleUpdateBlockedWindow(w.id, { dayId: e.target.value || undefined })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Tous les jours</option>
+                      {days.map((day) => (
+                        <option key={day.id} value={day.id}>
+                          {day.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <input
+                    type="time"
+                    value={w.startTime}
+                    onChange={(e) => handleUpdateBlockedWindow(w.id, { startTime: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="time"
+                    value={w.endTime}
+                    onChange={(e) => handleUpdateBlockedWindow(w.id, { endTime: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Tous les terrains"
+                    defaultValue={(w.courts ?? []).map((c) => c + 1).join(', ')}
+                    onBlur={(e) => handleUpdateBlockedWindow(w.id, { courts: parseCourtList(e.target.value) })}
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    title="Terrains concernés (ex : 1, 2), vide pour tous"
+                  />
+                  <button
+                    onClick={() => handleRemoveBlockedWindow(w.id)}
+                    className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors"
+                    title="Supprimer le créneau bloqué"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={handleAddBlockedWindow}
+              className="mt-2 px-3 py-1 text-sm border border-dashed border-gray-400 text-gray-600 rounded hover:bg-gray-100 transition-colors"
+            >
+              + Bloquer un créneau
+            </button>
+          </div>
+
+          {/* Court availability */}
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">
+              🏟️ Disponibilité des terrains
+            </div>
+            <div className="flex flex-wrap gap-2 items-center">
+              <select
+                value={courtForm.col}
+                onChange={(e) => setCourtForm({ ...courtForm, col: parseInt(e.target.value) })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Array.from({ length: settings.courtCount }).map((_, col) => (
+                  <option key={col} value={col}>
+                    Terrain {col + 1}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={courtForm.kind}
+                onChange={(e) =>
+                  setCourtForm({ ...courtForm, kind: e.target.value as 'available' | 'unavailable' })
+                }
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="available">Disponible uniquement</option>
+                <option value="unavailable">Indisponible</option>
+              </select>
+              {days.length > 1 && (
+                <select
+                  value={courtForm.dayId}
+                  onChange={(e) => setCourtForm({ ...courtForm, dayId: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Tous les jours</option>
+                  {days.map((day) => (
+                    <option key={day.id} value={day.id}>
+                      {day.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="time"
+                value={courtForm.startTime}
+                onChange={(e) => setCourtForm({ ...courtForm, startTime: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="time"
+                value={courtForm.endTime}
+                onChange={(e) => setCourtForm({ ...courtForm, endTime: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleAddCourtInterval}
+                className="px-3 py-2 text-sm bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
+              >
+                + Ajouter
+              </button>
+            </div>
+            {courtSettings.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {courtSettings.map((court) => (
+                  <div key={court.col} className="flex flex-wrap items-center gap-1 text-sm">
+                    <span className="font-medium text-gray-700 w-24">Terrain {court.col + 1}</span>
+                    {(court.available ?? []).map((interval, idx) => (
+                      <span key={`a-${idx}`} className="flex items-center gap-1 text-xs px-2 py-0.5 bg-green-100 text-green-800 rounded">
+                        Disponible {formatCourtInterval(interval)}
+                        <button onClick={() => handleRemoveCourtInterval(court.col, 'available', idx)}>✕</button>
+                      </span>
+                    ))}
+                    {(court.unavailable ?? []).map((interval, idx) => (
+                      <span key={`u-${idx}`} className="flex items-center gap-1 text-xs px-2 py-0.5 bg-red-100 text-red-800 rounded">
+                        Indisponible {formatCourtInterval(interval)}
+                        <button onClick={() => handleRemoveCourtInterval(court.col, 'unavailable', idx)}>✕</button>
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -308,44 +745,114 @@ export const ConfigPhase: React.FC = () => {
           </div>
         </div>
 
-        {/* Bracket Templates */}
+        {/* Bracket Generator */}
         <div className="mb-6">
           <h4 className="text-sm font-medium text-gray-700 mb-3">
-            📋 Structures de tableau prédéfinies
+            🧮 Générateur de tableau
           </h4>
           <p className="text-xs text-gray-600 mb-3">
-            Sélectionnez une structure pour créer automatiquement une série avec tous ses tours.
+            Calcule les tours de poules et d'élimination à partir du nombre d'inscrits, puis crée la série.
             Remplissez d'abord l'abréviation ci-dessus.
           </p>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-            {BRACKET_TEMPLATES.map((template) => (
-              <button
-                key={template.id}
-                onClick={() => handleApplyBracketTemplate(template)}
-                disabled={!newSeriesShortName.trim()}
-                className="text-left p-3 border-2 border-gray-200 rounded-lg hover:border-blue-400 hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-gray-200 disabled:hover:bg-white"
+          <div className="flex flex-wrap items-end gap-3 mb-3">
+            <label className="text-xs text-gray-600">
+              Inscrits
+              <input
+                type="number"
+                min="2"
+                value={bracketFormat.entryCount}
+                onChange={(e) =>
+                  setBracketFormat({ ...bracketFormat, entryCount: parseInt(e.target.value) || 0 })
+                }
+                className="block mt-1 w-20 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Poules de
+              <select
+                value={bracketFormat.poolSize}
+                onChange={(e) =>
+                  setBracketFormat({ ...bracketFormat, poolSize: parseInt(e.target.value) })
+                }
+                className="block mt-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                <div className="font-semibold text-sm text-gray-800 mb-1">
-                  {template.name}
-                </div>
-                <div className="text-xs text-gray-600 mb-2">
-                  {template.description}
-                </div>
-                <div className="flex flex-wrap gap-1">
-                  {template.rounds.map((round, idx) => (
-                    <span
-                      key={idx}
-                      className="text-xs px-2 py-0.5 bg-gray-100 rounded"
-                    >
-                      {round.label} ({round.matchCount}m)
-                    </span>
-                  ))}
-                </div>
-              </button>
-            ))}
+                <option value={0}>Sans poule</option>
+                {[3, 4, 5, 6, 7, 8].map((size) => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Sortants par poule
+              <input
+                type="number"
+                min="0"
+                value={bracketFormat.qualifiersPerPool}
+                disabled={bracketFormat.poolSize === 0}
+                onChange={(e) =>
+                  setBracketFormat({ ...bracketFormat, qualifiersPerPool: parseInt(e.target.value) || 0 })
+                }
+                className="block mt-1 w-20 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Tours d'élimination
+              <select
+                value={bracketFormat.knockoutDepth ?? ''}
+                onChange={(e) =>
+                  setBracketFormat({
+                    ...bracketFormat,
+                    knockoutDepth: e.target.value ? parseInt(e.target.value) : undefined,
+                  })
+                }
+                className="block mt-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Automatique</option>
+                {[1, 2, 3, 4, 5].map((depth) => (
+                  <option key={depth} value={depth}>{depth}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => setBracketFormat(suggestBracketFormat(bracketFormat.entryCount))}
+              className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+              title="Format habituel pour ce nombre d'inscrits"
+            >
+              ✨ Suggérer
+            </button>
           </div>
+
+          {bracket.plan ? (
+            <div className="p-3 border-2 border-gray-200 rounded-lg">
+              <div className="text-xs text-gray-600 mb-2">{describeBracket(bracket.plan)}</div>
+              <div className="flex flex-wrap items-center gap-1">
+                {bracket.plan.rounds.map((round, idx) => (
+                  <span key={idx} className="text-xs px-2 py-0.5 bg-gray-100 rounded">
+                    {round.label} ({round.matchCount}m)
+                  </span>
+                ))}
+                <button
+                  onClick={() => handleApplyBracket(bracket.plan!.rounds)}
+                  disabled={!newSeriesShortName.trim() || bracket.plan.rounds.length === 0}
+                  className="ml-auto px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  + Créer la série
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
+              ⚠️ {bracket.error}
+            </div>
+          )}
         </div>
 
+        <BracketTemplateLibrary
+          generated={bracket.plan ? { name: describeBracket(bracket.plan), rounds: bracket.plan.rounds } : undefined}
+          canApply={!!newSeriesShortName.trim()}
+          onApply={handleApplyBracket}
+        />
+
         {/* Series List */}
         <div className="space-y-4">
           {series.length === 0 ? (
@@ -397,6 +904,31 @@ export const ConfigPhase: React.FC = () => {
                     />
                   </div>
                   <div className="flex items-center gap-2">
+                    {days.length > 1 && (
+                      <select
+                        value={s.dayId ?? ''}
+                        onChange={(e) =>
+                          updateSeries(s.id, { dayId: e.target.value || undefined })
+                        }
+                        className="px-2 py-1 rounded text-sm bg-white/20 border-none focus:outline-none focus:ring-2 focus:ring-white/50"
+                        style={{ color: getContrastColor(s.color) }}
+                        title="Jour de la série"
+                      >
+                        <option value="" className="text-gray-800">Tous les jours</option>
+                        {days.map((day) => (
+                          <option key={day.id} value={day.id} className="text-gray-800">
+                            {day.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <MatchDurationInput
+                      value={s.matchDuration}
+                      placeholder={String(settings.timeSlotDuration)}
+                      onChange={(matchDuration) => updateSeries(s.id, { matchDuration })}
+                      className="bg-white/20 border-none focus:ring-white/50"
+                      style={{ color: getContrastColor(s.color) }}
+                    />
                     <span className="text-sm opacity-80">
                       {s.rounds.length} tour(s)
                     </span>
@@ -412,6 +944,31 @@ export const ConfigPhase: React.FC = () => {
 
                 {/* Rounds */}
                 <div className="p-4 bg-white">
+                  <div className="flex flex-wrap items-center gap-3 mb-3">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={!!s.restRules}
+                        onChange={(e) =>
+                          updateSeries(s.id, {
+                            restRules: e.target.checked ? getRestRules(undefined, settings) : undefined,
+                          })
+                        }
+                      />
+                      Repos propre à la série
+                    </label>
+                    {s.restRules ? (
+                      <RestRulesInput
+                        value={s.restRules}
+                        onChange={(restRules) => updateSeries(s.id, { restRules })}
+                      />
+                    ) : (
+                      <span className="text-xs text-gray-500">
+                        Règles du tournoi : {formatDuration(getRestRules(undefined, settings).min)} minimum,{' '}
+                        {formatDuration(getRestRules(undefined, settings).max)} maximum
+                      </span>
+                    )}
+                  </div>
                   <div className="flex flex-wrap gap-2 mb-3">
                     {s.rounds.map((r) => (
                       <div
@@ -441,6 +998,12 @@ export const ConfigPhase: React.FC = () => {
                           />
                           <span className="text-xs text-gray-500">matchs</span>
                         </div>
+                        <MatchDurationInput
+                          value={r.duration}
+                          placeholder={s.matchDuration ? String(s.matchDuration.value) : String(settings.timeSlotDuration)}
+                          onChange={(duration) => updateRound(s.id, r.id, { duration })}
+                          className="border focus:ring-blue-500"
+                        />
                         <button
                           onClick={() => removeRound(s.id, r.id)}
                           className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors"
@@ -477,6 +1040,51 @@ export const ConfigPhase: React.FC = () => {
                       </button>
                     ))}
                   </div>
+
+                  {/* Entries */}
+                  <div className="mt-4 pt-3 border-t border-gray-100">
+                    <div className="text-sm font-medium text-gray-700 mb-2">
+                      👥 Inscrits ({(s.entries ?? []).length})
+                    </div>
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {(s.entries ?? []).map((entry) => (
+                        <span
+                          key={entry.id}
+                          className="flex items-center gap-1 text-xs px-2 py-0.5 bg-gray-100 rounded"
+                        >
+                          {entry.playerIds.map((id) => playerNameById.get(id) ?? '?').join(' / ')}
+                          <button
+                            onClick={() => removeEntry(s.id, entry.id)}
+                            className="text-red-500 hover:text-red-700"
+                            title="Retirer l'inscription"
+                          >
+                            ✕
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        placeholder="Joueur (ou Joueur 1 / Joueur 2)"
+                        value={entryInputs[s.id] ?? ''}
+                        onChange={(e) =>
+                          setEntryInputs((prev) => ({ ...prev, [s.id]: e.target.value }))
+                        }
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleAddEntry(s.id);
+                        }}
+                        className="flex-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={() => handleAddEntry(s.id)}
+                        disabled={!(entryInputs[s.id] ?? '').trim()}
+                        className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        + Inscrire
+                      </button>
+                    </div>
+                  </div>
                 </div>
               </div>
             ))
@@ -516,7 +1124,7 @@ export const ConfigPhase: React.FC = () => {
             onClick={() => {
               if (
                 window.confirm(
-                  'Êtes-vous sûr de vouloir tout réinitialiser ?'
+                  'Êtes-vous sûr de vouloir tout réinitialiser ? Les autres tournois ne sont pas modifiés.'
                 )
               ) {
                 resetAll();
@@ -527,7 +1135,7 @@ export const ConfigPhase: React.FC = () => {
             🗑️ Tout réinitialiser
           </button>
           <button
-            onClick={() => setPhase('schedule')}
+            onClick={() => (pendingSettings ? setShowSettingsChange(true) : setPhase('schedule'))}
             disabled={series.length === 0 || totalRounds === 0}
             className="px-6 py-3 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
           >
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { useTournamentStore } from '../store';
+import { EntryImportPreview, ImportedSeriesPlan } from '../entryImport';
+import { describeBracket } from '../brackets';
+
+interface EntryImportDialogProps {
+  fileName: string;
+  preview: EntryImportPreview;
+  onClose: () => void;
+}
+
+// Preview of an imported registration file, nothing is applied before confirmation
+export const EntryImportDialog: React.FC<EntryImportDialogProps> = ({ fileName, preview, onClose }) => {
+  const importEntries = useTournamentStore((state) => state.importEntries);
+  const [plans, setPlans] = useState<ImportedSeriesPlan[]>(preview.series);
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(preview.series.map((_, i) => i)));
+
+  const totalEntries = plans.reduce((acc, plan, i) => acc + (selected.has(i) ? plan.entries.length : 0), 0);
+
+  const toggle = (index: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(index);
+    else next.delete(index);
+    setSelected(next);
+  };
+
+  const handleApply = () => {
+    importEntries(plans.filter((_, i) => selected.has(i)));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">📥 Import des inscriptions</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {fileName} : {preview.series.length} série(s) détectée(s).
+          {preview.skippedLines.length > 0 &&
+            ` Lignes ignorées (joueur ou catégorie manquant) : ${preview.skippedLines.join(', ')}.`}
+        </p>
+
+        {plans.length === 0 ? (
+          <div className="p-6 text-center text-gray-500 bg-gray-50 rounded-lg">
+            Aucune inscription trouvée. Le fichier doit contenir les colonnes Joueur, Club et Catégorie.
+          </div>
+        ) : (
+          <div className="overflow-y-auto space-y-2 pr-1">
+            {plans.map((plan, index) => (
+              <div
+                key={index}
+                className={`border rounded-lg p-3 ${selected.has(index) ? 'border-blue-300 bg-blue-50/40' : 'border-gray-200 opacity-60'}`}
+              >
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={(e) => toggle(index, e.target.checked)}
+                  />
+                  <input
+                    type="text"
+                    value={plan.shortName}
+                    onChange={(e) =>
+                      setPlans(plans.map((p, i) => (i === index ? { ...p, shortName: e.target.value } : p)))
+                    }
+                    disabled={!!plan.existingSeriesId}
+                    className="w-20 px-2 py-1 text-sm font-bold text-center border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                    title="Abréviation"
+                  />
+                  <span className="font-medium text-gray-800">{plan.name}</span>
+                  <span className="text-sm text-gray-600">{plan.entries.length} inscrit(s)</span>
+                  {plan.existingSeriesId && (
+                    <span className="text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800">
+                      Série existante : inscrits ajoutés, tours conservés
+                    </span>
+                  )}
+                </div>
+                {!plan.existingSeriesId && (
+                  <div className="mt-2 ml-7">
+                    <div className="text-xs text-gray-600 mb-1">{describeBracket(plan.bracket)}</div>
+                    <div className="flex flex-wrap gap-1">
+                      {plan.bracket.rounds.map((round, idx) => (
+                        <span key={idx} className="text-xs px-2 py-0.5 bg-gray-100 rounded">
+                          {round.label} ({round.matchCount}m)
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-4 flex justify-between items-center">
+          <span className="text-sm text-gray-600">
+            {selected.size} série(s), {totalEntries} inscription(s)
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+              Annuler
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={selected.size === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              Créer les séries
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { useTournamentStore } from '../store';
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+// Undo/redo buttons with Ctrl+Z / Ctrl+Shift+Z, and the list of steps to jump to
+export const HistoryPanel: React.FC = () => {
+  const { undoStack, redoStack, undo, redo, goToHistoryStep } = useTournamentStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Text fields keep their own undo
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Steps in chronological order: the redo stack holds the next step last
+  const steps = [
+    ...undoStack.map((entry) => ({ label: entry.label, at: entry.at })),
+    ...[...redoStack].reverse().map((entry) => ({ label: entry.label, at: entry.at })),
+  ];
+  const current = undoStack.length;
+  const lastUndo = undoStack[undoStack.length - 1];
+  const nextRedo = redoStack[redoStack.length - 1];
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={undo}
+        disabled={!lastUndo}
+        className="px-2 py-1 rounded bg-white/20 hover:bg-white/30 disabled:opacity-40 disabled:cursor-not-allowed"
+        title={lastUndo ? `Annuler : ${lastUndo.label} (Ctrl+Z)` : 'Rien à annuler'}
+      >
+        ↶
+      </button>
+      <button
+        onClick={redo}
+        disabled={!nextRedo}
+        className="px-2 py-1 rounded bg-white/20 hover:bg-white/30 disabled:opacity-40 disabled:cursor-not-allowed"
+        title={nextRedo ? `Rétablir : ${nextRedo.label} (Ctrl+Shift+Z)` : 'Rien à rétablir'}
+      >
+        ↷
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-2 py-1 rounded text-sm ${isOpen ? 'bg-white text-blue-600' : 'bg-white/20 hover:bg-white/30'}`}
+        title="Historique des modifications"
+      >
+        🕘 {steps.length}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-80 max-h-96 overflow-y-auto bg-white text-gray-800 rounded-lg shadow-xl border border-gray-200">
+          <div className="px-3 py-2 text-xs text-gray-500 border-b">
+            Cliquez sur une étape pour revenir à l'état qui la suit.
+          </div>
+          <button
+            onClick={() => goToHistoryStep(0)}
+            className={`w-full text-left px-3 py-1.5 text-sm hover:bg-blue-50 ${current === 0 ? 'bg-blue-100 font-semibold' : ''}`}
+          >
+            Début de l'historique
+          </button>
+          {steps.map((step, index) => (
+            <button
+              key={index}
+              onClick={() => goToHistoryStep(index + 1)}
+              className={`w-full flex items-baseline gap-2 text-left px-3 py-1.5 text-sm hover:bg-blue-50 ${
+                index + 1 === current ? 'bg-blue-100 font-semibold' : ''
+              } ${index + 1 > current ? 'text-gray-400' : ''}`}
+            >
+              <span className="flex-1">{step.label}</span>
+              <span className="text-xs text-gray-400">{formatClock(step.at)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
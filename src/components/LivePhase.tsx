@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { useTournamentStore, useLiveProjection } from '../store';
+import { ScheduleGrid } from './ScheduleGrid';
+import { VerticalScheduleView } from './VerticalScheduleView';
+import { Round, Series, getContrastColor, getRowAbsoluteMinutes } from '../types';
+import { LiveMatchInfo, LiveRoundInfo, formatAbsoluteTime, formatDelay } from '../liveProjection';
+
+type LiveViewMode = 'rounds' | 'grid' | 'vertical';
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+
+const matchTitle = (index: number, match?: LiveMatchInfo) => {
+  if (match?.finishedAt !== undefined) return `Match ${index + 1} terminé à ${formatTimestamp(match.finishedAt)}`;
+  if (match?.startedAt !== undefined) return `Match ${index + 1} lancé à ${formatTimestamp(match.startedAt)}, cliquer pour le terminer`;
+  return `Cliquer pour lancer le match ${index + 1}`;
+};
+
+export const LivePhase: React.FC = () => {
+  const {
+    setPhase,
+    series,
+    schedule,
+    settings,
+    startMatch,
+    finishMatch,
+    startRound,
+    finishRound,
+    resetRoundProgress,
+    clearProgress,
+  } = useTournamentStore();
+  const liveProjection = useLiveProjection();
+
+  const [viewMode, setViewMode] = useState<LiveViewMode>('rounds');
+  const [showFinished, setShowFinished] = useState(false);
+
+  const rounds = schedule
+    .flatMap((sr) => {
+      for (const s of series) {
+        const round = s.rounds.find((r) => r.id === sr.roundId);
+        if (round) {
+          const live = liveProjection?.rounds.get(round.id);
+          const plannedStart = getRowAbsoluteMinutes(sr.row, settings);
+          return [{ round, series: s, plannedStart, live }];
+        }
+      }
+      return [];
+    })
+    .sort((a, b) => a.plannedStart - b.plannedStart || a.series.shortName.localeCompare(b.series.shortName));
+
+  const visibleRounds = rounds.filter((r) => showFinished || r.live?.status !== 'finished');
+  const finishedCount = rounds.filter((r) => r.live?.status === 'finished').length;
+
+  const handleMatchClick = (round: Round, index: number, match?: LiveMatchInfo) => {
+    if (!match || match.status === 'planned') startMatch(round.id, index);
+    else if (match.status === 'started') finishMatch(round.id, index);
+  };
+
+  const renderRound = ({ round, series: s, plannedStart, live }: {
+    round: Round;
+    series: Series;
+    plannedStart: number;
+    live?: LiveRoundInfo;
+  }) => (
+    <div
+      key={round.id}
+      className={`flex flex-wrap items-center gap-3 p-3 border-b border-gray-100 last:border-b-0 ${
+        live?.status === 'started' ? 'bg-green-50' : live?.status === 'finished' ? 'opacity-50' : ''
+      }`}
+    >
+      <span
+        className="inline-block px-2 py-1 rounded font-semibold text-sm min-w-[60px] text-center"
+        style={{ backgroundColor: s.color, color: getContrastColor(s.color) }}
+      >
+        {s.shortName}
+      </span>
+      <span className="font-medium text-gray-800 min-w-[100px]">{round.label}</span>
+
+      <div className="text-sm text-gray-600 min-w-[170px]">
+        Prévu {formatAbsoluteTime(plannedStart)}
+        {live && live.status !== 'finished' && (
+          <span className={`ml-2 font-semibold ${live.delayMinutes > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+            {live.status === 'started' ? '▶' : '≈'} {formatAbsoluteTime(live.projectedStart)}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {Array.from({ length: round.matchCount }, (_, i) => {
+          const match = live?.matches[i];
+          return (
+            <button
+              key={i}
+              onClick={() => handleMatchClick(round, i, match)}
+              disabled={match?.status === 'finished'}
+              className={`px-2 py-0.5 text-xs rounded border transition-colors ${
+                match?.status === 'finished'
+                  ? 'bg-gray-200 text-gray-500 border-gray-200'
+                  : match?.status === 'started'
+                    ? 'bg-green-600 text-white border-green-600 hover:bg-green-700'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+              }`}
+              title={matchTitle(i, match)}
+            >
+              {match?.status === 'finished' ? '✓' : match?.status === 'started' ? '▶' : ''} M{i + 1}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="ml-auto flex gap-2">
+        {(!live || live.status === 'planned') && (
+          <button
+            onClick={() => startRound(round.id)}
+            className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+          >
+            ▶ Lancer le tour
+          </button>
+        )}
+        {live?.status === 'started' && (
+          <button
+            onClick={() => finishRound(round.id)}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+          >
+            ✓ Terminer le tour
+          </button>
+        )}
+        {live && live.status !== 'planned' && (
+          <button
+            onClick={() => resetRoundProgress(round.id)}
+            className="px-2 py-1 text-sm bg-gray-100 text-gray-600 rounded hover:bg-gray-200 transition-colors"
+            title="Effacer le suivi de ce tour"
+          >
+            ↺
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen p-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-lg p-4 mb-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setPhase('schedule')}
+              className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
+            >
+              ← Échéancier
+            </button>
+            <h2 className="text-xl font-bold text-gray-800">🔴 Jour J</h2>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <div
+              className={`text-sm px-3 py-1 rounded font-semibold ${
+                !liveProjection
+                  ? 'bg-gray-100 text-gray-600'
+                  : liveProjection.delayMinutes > 0
+                    ? 'bg-amber-100 text-amber-800'
+                    : 'bg-green-100 text-green-800'
+              }`}
+            >
+              {liveProjection
+                ? `Retard observé : ${formatDelay(liveProjection.delayMinutes)}`
+                : 'Aucun match lancé'}
+            </div>
+            <div className="text-sm text-gray-600 bg-gray-100 px-3 py-1 rounded">
+              {finishedCount}/{rounds.length} tours terminés
+            </div>
+            <button
+              onClick={() => {
+                if (window.confirm('Effacer tout le suivi du jour J ? Le planning prévu est conservé.')) {
+                  clearProgress();
+                }
+              }}
+              disabled={!liveProjection}
+              className="px-4 py-2 bg-red-100 text-red-700 rounded-md hover:bg-red-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              🗑️ Effacer le suivi
+            </button>
+          </div>
+        </div>
+
+        {/* View Mode Toggle */}
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600">Vue :</span>
+          <div className="flex rounded-lg overflow-hidden border border-gray-300">
+            {([
+              ['rounds', '🏸 Suivi des tours'],
+              ['grid', '📊 Grille horaire'],
+              ['vertical', '🧾 Vue verticale'],
+            ] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-4 py-2 text-sm font-medium transition-colors ${viewMode === mode
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100'
+                  }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {viewMode === 'rounds' && (
+            <label className="ml-4 flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showFinished}
+                onChange={(e) => setShowFinished(e.target.checked)}
+              />
+              Afficher les tours terminés
+            </label>
+          )}
+        </div>
+      </div>
+
+      {/* Main content */}
+      {viewMode === 'rounds' ? (
+        <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+          {visibleRounds.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">
+              {rounds.length === 0 ? 'Aucun tour placé dans l\'échéancier.' : 'Tous les tours sont terminés.'}
+            </div>
+          ) : (
+            visibleRounds.map(renderRound)
+          )}
+        </div>
+      ) : viewMode === 'grid' ? (
+        <ScheduleGrid readOnly />
+      ) : (
+        <VerticalScheduleView />
+      )}
+
+      <div className="mt-4 bg-blue-50 rounded-lg p-4 text-sm text-blue-800">
+        <strong>💡 Jour J :</strong>
+        <ul className="mt-2 space-y-1 list-disc list-inside">
+          <li>Lancez et terminez les tours ou les matchs au fur et à mesure, l'heure réelle est enregistrée</li>
+          <li>Les horaires estimés des tours restants sont recalculés à partir du retard observé</li>
+          <li>Le planning prévu n'est pas modifié</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
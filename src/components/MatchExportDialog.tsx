@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { useTournamentStore } from '../store';
+import {
+  MATCH_EXPORT_COLUMNS,
+  MATCH_EXPORT_HEADERS,
+  MatchExportColumn,
+  MatchExportOptions,
+  exportMatches,
+} from '../matchExport';
+
+const DEFAULT_COLUMNS: MatchExportColumn[] = ['day', 'time', 'court', 'series', 'round', 'match'];
+
+export const MatchExportDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [options, setOptions] = useState<MatchExportOptions>({
+    format: 'xlsx',
+    language: 'fr',
+    columns: DEFAULT_COLUMNS,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (column: MatchExportColumn, checked: boolean) => {
+    // Keep the columns in their reference order
+    const selected = new Set(options.columns);
+    if (checked) selected.add(column);
+    else selected.delete(column);
+    setOptions({ ...options, columns: MATCH_EXPORT_COLUMNS.filter((c) => selected.has(c)) });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { settings, series, schedule } = useTournamentStore.getState();
+      await exportMatches({ settings, series, schedule }, options);
+      onClose();
+    } catch {
+      setError("L'export a échoué.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">📄 Export des matchs</h3>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <label className="text-sm text-gray-700">
+            Format
+            <select
+              value={options.format}
+              onChange={(e) => setOptions({ ...options, format: e.target.value as MatchExportOptions['format'] })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="xlsx">Excel (.xlsx)</option>
+              <option value="csv">CSV</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            En-têtes
+            <select
+              value={options.language}
+              onChange={(e) => setOptions({ ...options, language: e.target.value as MatchExportOptions['language'] })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="fr">Français</option>
+              <option value="en">English</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="text-sm font-medium text-gray-700 mb-2">Colonnes</div>
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {MATCH_EXPORT_COLUMNS.map((column) => (
+            <label key={column} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.columns.includes(column)}
+                onChange={(e) => toggleColumn(column, e.target.checked)}
+              />
+              {MATCH_EXPORT_HEADERS[options.language][column]}
+            </label>
+          ))}
+        </div>
+
+        {options.format === 'csv' && (
+          <p className="text-xs text-gray-500 mb-4">
+            Séparateur : {options.language === 'fr' ? 'point-virgule' : 'virgule'}
+          </p>
+        )}
+
+        {error && (
+          <div className="mb-3 p-2 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">⚠️ {error}</div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+            Annuler
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={options.columns.length === 0 || isExporting}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            Télécharger
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
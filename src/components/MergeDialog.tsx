@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { MergeChoice, MergeConflict } from '../merge';
+
+interface MergeDialogProps {
+  conflicts: MergeConflict[];
+  onResolve: (choices: Record<string, MergeChoice>) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<MergeConflict['kind'], string> = {
+  series: 'Série',
+  round: 'Tour',
+  placement: 'Placement',
+  overlap: 'Même case',
+};
+
+// Items changed both here and in the received file, each resolved by keeping one side
+export const MergeDialog: React.FC<MergeDialogProps> = ({ conflicts, onResolve, onClose }) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() =>
+    Object.fromEntries(conflicts.map((c) => [c.key, 'local' as MergeChoice]))
+  );
+
+  const chooseAll = (choice: MergeChoice) =>
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.key, choice])));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">🔀 Fusionner le fichier reçu</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          {conflicts.length} élément(s) ont été modifiés des deux côtés depuis le dernier échange. Choisissez la
+          version à garder, les autres modifications sont fusionnées automatiquement. La fusion pourra être
+          annulée en une fois.
+        </p>
+
+        <div className="flex gap-2 mb-3">
+          <button
+            onClick={() => chooseAll('local')}
+            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Tout garder ici
+          </button>
+          <button
+            onClick={() => chooseAll('remote')}
+            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Tout prendre du fichier
+          </button>
+        </div>
+
+        <div className="overflow-y-auto space-y-2 pr-1">
+          {conflicts.map((conflict) => (
+            <div key={conflict.key} className="p-3 border border-gray-200 rounded-lg">
+              <div className="text-sm font-medium text-gray-800 mb-2">
+                <span className="text-xs px-2 py-0.5 mr-2 rounded-full bg-gray-100 text-gray-600">
+                  {KIND_LABELS[conflict.kind]}
+                </span>
+                {conflict.label}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {(['local', 'remote'] as MergeChoice[]).map((side) => (
+                  <label
+                    key={side}
+                    className={`flex items-start gap-2 p-2 border rounded-md cursor-pointer text-sm transition-colors ${
+                      choices[conflict.key] === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name={`merge-${conflict.key}`}
+                      className="mt-1"
+                      checked={choices[conflict.key] === side}
+                      onChange={() => setChoices({ ...choices, [conflict.key]: side })}
+                    />
+                    <span>
+                      <span className="block text-xs text-gray-500">{side === 'local' ? 'Ici' : 'Fichier reçu'}</span>
+                      {side === 'local' ? conflict.local : conflict.remote}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+            Annuler
+          </button>
+          <button
+            onClick={() => onResolve(choices)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Fusionner
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { useTournamentStore } from '../store';
+import type { PdfExportOptions, PdfOrientation, PdfPageSize } from '../pdfExport';
+
+const DEFAULT_OPTIONS: PdfExportOptions = {
+  pageSize: 'a4',
+  orientation: 'landscape',
+  seriesColors: true,
+  sections: { grid: true, series: true, vertical: true },
+};
+
+const SECTION_LABELS: Array<[keyof PdfExportOptions['sections'], string]> = [
+  ['grid', 'Grille horaire (une page par jour)'],
+  ['series', 'Une page par série'],
+  ['vertical', 'Échéancier par créneau'],
+];
+
+export const PdfExportDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_OPTIONS);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasSection = Object.values(options.sections).some(Boolean);
+
+  const handleExport = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      // jsPDF is only loaded when a PDF is requested
+      const { exportSchedulePdf } = await import('../pdfExport');
+      const { settings, series, schedule } = useTournamentStore.getState();
+      exportSchedulePdf({ settings, series, schedule }, options);
+      onClose();
+    } catch {
+      setError('La génération du PDF a échoué.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">🖨️ Export PDF</h3>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <label className="text-sm text-gray-700">
+            Format
+            <select
+              value={options.pageSize}
+              onChange={(e) => setOptions({ ...options, pageSize: e.target.value as PdfPageSize })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="a4">A4</option>
+              <option value="a3">A3</option>
+              <option value="letter">Letter</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Orientation
+            <select
+              value={options.orientation}
+              onChange={(e) => setOptions({ ...options, orientation: e.target.value as PdfOrientation })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="landscape">Paysage</option>
+              <option value="portrait">Portrait</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-2 mb-4">
+          {SECTION_LABELS.map(([section, label]) => (
+            <label key={section} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.sections[section]}
+                onChange={(e) =>
+                  setOptions({ ...options, sections: { ...options.sections, [section]: e.target.checked } })
+                }
+              />
+              {label}
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-sm text-gray-700 pt-2 border-t border-gray-100">
+            <input
+              type="checkbox"
+              checked={options.seriesColors}
+              onChange={(e) => setOptions({ ...options, seriesColors: e.target.checked })}
+            />
+            Conserver les couleurs des séries
+          </label>
+        </div>
+
+        {error && (
+          <div className="mb-3 p-2 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">⚠️ {error}</div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+            Annuler
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!hasSection || isGenerating}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            {isGenerating ? 'Génération…' : 'Télécharger le PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
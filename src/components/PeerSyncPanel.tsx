@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTournamentStore } from '../store';
+import { MergeConflict } from '../merge';
+import { DEFAULT_PEER_URL, PeerConnection, connectPeer } from '../peerSync';
+import { MergeDialog } from './MergeDialog';
+
+type PeerStatus = 'disconnected' | 'connecting' | 'connected';
+
+const STATUS_LABELS: Record<PeerStatus, string> = {
+  disconnected: 'Déconnecté',
+  connecting: 'Connexion…',
+  connected: 'Connecté',
+};
+
+// Exchange of the tournament with the other organizers through the local relay
+export const PeerSyncPanel: React.FC = () => {
+  const { createTournamentFile, receiveTournamentFile, replaceWithTournamentFile, mergeTournamentFile } = useTournamentStore();
+
+  const [expanded, setExpanded] = useState(false);
+  const [url, setUrl] = useState(DEFAULT_PEER_URL);
+  const [name, setName] = useState('Organisateur');
+  const [status, setStatus] = useState<PeerStatus>('disconnected');
+  const [messages, setMessages] = useState<string[]>([]);
+  const [pendingMerge, setPendingMerge] = useState<{ from: string; file: unknown; conflicts: MergeConflict[] } | null>(null);
+  const connectionRef = useRef<PeerConnection | null>(null);
+
+  const log = (message: string) =>
+    setMessages((previous) => [`${new Date().toLocaleTimeString('fr-FR')} ${message}`, ...previous].slice(0, 20));
+
+  // The connection lasts as long as the schedule page is open
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  const handleFile = (from: string, file: unknown) => {
+    const result = receiveTournamentFile(file);
+    if (!result.success) {
+      log(`⚠️ Fichier de ${from} ignoré : ${result.error}`);
+    } else if (result.conflicts) {
+      log(`🔀 Fichier de ${from} : ${result.conflicts.length} conflit(s) à résoudre`);
+      setPendingMerge({ from, file, conflicts: result.conflicts });
+    } else if (result.unrelated) {
+      // The relay sends every file to everyone: a tournament without common state is never loaded unasked
+      if (
+        window.confirm(
+          `Le tournoi reçu de ${from} ne partage aucun état commun avec le vôtre. Remplacer votre tournoi par le sien ?`
+        )
+      ) {
+        const replaced = replaceWithTournamentFile(file);
+        log(replaced.success ? `📥 Tournoi de ${from} chargé, il remplace le vôtre` : `⚠️ ${replaced.error}`);
+      } else {
+        log(`⚠️ Fichier de ${from} ignoré : aucun état commun avec votre tournoi`);
+      }
+    } else {
+      log(`✓ Fichier de ${from} fusionné : ${result.remoteChangeCount} modification(s) reçue(s)`);
+    }
+  };
+
+  const handleConnect = () => {
+    setStatus('connecting');
+    connectionRef.current = connectPeer(url, name.trim() || 'Organisateur', {
+      onOpen: () => {
+        setStatus('connected');
+        log(`Connecté à ${url}`);
+      },
+      onClose: () => {
+        setStatus('disconnected');
+        connectionRef.current = null;
+        log('Déconnecté du relais');
+      },
+      onFile: handleFile,
+    });
+  };
+
+  const handleSend = () => {
+    connectionRef.current?.send(createTournamentFile());
+    log('📤 Échéancier envoyé');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 mb-4">
+      {pendingMerge && (
+        <MergeDialog
+          conflicts={pendingMerge.conflicts}
+          onResolve={(choices) => {
+            const result = mergeTournamentFile(pendingMerge.file, choices);
+            log(result.success ? `✓ Fichier de ${pendingMerge.from} fusionné` : `⚠️ ${result.error}`);
+            setPendingMerge(null);
+          }}
+          onClose={() => {
+            log(`Fusion du fichier de ${pendingMerge.from} abandonnée`);
+            setPendingMerge(null);
+          }}
+        />
+      )}
+
+      <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center gap-2 text-left">
+        <span className="text-xs">{expanded ? '▼' : '▶'}</span>
+        <h3 className="font-semibold text-gray-800">🤝 Partage entre organisateurs</h3>
+        <span
+          className={`text-xs px-2 py-0.5 rounded-full ${
+            status === 'connected' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {STATUS_LABELS[status]}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-gray-600">
+            Lancez le relais sur un ordinateur du réseau (<code>npm run peer-relay</code>) et connectez-vous à son
+            adresse. Chaque échéancier envoyé est fusionné chez les autres organisateurs, comme un import JSON.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={status !== 'disconnected'}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md w-40"
+              placeholder="Votre nom"
+            />
+            <input
+              type="text"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              disabled={status !== 'disconnected'}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md w-64 font-mono"
+            />
+            {status === 'disconnected' ? (
+              <button
+                onClick={handleConnect}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Se connecter
+              </button>
+            ) : (
+              <button
+                onClick={() => connectionRef.current?.close()}
+                className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
+              >
+                Se déconnecter
+              </button>
+            )}
+            <button
+              onClick={handleSend}
+              disabled={status !== 'connected'}
+              className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              📤 Envoyer mon échéancier
+            </button>
+          </div>
+          {messages.length > 0 && (
+            <ul className="text-xs text-gray-700 space-y-0.5 max-h-32 overflow-y-auto">
+              {messages.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
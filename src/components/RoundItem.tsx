@@ -89,7 +89,8 @@ export const DraggableRoundInGrid: React.FC<{
   series: Series;
   onRemove: () => void;
   onDoubleClick?: () => void;
-}> = ({ round, series, onRemove, onDoubleClick }) => {
+  onSplit?: () => void; // Detach the last match, only for rounds of several matches
+}> = ({ round, series, onRemove, onDoubleClick, onSplit }) => {
   const { attributes, listeners, setNodeRef, transform, isDragging } =
     useDraggable({
       id: round.id,
@@ -122,16 +123,90 @@ export const DraggableRoundInGrid: React.FC<{
         <span className="font-bold">{series.shortName}</span>
         <span className="opacity-90">{round.label}</span>
       </div>
+      <div className="flex flex-col items-center">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="p-0.5 hover:bg-white/20 rounded opacity-70 hover:opacity-100"
+          title="Retirer du planning"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          ✕
+        </button>
+        {onSplit && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onSplit();
+            }}
+            className="p-0.5 hover:bg-white/20 rounded opacity-70 hover:opacity-100"
+            title="Détacher le dernier match pour le placer ailleurs"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            ✂
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Matches of a split round placed apart, "M4" or "M3-4"
+export function formatMatchRange(firstMatch: number, lastMatch: number): string {
+  return firstMatch === lastMatch ? `M${firstMatch}` : `M${firstMatch}-${lastMatch}`;
+}
+
+// Draggable match group of a split round in grid
+export const DraggableMatchGroup: React.FC<{
+  round: Round;
+  series: Series;
+  group: number;
+  matchRange: string;
+  onRejoin: () => void;
+}> = ({ round, series, group, matchRange, onRejoin }) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: `${round.id}:group:${group}`,
+    data: {
+      type: 'match-group',
+      round,
+      series,
+      group,
+    },
+  });
+
+  const style: React.CSSProperties = {
+    transform: CSS.Translate.toString(transform),
+    backgroundColor: series.color,
+    color: getContrastColor(series.color),
+    opacity: isDragging ? 0.5 : 1,
+    zIndex: isDragging ? 1000 : 1,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...listeners}
+      {...attributes}
+      className="round-item px-2 py-1 rounded text-xs font-medium flex items-center justify-between gap-1 w-full h-full border-2 border-dashed border-white/70 cursor-grab active:cursor-grabbing"
+      title="Matchs séparés du reste du tour"
+    >
+      <div className="flex flex-col items-start leading-tight">
+        <span className="font-bold">{series.shortName}</span>
+        <span className="opacity-90">{round.label} · {matchRange}</span>
+      </div>
       <button
         onClick={(e) => {
           e.stopPropagation();
-          onRemove();
+          onRejoin();
         }}
         className="p-0.5 hover:bg-white/20 rounded opacity-70 hover:opacity-100"
-        title="Retirer du planning"
+        title="Rejoindre le reste du tour"
         onPointerDown={(e) => e.stopPropagation()}
       >
-        ✕
+        ⤺
       </button>
     </div>
   );
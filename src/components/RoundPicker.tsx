@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTournamentStore, useUnscheduledRounds } from '../store';
+import { getContrastColor } from '../types';
+
+interface RoundPickerProps {
+  cellLabel: string; // Where the picked round will be placed
+  onPick: (roundId: string) => void;
+  onClose: (returnFocus: boolean) => void; // Without a round, back to the grid or focus moved elsewhere
+}
+
+// Keyboard choice of a round of the unscheduled pool, in the order of the pool
+export const RoundPicker: React.FC<RoundPickerProps> = ({ cellLabel, onPick, onClose }) => {
+  const series = useTournamentStore((state) => state.series);
+  const unscheduledRounds = useUnscheduledRounds();
+  const seriesIndex = new Map(series.map((s, i) => [s.id, i]));
+  const rounds = [...unscheduledRounds].sort(
+    (a, b) => (seriesIndex.get(a.seriesId) ?? 0) - (seriesIndex.get(b.seriesId) ?? 0) || a.roundNumber - b.roundNumber
+  );
+  const [index, setIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => listRef.current?.focus(), []);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${index}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [index]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') setIndex(Math.min(index + 1, rounds.length - 1));
+    else if (e.key === 'ArrowUp') setIndex(Math.max(index - 1, 0));
+    else if (e.key === 'Home') setIndex(0);
+    else if (e.key === 'End') setIndex(rounds.length - 1);
+    else if (e.key === 'Enter' || e.key === ' ') {
+      if (rounds[index]) onPick(rounds[index].id);
+    } else if (e.key === 'Escape') onClose(true);
+    else return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <div className="absolute left-1/2 top-12 z-30 -translate-x-1/2 w-72 bg-white rounded-lg shadow-xl border border-gray-300 p-2">
+      <div id="round-picker-label" className="text-sm font-semibold text-gray-700 px-1 mb-1">
+        Tour à placer en {cellLabel}
+      </div>
+      <ul
+        ref={listRef}
+        role="listbox"
+        tabIndex={0}
+        aria-labelledby="round-picker-label"
+        aria-activedescendant={rounds[index] ? `round-picker-${rounds[index].id}` : undefined}
+        onKeyDown={handleKeyDown}
+        onBlur={() => onClose(false)}
+        className="max-h-64 overflow-y-auto space-y-1 outline-none"
+      >
+        {rounds.map((item, i) => (
+          <li
+            key={item.id}
+            id={`round-picker-${item.id}`}
+            data-index={i}
+            role="option"
+            aria-selected={i === index}
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onPick(item.id);
+            }}
+            className={`px-2 py-1 rounded text-sm cursor-pointer ${i === index ? 'ring-2 ring-blue-600' : ''}`}
+            style={{ backgroundColor: item.series.color, color: getContrastColor(item.series.color) }}
+          >
+            <span className="font-bold">{item.series.shortName}</span> {item.label} · {item.matchCount}m
+          </li>
+        ))}
+      </ul>
+      <div className="text-xs text-gray-500 px-1 mt-1">↑↓ pour choisir, Entrée pour placer, Échap pour annuler</div>
+    </div>
+  );
+};
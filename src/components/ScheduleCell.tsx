@@ -1,45 +1,81 @@
 import React from 'react';
 import { useDroppable } from '@dnd-kit/core';
 import { useTournamentStore } from '../store';
-import { DraggableRoundInGrid } from './RoundItem';
-import { getRoundCellPositions } from '../types';
+import { DraggableMatchGroup, DraggableRoundInGrid, RoundItemStatic, formatMatchRange } from './RoundItem';
+import { createCellAvailability, getBlockedWindow, getMainGroupMatchCount, getScheduledRoundPositions } from '../types';
+import { PlayerConflict, describeConflict } from '../playerConflicts';
+import { LiveRoundInfo, formatAbsoluteTime, formatDelay } from '../liveProjection';
 
 interface ScheduleCellProps {
   row: number;
   col: number;
+  conflictsByRound?: Map<string, PlayerConflict[]>;
+  liveRounds?: Map<string, LiveRoundInfo>;
+  readOnly?: boolean;
+  highlightedRoundIds?: string[]; // Rounds of the issue selected in the validation panel
+  isLocated?: boolean;
+  isCursor?: boolean; // Keyboard cursor of the grid
+  selectedRoundIds?: string[]; // Rounds selected for a block operation
+  swapRoundIds?: string[]; // First block of a swap, waiting for the second one
+  isInLasso?: boolean;
 }
 
-export const ScheduleCell: React.FC<ScheduleCellProps> = ({ row, col }) => {
+export const ScheduleCell: React.FC<ScheduleCellProps> = ({
+  row,
+  col,
+  conflictsByRound,
+  liveRounds,
+  readOnly = false,
+  highlightedRoundIds,
+  isLocated = false,
+  isCursor = false,
+  selectedRoundIds,
+  swapRoundIds,
+  isInLasso = false,
+}) => {
   const series = useTournamentStore((state) => state.series);
   const schedule = useTournamentStore((state) => state.schedule);
   const settings = useTournamentStore((state) => state.settings);
   const unscheduleRound = useTournamentStore((state) => state.unscheduleRound);
   const removeEmptyCell = useTournamentStore((state) => state.removeEmptyCell);
   const scheduleNextRoundOfSeries = useTournamentStore((state) => state.scheduleNextRoundOfSeries);
+  const splitRound = useTournamentStore((state) => state.splitRound);
+  const rejoinMatchGroup = useTournamentStore((state) => state.rejoinMatchGroup);
+  const isCellOpen = createCellAvailability(settings);
+  const isOpen = isCellOpen(row, col);
 
   // Find round scheduled in this cell (checking if this cell is within the round's positions)
-  let roundInfo: { round: any; series: any; isFirstCell: boolean } | null = null;
+  let roundInfo: {
+    round: any;
+    series: any;
+    isFirstCell: boolean;
+    group: number; // Match group of a split round, 0 for the first matches
+    isGroupStart: boolean;
+    matchRange: string;
+    canSplit: boolean;
+  } | null = null;
 
   for (const sr of schedule) {
     // Find the round to get matchCount
     for (const s of series) {
       const r = s.rounds.find((round) => round.id === sr.roundId);
       if (r) {
-        // Get all positions this round occupies
-        const positions = getRoundCellPositions(
-          sr.row,
-          sr.startCol,
-          r.matchCount,
-          settings.courtCount
-        );
+        // Get all positions this round occupies, match groups of a split round included
+        const positions = getScheduledRoundPositions(sr, r, s, settings, isCellOpen);
 
         // Check if current cell is in this round's positions
         const cellIndex = positions.findIndex(p => p.row === row && p.col === col);
         if (cellIndex !== -1) {
+          const group = positions[cellIndex].group;
+          const groupMatches = positions.filter((p) => p.group === group).map((p) => p.matchIndex + 1);
           roundInfo = {
             round: r,
             series: s,
-            isFirstCell: cellIndex === 0
+            isFirstCell: cellIndex === 0,
+            group,
+            isGroupStart: group > 0 && positions[cellIndex - 1].group !== group,
+            matchRange: formatMatchRange(Math.min(...groupMatches), Math.max(...groupMatches)),
+            canSplit: getMainGroupMatchCount(sr, r) > 1,
           };
           break;
         }
@@ -50,6 +86,7 @@ export const ScheduleCell: React.FC<ScheduleCellProps> = ({ row, col }) => {
 
   const { setNodeRef, isOver, active } = useDroppable({
     id: `cell-${row}-${col}`,
+    disabled: !isOpen || readOnly,
     data: {
       type: 'cell',
       row,
@@ -59,11 +96,16 @@ export const ScheduleCell: React.FC<ScheduleCellProps> = ({ row, col }) => {
     },
   });
 
+  const isEmpty = !roundInfo;
+
   // Check if we can drop here - now always allow drops, push will handle conflicts
   let canDrop = false;
   let dropReason = '';
 
-  if (active && active.data.current?.type === 'round') {
+  if (active && active.data.current?.type === 'match-group') {
+    canDrop = isEmpty || roundInfo?.round.id === active.data.current.round.id;
+    dropReason = canDrop ? 'Placer ces matchs ici' : 'Case occupée';
+  } else if (active && active.data.current?.type === 'round') {
     // Always allow drop, the scheduleRoundWithPush will handle pushing others
     canDrop = true;
     if (roundInfo?.isFirstCell) {
@@ -75,11 +117,44 @@ export const ScheduleCell: React.FC<ScheduleCellProps> = ({ row, col }) => {
     }
   }
 
-  const isEmpty = !roundInfo;
+  const conflicts = roundInfo ? conflictsByRound?.get(roundInfo.round.id) ?? [] : [];
+  const conflictTitle = conflicts.map(describeConflict).join('\n');
   const showDropIndicator = isOver && active;
+  const live = roundInfo ? liveRounds?.get(roundInfo.round.id) : undefined;
+  const isHighlighted = isLocated || (!!roundInfo && !!highlightedRoundIds?.includes(roundInfo.round.id));
+  const cursor = isCursor && (
+    <div className="absolute inset-0 z-20 border-2 border-dashed border-amber-500 pointer-events-none" />
+  );
+  const isSelected = !!roundInfo && !!selectedRoundIds?.includes(roundInfo.round.id);
+  const isSwapSource = !!roundInfo && !!swapRoundIds?.includes(roundInfo.round.id);
+  const selectionMark = (isSelected || isSwapSource || isInLasso) && (
+    <div
+      className={`absolute inset-0 z-10 pointer-events-none ${
+        isSwapSource ? 'bg-amber-400/40' : isSelected ? 'bg-blue-600/30 ring-2 ring-inset ring-blue-700' : 'bg-blue-300/30'
+      }`}
+    />
+  );
+
+  // Court not available on this row (closed court or blocked window)
+  if (!isOpen) {
+    const blockedWindow = getBlockedWindow(row, col, settings);
+    return (
+      <div
+        data-cell={`${row}-${col}`}
+        className="schedule-cell relative flex items-center justify-center bg-gray-200 bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(0,0,0,0.05)_6px,rgba(0,0,0,0.05)_12px)]"
+        title={blockedWindow ? `${blockedWindow.label} (${blockedWindow.startTime} - ${blockedWindow.endTime})` : 'Terrain indisponible'}
+      >
+        {blockedWindow && (
+          <span className="text-[10px] text-gray-500 truncate px-1">{blockedWindow.label}</span>
+        )}
+        {selectionMark}
+        {cursor}
+      </div>
+    );
+  }
 
   const handleRightClick = (e: React.MouseEvent) => {
-    if (isEmpty) {
+    if (isEmpty && !readOnly) {
       e.preventDefault();
       removeEmptyCell(row, col);
     }
@@ -88,6 +163,7 @@ export const ScheduleCell: React.FC<ScheduleCellProps> = ({ row, col }) => {
   return (
     <div
       ref={setNodeRef}
+      data-cell={`${row}-${col}`}
       onContextMenu={handleRightClick}
       className={`schedule-cell p-1 relative group ${showDropIndicator
         ? canDrop
@@ -96,28 +172,64 @@ export const ScheduleCell: React.FC<ScheduleCellProps> = ({ row, col }) => {
             : 'bg-green-100 border-green-400 border-2 border-dashed'
           : 'bg-red-100 border-red-400 border-2 border-dashed'
         : ''
-        } ${isEmpty ? 'bg-gray-50 hover:bg-gray-100 cursor-context-menu' : ''}`}
-      title={showDropIndicator && canDrop ? dropReason : isEmpty ? 'Clic droit pour supprimer cet espace' : ''}
+        } ${isEmpty ? `bg-gray-50 ${readOnly ? '' : 'hover:bg-gray-100 cursor-context-menu'}` : ''} ${conflicts.length > 0 ? 'ring-2 ring-inset ring-red-600' : ''} ${live?.status === 'finished' ? 'opacity-40' : ''} ${isHighlighted ? `outline outline-offset-[-2px] outline-blue-600 ${isLocated ? 'outline-4 animate-pulse' : 'outline-2'}` : ''}`}
+      title={showDropIndicator && canDrop ? dropReason : isEmpty ? (readOnly ? undefined : 'Clic droit pour supprimer cet espace') : conflictTitle}
     >
-      {isEmpty && (
+      {isEmpty && !readOnly && (
         <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
           <span className="text-xs text-gray-400">🗑️</span>
         </div>
       )}
-      {roundInfo && roundInfo.isFirstCell && (
+      {roundInfo && roundInfo.isFirstCell && readOnly && (
+        <RoundItemStatic round={roundInfo.round} series={roundInfo.series} />
+      )}
+      {roundInfo && roundInfo.isFirstCell && !readOnly && (
         <DraggableRoundInGrid
           round={roundInfo.round}
           series={roundInfo.series}
           onRemove={() => unscheduleRound(roundInfo!.round.id)}
           onDoubleClick={() => scheduleNextRoundOfSeries(roundInfo!.round.id)}
+          onSplit={roundInfo.canSplit ? () => splitRound(roundInfo!.round.id) : undefined}
+        />
+      )}
+      {roundInfo && roundInfo.isGroupStart && readOnly && (
+        <RoundItemStatic round={{ ...roundInfo.round, label: `${roundInfo.round.label} · ${roundInfo.matchRange}` }} series={roundInfo.series} />
+      )}
+      {roundInfo && roundInfo.isGroupStart && !readOnly && (
+        <DraggableMatchGroup
+          round={roundInfo.round}
+          series={roundInfo.series}
+          group={roundInfo.group}
+          matchRange={roundInfo.matchRange}
+          onRejoin={() => rejoinMatchGroup(roundInfo!.round.id, roundInfo!.group)}
         />
       )}
-      {roundInfo && !roundInfo.isFirstCell && (
+      {roundInfo && !roundInfo.isFirstCell && !roundInfo.isGroupStart && (
         <div className="h-full w-full" style={{
           backgroundColor: roundInfo.series.color,
           //opacity: 0.3
         }} />
       )}
+      {live && roundInfo?.isFirstCell && live.status !== 'finished' && (live.status === 'started' || live.delayMinutes !== 0) && (
+        <span
+          className={`absolute bottom-0 right-0 z-10 px-1 rounded-tl text-[10px] font-semibold pointer-events-none ${
+            live.status === 'started' ? 'bg-green-600 text-white' : 'bg-amber-400 text-amber-950'
+          }`}
+          title={`Prévu ${formatAbsoluteTime(live.plannedStart)} (${formatDelay(live.delayMinutes)})`}
+        >
+          {live.status === 'started' ? '▶' : '≈'} {formatAbsoluteTime(live.projectedStart)}
+        </span>
+      )}
+      {conflicts.length > 0 && roundInfo?.isFirstCell && (
+        <span
+          className="absolute -top-1 -right-1 z-10 px-1 rounded-full bg-red-600 text-white text-[10px] font-bold pointer-events-none"
+          aria-label={conflictTitle}
+        >
+          ⚠ {new Set(conflicts.map((c) => c.player.id)).size}
+        </span>
+      )}
+      {selectionMark}
+      {cursor}
     </div>
   );
 };
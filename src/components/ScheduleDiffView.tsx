@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { ScheduledRound, Series, TournamentSettings, formatDuration } from '../types';
+import { SeriesTableRound } from '../scheduleData';
+import { RoundDiff, RoundDiffStatus, compareSchedules, formatAbsoluteMinutes, formatMinutesChange } from '../scheduleDiff';
+
+interface ScheduleDiffViewProps {
+  series: Series[];
+  settings: TournamentSettings;
+  before: { name: string; schedule: ScheduledRound[] };
+  after: { name: string; schedule: ScheduledRound[] };
+}
+
+const STATUS_STYLES: Record<RoundDiffStatus, string> = {
+  unchanged: '',
+  moved: 'bg-amber-50',
+  added: 'bg-green-50',
+  removed: 'bg-red-50',
+  unscheduled: 'text-gray-400',
+};
+
+// Change in minutes, later or longer in red when `laterIsWorse`
+const ChangeBadge: React.FC<{ minutes: number | null; laterIsWorse: boolean }> = ({ minutes, laterIsWorse }) => {
+  if (minutes === null) return null;
+  const color =
+    minutes === 0 ? 'text-gray-500' : (minutes > 0) === laterIsWorse ? 'text-red-600' : 'text-green-700';
+  return <span className={`font-medium ${color}`}>{formatMinutesChange(minutes)}</span>;
+};
+
+const PlacementCell: React.FC<{ placement: SeriesTableRound | null }> = ({ placement }) =>
+  placement ? (
+    <span>
+      {placement.time} <span className="text-gray-500">· T{placement.col! + 1}</span>
+    </span>
+  ) : (
+    <span className="text-gray-400 italic">non placé</span>
+  );
+
+function describeShift(diff: RoundDiff): string {
+  switch (diff.status) {
+    case 'added':
+      return 'ajouté';
+    case 'removed':
+      return 'retiré';
+    case 'unscheduled':
+      return '';
+    default: {
+      const parts: string[] = [];
+      if (diff.slotShift) {
+        parts.push(`${diff.slotShift > 0 ? '+' : ''}${diff.slotShift} créneau${Math.abs(diff.slotShift) > 1 ? 'x' : ''}`);
+      }
+      if (diff.courtChanged) parts.push('terrain');
+      if (diff.groupsChanged) parts.push('matchs séparés');
+      return parts.join(', ') || '=';
+    }
+  }
+}
+
+function formatRest(placement: SeriesTableRound | null): string {
+  const gap = placement?.gapMinutes;
+  if (gap == null) return '—';
+  return gap < 0 ? `-${formatDuration(-gap)}` : formatDuration(gap);
+}
+
+// Side-by-side comparison of two schedules: moved rounds, end times and rest
+export const ScheduleDiffView: React.FC<ScheduleDiffViewProps> = ({ series, settings, before, after }) => {
+  const [onlyChanges, setOnlyChanges] = useState(true);
+  const diff = useMemo(
+    () => compareSchedules(series, before.schedule, after.schedule, settings),
+    [series, before.schedule, after.schedule, settings]
+  );
+
+  const formatEnd = (minutes: number | null) => (minutes === null ? '—' : formatAbsoluteMinutes(minutes, settings));
+  const endChange = (a: number | null, b: number | null) => (a !== null && b !== null ? b - a : null);
+
+  const isChanged = (r: RoundDiff) => r.status !== 'unchanged' && r.status !== 'unscheduled';
+  const visibleSeries = onlyChanges
+    ? diff.series.map((s) => ({ ...s, rounds: s.rounds.filter(isChanged) })).filter((s) => s.rounds.length > 0)
+    : diff.series;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-4 p-3 bg-gray-50 rounded-lg text-sm">
+        <div>
+          <span className="text-gray-600">Fin du tournoi : </span>
+          <span className="font-medium">{formatEnd(diff.endBefore)}</span>
+          {' → '}
+          <span className="font-medium">{formatEnd(diff.endAfter)}</span>{' '}
+          <ChangeBadge minutes={endChange(diff.endBefore, diff.endAfter)} laterIsWorse />
+        </div>
+        <div className="text-gray-600">
+          {diff.changedCount === 0 ? 'Aucun tour déplacé' : `${diff.changedCount} tour(s) modifié(s)`}
+        </div>
+        <label className="ml-auto flex items-center gap-2 text-gray-700">
+          <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} />
+          Différences uniquement
+        </label>
+      </div>
+
+      {visibleSeries.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">Les deux versions sont identiques.</div>
+      ) : (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left text-xs text-gray-600 border-b">
+              <th className="py-2 pr-2">Tour</th>
+              <th className="py-2 pr-2">{before.name}</th>
+              <th className="py-2 pr-2">{after.name}</th>
+              <th className="py-2 pr-2">Décalage</th>
+              <th className="py-2 pr-2">Repos avant</th>
+            </tr>
+          </thead>
+          {visibleSeries.map((s) => (
+            <tbody key={s.series.id}>
+              <tr>
+                <td colSpan={5} className="pt-3 pb-1">
+                  <span
+                    className="inline-block w-3 h-3 rounded-full mr-2 align-middle"
+                    style={{ backgroundColor: s.series.color }}
+                  />
+                  <span className="font-semibold">{s.series.shortName}</span>
+                  <span className="ml-3 text-xs text-gray-600">
+                    fin {formatEnd(s.endBefore)} → {formatEnd(s.endAfter)}{' '}
+                    <ChangeBadge minutes={endChange(s.endBefore, s.endAfter)} laterIsWorse />
+                  </span>
+                </td>
+              </tr>
+              {s.rounds.map((r) => (
+                <tr key={r.round.id} className={`border-b border-gray-100 ${STATUS_STYLES[r.status]}`}>
+                  <td className="py-1 pr-2">{r.round.label}</td>
+                  <td className="py-1 pr-2"><PlacementCell placement={r.before} /></td>
+                  <td className="py-1 pr-2"><PlacementCell placement={r.after} /></td>
+                  <td className="py-1 pr-2">{describeShift(r)}</td>
+                  <td className="py-1 pr-2">
+                    {formatRest(r.before)} → {formatRest(r.after)}{' '}
+                    <ChangeBadge minutes={r.restChange} laterIsWorse={false} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          ))}
+        </table>
+      )}
+    </div>
+  );
+};
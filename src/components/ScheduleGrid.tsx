@@ -1,29 +1,78 @@
-import React, { useMemo } from 'react';
-import { useTournamentStore } from '../store';
+import React, { Fragment, useEffect, useMemo, useRef, useState } from 'react';
+import { useTournamentStore, usePlayerConflicts, useLiveProjection, useUnscheduledRounds } from '../store';
 import { ScheduleCell } from './ScheduleCell';
-import { formatTime } from '../types';
+import { RoundPicker } from './RoundPicker';
+import {
+  ScheduledRound,
+  createCellAvailability,
+  formatRowLabel,
+  formatRowTime,
+  getBlockedWindow,
+  getDayRowRanges,
+  getScheduledRoundPositions,
+  getSlotCount,
+} from '../types';
 
-export const ScheduleGrid: React.FC = () => {
+const KEYBOARD_HELP =
+  'Flèches : déplacer le curseur. Entrée : choisir un tour à placer sur une case vide, ou prendre le tour de la case. ' +
+  'Avec un tour pris, les flèches le déplacent en poussant les suivants, Entrée le pose et Échap le remet à sa place. ' +
+  'Suppr : retirer le tour, ou supprimer la case vide. N : placer le tour suivant de la série.';
+
+interface CellContent {
+  roundId: string;
+  name: string; // "DH1 Demi-finales"
+  matchIndex: number;
+}
+
+interface ScheduleGridProps {
+  readOnly?: boolean; // Live phase: the planned schedule cannot be edited
+  located?: { row: number; col: number; roundIds: string[] } | null; // Scrolled to and highlighted
+  selection?: string[]; // Rounds selected for block operations
+  onSelectionChange?: (roundIds: string[]) => void; // Without it, rounds cannot be selected
+}
+
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
+  readOnly = false,
+  located = null,
+  selection = [],
+  onSelectionChange,
+}) => {
   const settings = useTournamentStore((state) => state.settings);
   const schedule = useTournamentStore((state) => state.schedule);
   const series = useTournamentStore((state) => state.series);
+  const conflictsByRound = usePlayerConflicts();
+  const liveProjection = useLiveProjection();
+  const unscheduledCount = useUnscheduledRounds().length;
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keyboard mode: a cell cursor, the round taken to be moved and what is read by screen readers
+  const [cursor, setCursor] = useState({ row: 0, col: 0 });
+  const [hasFocus, setHasFocus] = useState(false);
+  const [movingRoundId, setMovingRoundId] = useState<string | null>(null);
+  // Schedule and cursor when the round was taken, each step of the move starts again from them
+  const [moveStart, setMoveStart] = useState<{ origin: ScheduledRound[]; row: number; col: number } | null>(null);
+  const [picking, setPicking] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+
+  // Block operations on several rounds, selected with shift/ctrl + click or a lasso from an empty cell
+  const canSelect = !readOnly && !!onSelectionChange;
+  const [lasso, setLasso] = useState<{ from: CellPosition; to: CellPosition; additive: boolean } | null>(null);
+  const [swapSource, setSwapSource] = useState<string[] | null>(null);
+  const [shiftSlots, setShiftSlots] = useState(1);
+  const [actionError, setActionError] = useState<string | null>(null); // Of the last block or row operation
+  const [shiftFrom, setShiftFrom] = useState<{ row: number; slots: number } | null>(null);
 
   // Calculate total rounds to determine max rows needed
   const totalRounds = series.reduce((acc, s) => acc + s.rounds.length, 0);
 
-  // Calculate number of rows based on start and end time
-  const calculateMaxRows = (): number => {
-    const [startHour, startMin] = settings.startTime.split(':').map(Number);
-    const [endHour, endMin] = (settings.endTime || '18:00').split(':').map(Number);
-    const startMinutes = startHour * 60 + startMin;
-    const endMinutes = endHour * 60 + endMin;
-    const totalMinutes = endMinutes - startMinutes;
-    return Math.ceil(totalMinutes / settings.timeSlotDuration);
-  };
-
   // Determine the number of rows to display
-  const maxScheduledRow = Math.max(0, ...schedule.map((sr) => sr.row));
-  const calculatedMaxRows = calculateMaxRows();
+  const maxScheduledRow = Math.max(0, ...schedule.flatMap((sr) => [sr.row, ...(sr.groups ?? []).map((g) => g.row)]));
+  const calculatedMaxRows = getSlotCount(settings);
   const minRows = Math.max(
     5,
     Math.ceil(totalRounds / settings.courtCount),
@@ -39,8 +88,361 @@ export const ScheduleGrid: React.FC = () => {
     return Array.from({ length: settings.courtCount }, (_, i) => i);
   }, [settings.courtCount]);
 
+  // Day header shown above the first row of each day (multi-day events only)
+  const dayStartRows = useMemo(() => {
+    const ranges = getDayRowRanges(settings);
+    if (ranges.length < 2) return new Map<number, string>();
+    return new Map(ranges.map((range) => [range.firstRow, range.day.label]));
+  }, [settings]);
+
+  const isCellOpen = useMemo(() => createCellAvailability(settings), [settings]);
+
+  const cellContents = useMemo(() => {
+    const contents = new Map<string, CellContent>();
+    for (const sr of schedule) {
+      for (const s of series) {
+        const round = s.rounds.find((r) => r.id === sr.roundId);
+        if (!round) continue;
+        for (const p of getScheduledRoundPositions(sr, round, s, settings, isCellOpen)) {
+          contents.set(`${p.row}-${p.col}`, { roundId: round.id, name: `${s.shortName} ${round.label}`, matchIndex: p.matchIndex });
+        }
+      }
+    }
+    return contents;
+  }, [schedule, series, settings, isCellOpen]);
+
+  // Rounds sent back to the pool leave the selection
+  const selected = useMemo(() => {
+    const scheduledIds = new Set(schedule.map((sr) => sr.roundId));
+    return selection.filter((id) => scheduledIds.has(id));
+  }, [selection, schedule]);
+
+  const setSelection = (roundIds: string[]) => {
+    onSelectionChange?.(roundIds);
+    setActionError(null);
+  };
+
+  const runAction = (result: { success: boolean; error?: string }) => {
+    setActionError(result.success ? null : result.error ?? null);
+    return result.success;
+  };
+
+  const getCellFromEvent = (target: EventTarget | null): CellPosition | null => {
+    const element = target instanceof Element ? target.closest('[data-cell]') : null;
+    const [row, col] = element?.getAttribute('data-cell')?.split('-').map(Number) ?? [];
+    return row === undefined || col === undefined ? null : { row, col };
+  };
+
+  const isInLasso = (row: number, col: number): boolean =>
+    !!lasso &&
+    row >= Math.min(lasso.from.row, lasso.to.row) &&
+    row <= Math.max(lasso.from.row, lasso.to.row) &&
+    col >= Math.min(lasso.from.col, lasso.to.col) &&
+    col <= Math.max(lasso.from.col, lasso.to.col);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!canSelect || e.button !== 0) return;
+    const cell = getCellFromEvent(e.target);
+    if (!cell || cellContents.has(`${cell.row}-${cell.col}`)) return;
+    e.preventDefault(); // No text selection while drawing the lasso
+    setLasso({ from: cell, to: cell, additive: e.shiftKey || e.ctrlKey || e.metaKey });
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (!canSelect || !(e.shiftKey || e.ctrlKey || e.metaKey)) return;
+    const cell = getCellFromEvent(e.target);
+    const content = cell && cellContents.get(`${cell.row}-${cell.col}`);
+    if (!content) return;
+    setSelection(
+      selected.includes(content.roundId)
+        ? selected.filter((id) => id !== content.roundId)
+        : [...selected, content.roundId]
+    );
+  };
+
+  // The lasso follows the mouse over the whole page until the button is released,
+  // a click on an empty cell without it clears the selection
+  useEffect(() => {
+    if (!lasso) return;
+    const handleMove = (e: MouseEvent) => {
+      const cell = getCellFromEvent(document.elementFromPoint(e.clientX, e.clientY));
+      if (cell && (cell.row !== lasso.to.row || cell.col !== lasso.to.col)) setLasso({ ...lasso, to: cell });
+    };
+    const handleUp = () => {
+      const roundIds = new Set<string>(lasso.additive ? selected : []);
+      for (const [key, content] of cellContents) {
+        const [row, col] = key.split('-').map(Number);
+        if (isInLasso(row, col)) roundIds.add(content.roundId);
+      }
+      setSelection([...roundIds]);
+      setLasso(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  });
+
+  const handleSwap = () => {
+    if (!swapSource) return;
+    if (runAction(useTournamentStore.getState().swapScheduledBlocks(swapSource, selected))) {
+      setSwapSource(null);
+      setSelection([]);
+    }
+  };
+
+  const describeCell = (row: number, col: number): string => {
+    const place = `${formatRowLabel(row, settings)}, terrain ${col + 1}`;
+    if (!isCellOpen(row, col)) {
+      return `${place} : ${getBlockedWindow(row, col, settings)?.label ?? 'terrain indisponible'}`;
+    }
+    const content = cellContents.get(`${row}-${col}`);
+    return content ? `${place} : ${content.name}, match ${content.matchIndex + 1}` : `${place} : vide`;
+  };
+
+  const moveCursor = (row: number, col: number) => {
+    const next = { row: Math.max(0, Math.min(rowCount - 1, row)), col: Math.max(0, Math.min(settings.courtCount - 1, col)) };
+    setCursor(next);
+    setAnnouncement(describeCell(next.row, next.col));
+  };
+
+  // Move the taken round to the next open cell in a direction, the rounds in the way are pushed
+  const moveTakenRound = (roundId: string, dRow: number, dCol: number) => {
+    const { schedule: current, moveRoundFrom } = useTournamentStore.getState();
+    const scheduled = current.find((sr) => sr.roundId === roundId);
+    if (!scheduled || !moveStart) return;
+
+    let { row, startCol: col } = scheduled;
+    do {
+      col += dCol;
+      row += dRow;
+      // Rounds flow from court to court, then to the next row
+      if (col < 0) {
+        col = settings.courtCount - 1;
+        row--;
+      } else if (col >= settings.courtCount) {
+        col = 0;
+        row++;
+      }
+    } while (row >= 0 && row < rowCount && !isCellOpen(row, col));
+    if (row < 0 || row >= rowCount) {
+      setAnnouncement('Bord de la grille atteint');
+      return;
+    }
+
+    if (!moveRoundFrom(moveStart.origin, roundId, row, col)) {
+      setAnnouncement(`Impossible de placer le tour en ${formatRowLabel(row, settings)}, terrain ${col + 1} : la case coupe un autre tour`);
+      return;
+    }
+    setCursor({ row, col });
+    setAnnouncement(`Déplacé en ${formatRowLabel(row, settings)}, terrain ${col + 1}`);
+  };
+
+  const handlePick = (roundId: string) => {
+    const { schedule: before, moveRoundFrom } = useTournamentStore.getState();
+    setPicking(false);
+    scrollRef.current?.focus();
+    // Escape takes the picked round back to the pool
+    if (!moveRoundFrom(before, roundId, cursor.row, cursor.col)) {
+      setAnnouncement('Impossible de placer le tour ici : la case coupe un autre tour');
+      return;
+    }
+    setMovingRoundId(roundId);
+    setMoveStart({ origin: before, row: cursor.row, col: cursor.col });
+    setAnnouncement(`${describeCell(cursor.row, cursor.col)}. Tour pris : flèches pour le déplacer, Entrée pour le poser`);
+  };
+
+  const describeNextRound = (roundId: string): string => {
+    for (const s of useTournamentStore.getState().series) {
+      const round = s.rounds.find((r) => r.id === roundId);
+      if (round) return `${s.shortName} ${round.label}`;
+    }
+    return '';
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const { row, col } = cursor;
+    const content = cellContents.get(`${row}-${col}`);
+    const directions: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1],
+    };
+    const state = useTournamentStore.getState();
+
+    if (directions[e.key]) {
+      const [dRow, dCol] = directions[e.key];
+      if (movingRoundId) moveTakenRound(movingRoundId, dRow, dCol);
+      else moveCursor(row + dRow, col + dCol);
+    } else if (e.key === 'Home' && !movingRoundId) {
+      moveCursor(row, 0);
+    } else if (e.key === 'End' && !movingRoundId) {
+      moveCursor(row, settings.courtCount - 1);
+    } else if (readOnly) {
+      return;
+    } else if (movingRoundId && (e.key === 'Enter' || e.key === ' ')) {
+      setMovingRoundId(null);
+      setMoveStart(null);
+      setAnnouncement(`Tour posé. ${describeCell(row, col)}`);
+    } else if (movingRoundId && e.key === 'Escape') {
+      if (moveStart) {
+        state.cancelRoundMove(moveStart.origin);
+        setCursor({ row: moveStart.row, col: moveStart.col });
+      }
+      setMovingRoundId(null);
+      setMoveStart(null);
+      setAnnouncement('Déplacement annulé, le tour est revenu à sa place');
+    } else if (e.key === 'Escape' && (selected.length > 0 || swapSource)) {
+      setSwapSource(null);
+      setSelection([]);
+      setAnnouncement('Sélection annulée');
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      if (content) {
+        const start = state.schedule.find((sr) => sr.roundId === content.roundId);
+        if (start) setCursor({ row: start.row, col: start.startCol });
+        setMovingRoundId(content.roundId);
+        setMoveStart({ origin: state.schedule, row: start?.row ?? row, col: start?.startCol ?? col });
+        setAnnouncement(`${content.name} pris : flèches pour le déplacer, Entrée pour le poser`);
+      } else if (!isCellOpen(row, col)) {
+        setAnnouncement('Terrain indisponible sur ce créneau');
+      } else if (unscheduledCount === 0) {
+        setAnnouncement('Tous les tours sont placés');
+      } else {
+        setPicking(true);
+      }
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      if (content) {
+        state.unscheduleRound(content.roundId);
+        setAnnouncement(`${content.name} retiré de l'échéancier`);
+      } else if (isCellOpen(row, col)) {
+        state.removeEmptyCell(row, col);
+        setAnnouncement('Case supprimée, les tours suivants avancent');
+      }
+    } else if (e.key === 'n' || e.key === 'N') {
+      if (!content) return;
+      state.scheduleNextRoundOfSeries(content.roundId);
+      const placed = useTournamentStore.getState().schedule.find((sr) => !state.schedule.some((s) => s.roundId === sr.roundId));
+      setAnnouncement(
+        placed
+          ? `Tour suivant placé : ${describeNextRound(placed.roundId)} en ${formatRowLabel(placed.row, settings)}, terrain ${placed.startCol + 1}`
+          : 'Pas de tour suivant à placer pour cette série'
+      );
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  // The cursor follows the round taken and stays visible while scrolling
+  useEffect(() => {
+    if (!hasFocus) return;
+    scrollRef.current?.querySelector(`[data-row="${cursor.row}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [cursor, hasFocus]);
+
+  useEffect(() => {
+    if (!located) return;
+    const rowElement = scrollRef.current?.querySelector(`[data-row="${located.row}"]`);
+    rowElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [located]);
+
+  const showCursor = hasFocus || picking;
+
   return (
-    <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+    <div className="bg-white rounded-lg shadow-lg overflow-hidden relative">
+      {/* Block operations on the selected rounds */}
+      {canSelect && (selected.length > 0 || swapSource) && (
+        <div className="px-3 py-2 bg-blue-50 border-b border-blue-200 flex flex-wrap items-center gap-2 text-sm">
+          {swapSource ? (
+            <>
+              <span className="font-medium text-gray-700">
+                🔁 Sélectionnez le bloc à échanger avec les {swapSource.length} tour(s) en orange
+              </span>
+              <button
+                onClick={handleSwap}
+                disabled={selected.length === 0}
+                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+              >
+                Échanger
+              </button>
+              <button
+                onClick={() => {
+                  setSwapSource(null);
+                  setActionError(null);
+                }}
+                className="px-3 py-1 bg-gray-200 hover:bg-gray-300 rounded transition-colors"
+              >
+                Annuler
+              </button>
+            </>
+          ) : (
+            <>
+              <span className="font-medium text-gray-700">☑ {selected.length} tour(s) sélectionné(s)</span>
+              <label className="flex items-center gap-1 text-gray-600">
+                Décaler de
+                <input
+                  type="number"
+                  min={1}
+                  value={shiftSlots}
+                  onChange={(e) => setShiftSlots(Math.max(1, Number(e.target.value) || 1))}
+                  className="w-14 px-1 py-0.5 border border-gray-300 rounded"
+                />
+                créneau(x)
+              </label>
+              <button
+                onClick={() => runAction(useTournamentStore.getState().shiftScheduledRounds(selected, -shiftSlots))}
+                className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+              >
+                ⬆ Plus tôt
+              </button>
+              <button
+                onClick={() => runAction(useTournamentStore.getState().shiftScheduledRounds(selected, shiftSlots))}
+                className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+              >
+                ⬇ Plus tard
+              </button>
+              <button
+                onClick={() => {
+                  setSwapSource(selected);
+                  setSelection([]);
+                }}
+                className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+                title="Chaque bloc prend la place de l'autre, à partir de sa première case"
+              >
+                🔁 Échanger avec…
+              </button>
+              <button
+                onClick={() => {
+                  useTournamentStore.getState().unscheduleRounds(selected);
+                  setSelection([]);
+                }}
+                className="px-2 py-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+              >
+                Retirer
+              </button>
+              <button
+                onClick={() => setSelection([])}
+                className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+              >
+                ✕ Désélectionner
+              </button>
+              <span className="text-xs text-gray-500">Glissez un des tours pour déplacer tout le bloc</span>
+            </>
+          )}
+        </div>
+      )}
+      {actionError && (
+        <div className="px-3 py-2 bg-red-50 border-b border-red-200 text-sm text-red-700 flex items-center gap-2">
+          <span className="flex-1">⚠️ {actionError}</span>
+          <button onClick={() => setActionError(null)} className="text-red-500 hover:text-red-700" title="Masquer">
+            ✕
+          </button>
+        </div>
+      )}
+
       {/* Header */}
       <div
         className="grid bg-gray-800 text-white font-semibold"
@@ -57,26 +459,149 @@ export const ScheduleGrid: React.FC = () => {
       </div>
 
       {/* Grid */}
-      <div className="overflow-auto max-h-[70vh]">
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        role="application"
+        aria-label="Grille de l'échéancier"
+        aria-describedby="schedule-grid-help"
+        onKeyDown={handleKeyDown}
+        onMouseDown={handleMouseDown}
+        onClick={handleClick}
+        onFocus={() => {
+          setHasFocus(true);
+          setAnnouncement(describeCell(cursor.row, cursor.col));
+        }}
+        onBlur={() => {
+          setHasFocus(false);
+          setMovingRoundId(null);
+          setMoveStart(null);
+        }}
+        className="overflow-auto max-h-[70vh] outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-amber-400"
+      >
         {rows.map((row) => (
-          <div
-            key={row}
-            className="grid border-b border-gray-200"
-            style={{
-              gridTemplateColumns: `80px repeat(${settings.courtCount}, minmax(100px, 1fr))`,
-            }}
-          >
-            {/* Time column */}
-            <div className="p-2 text-center bg-gray-100 font-medium text-sm border-r border-gray-200 flex items-center justify-center">
-              {formatTime(row, settings.startTime, settings.timeSlotDuration)}
+          <Fragment key={row}>
+            {dayStartRows.has(row) && (
+              <div className="px-3 py-1 bg-slate-700 text-white text-sm font-semibold sticky left-0">
+                📆 {dayStartRows.get(row)}
+              </div>
+            )}
+            <div
+              data-row={row}
+              className="grid border-b border-gray-200"
+              style={{
+                gridTemplateColumns: `80px repeat(${settings.courtCount}, minmax(100px, 1fr))`,
+              }}
+            >
+              {/* Time column */}
+              <div className="p-2 text-center bg-gray-100 font-medium text-sm border-r border-gray-200 flex items-center justify-center relative group/time">
+                {formatRowTime(row, settings)}
+                {canSelect && (
+                  <div className="absolute inset-0 hidden group-hover/time:flex items-center justify-center gap-0.5 bg-gray-100/95 text-xs">
+                    <button
+                      onClick={() => runAction(useTournamentStore.getState().insertScheduleRow(row))}
+                      className="px-1 rounded hover:bg-gray-300"
+                      title={`Insérer un créneau vide à ${formatRowTime(row, settings)}, la suite de la journée est décalée`}
+                    >
+                      ➕
+                    </button>
+                    <button
+                      onClick={() => runAction(useTournamentStore.getState().deleteScheduleRow(row))}
+                      className="px-1 rounded hover:bg-gray-300"
+                      title="Supprimer ce créneau s'il est vide, la suite de la journée avance"
+                    >
+                      ➖
+                    </button>
+                    <button
+                      onClick={() => setShiftFrom({ row, slots: 1 })}
+                      className="px-1 rounded hover:bg-gray-300"
+                      title={`Décaler la journée à partir de ${formatRowTime(row, settings)}`}
+                    >
+                      ⏩
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Court cells */}
+              {cols.map((col) => (
+                <ScheduleCell
+                  key={`${row}-${col}`}
+                  row={row}
+                  col={col}
+                  conflictsByRound={conflictsByRound}
+                  liveRounds={liveProjection?.rounds}
+                  readOnly={readOnly}
+                  highlightedRoundIds={movingRoundId ? [movingRoundId] : located?.roundIds}
+                  isLocated={located?.row === row && located.col === col}
+                  isCursor={showCursor && cursor.row === row && cursor.col === col}
+                  selectedRoundIds={selected}
+                  swapRoundIds={swapSource ?? undefined}
+                  isInLasso={isInLasso(row, col)}
+                />
+              ))}
             </div>
+          </Fragment>
+        ))}
+      </div>
+
+      {picking && (
+        <RoundPicker
+          cellLabel={`${formatRowLabel(cursor.row, settings)}, terrain ${cursor.col + 1}`}
+          onPick={handlePick}
+          onClose={(returnFocus) => {
+            setPicking(false);
+            if (returnFocus) scrollRef.current?.focus();
+          }}
+        />
+      )}
 
-            {/* Court cells */}
-            {cols.map((col) => (
-              <ScheduleCell key={`${row}-${col}`} row={row} col={col} />
-            ))}
+      {shiftFrom && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={() => setShiftFrom(null)}>
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-sm" onClick={(e) => e.stopPropagation()}>
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">⏩ Décaler la journée</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Les tours placés à partir de {formatRowLabel(shiftFrom.row, settings)} sont décalés jusqu'à la fin de la
+              journée, les jours suivants ne changent pas. Un nombre négatif avance les tours dans des créneaux libres.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Décaler de
+              <input
+                type="number"
+                value={shiftFrom.slots}
+                onChange={(e) => setShiftFrom({ ...shiftFrom, slots: Math.trunc(Number(e.target.value)) || 0 })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                autoFocus
+              />
+              créneau(x) ({shiftFrom.slots * settings.timeSlotDuration} min)
+            </label>
+            <div className="mt-6 flex justify-end gap-2">
+              <button
+                onClick={() => setShiftFrom(null)}
+                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
+              >
+                Annuler
+              </button>
+              <button
+                onClick={() => {
+                  runAction(useTournamentStore.getState().shiftScheduleFrom(shiftFrom.row, shiftFrom.slots));
+                  setShiftFrom(null);
+                }}
+                disabled={shiftFrom.slots === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+              >
+                Décaler
+              </button>
+            </div>
           </div>
-        ))}
+        </div>
+      )}
+
+      <p id="schedule-grid-help" className="sr-only">
+        {KEYBOARD_HELP}
+      </p>
+      <div className="sr-only" aria-live="polite">
+        {announcement}
       </div>
     </div>
   );
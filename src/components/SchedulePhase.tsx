@@ -1,4 +1,4 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   DndContext,
   DragEndEvent,
@@ -16,7 +16,15 @@ import { UnscheduledPool } from './UnscheduledPool';
 import { RoundItemStatic } from './RoundItem';
 import { SeriesTableView } from './SeriesTableView';
 import { VerticalScheduleView } from './VerticalScheduleView';
-import { Round, Series } from '../types';
+import { PdfExportDialog } from './PdfExportDialog';
+import { MatchExportDialog } from './MatchExportDialog';
+import { ScheduleSnapshotsDialog } from './ScheduleSnapshotsDialog';
+import { ValidationPanel } from './ValidationPanel';
+import { MergeDialog } from './MergeDialog';
+import { PeerSyncPanel } from './PeerSyncPanel';
+import { MergeConflict } from '../merge';
+import { ScheduleIssue } from '../scheduleValidation';
+import { Round, Series, getTournamentDays, isRowAllowedForSeries } from '../types';
 
 type ViewMode = 'grid' | 'table' | 'vertical';
 
@@ -25,11 +33,20 @@ export const SchedulePhase: React.FC = () => {
     setPhase,
     scheduleRoundWithPush,
     unscheduleRound,
+    unscheduleRounds,
+    moveScheduledBlock,
+    moveMatchGroup,
+    rejoinMatchGroup,
     clearSchedule,
-    undoSchedule,
+    undo,
+    undoStack,
+    autoSchedule,
     series,
     schedule,
-    importTournamentData,
+    createTournamentFile,
+    receiveTournamentFile,
+    replaceWithTournamentFile,
+    mergeTournamentFile,
   } = useTournamentStore();
 
   const importInputRef = useRef<HTMLInputElement>(null);
@@ -41,6 +58,21 @@ export const SchedulePhase: React.FC = () => {
 
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [showMatchExport, setShowMatchExport] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [locatedIssue, setLocatedIssue] = useState<ScheduleIssue | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{ file: unknown; conflicts: MergeConflict[] } | null>(null);
+  // Rounds selected in the grid, dragging one of them moves them all
+  const [selection, setSelection] = useState<string[]>([]);
+
+  // The located issue refers to the schedule it was found in
+  useEffect(() => setLocatedIssue(null), [schedule]);
+
+  const located = useMemo(
+    () => (locatedIssue?.location ? { ...locatedIssue.location, roundIds: locatedIssue.roundIds } : null),
+    [locatedIssue]
+  );
 
   const sensors = useSensors(
     useSensor(MouseSensor, {
@@ -58,7 +90,7 @@ export const SchedulePhase: React.FC = () => {
 
   const handleDragStart = (event: DragStartEvent) => {
     const { active } = event;
-    if (active.data.current?.type === 'round') {
+    if (active.data.current?.type === 'round' || active.data.current?.type === 'match-group') {
       setActiveItem({
         round: active.data.current.round,
         series: active.data.current.series,
@@ -76,19 +108,53 @@ export const SchedulePhase: React.FC = () => {
     const activeData = active.data.current;
     const overData = over.data.current;
 
-    if (!activeData || activeData.type !== 'round') return;
+    if (!activeData) return;
+
+    // Matches of a split round: back to the round from the pool, or into free cells
+    if (activeData.type === 'match-group') {
+      if (overData?.type === 'pool') {
+        rejoinMatchGroup(activeData.round.id, activeData.group);
+      } else if (overData?.type === 'cell') {
+        const result = moveMatchGroup(activeData.round.id, activeData.group, overData.row, overData.col);
+        setError(result.success ? null : result.error ?? null);
+      }
+      return;
+    }
+
+    if (activeData.type !== 'round') return;
 
     const roundId = activeData.round.id;
+    const block = selection.length > 1 && selection.includes(roundId) ? selection : null;
 
     // Dropping back to pool
     if (overData?.type === 'pool') {
-      unscheduleRound(roundId);
+      if (block) {
+        unscheduleRounds(block);
+        setSelection([]);
+      } else {
+        unscheduleRound(roundId);
+      }
+      return;
+    }
+
+    // The selected rounds keep their layout around the dragged one
+    if (block && overData?.type === 'cell') {
+      const result = moveScheduledBlock(block, roundId, overData.row, overData.col);
+      setError(result.success ? null : result.error ?? null);
       return;
     }
 
     // Dropping on a cell
     if (overData?.type === 'cell') {
       const { row, col } = overData;
+      const roundSeries: Series = activeData.series;
+      const settings = useTournamentStore.getState().settings;
+
+      if (!isRowAllowedForSeries(row, roundSeries, settings)) {
+        const day = getTournamentDays(settings).find((d) => d.id === roundSeries.dayId);
+        setError(`La série ${roundSeries.shortName} est réservée au jour "${day?.label ?? ''}".`);
+        return;
+      }
 
       // Use the new function that automatically pushes conflicting rounds
       scheduleRoundWithPush(roundId, row, col);
@@ -96,12 +162,30 @@ export const SchedulePhase: React.FC = () => {
     }
   };
 
+  const handleAutoSchedule = () => {
+    if (
+      schedule.length > 0 &&
+      !window.confirm('Remplacer le placement actuel par un placement automatique ?')
+    ) {
+      return;
+    }
+
+    const result = autoSchedule();
+
+    if (!result.success) {
+      const endTime = useTournamentStore.getState().settings.endTime;
+      setError(
+        `Placement incomplet : ${result.unplacedRoundIds.length} tour(s) ne tiennent pas avant ${endTime}. Ils restent dans la liste des tours à placer.`
+      );
+      return;
+    }
+
+    setError(null);
+  };
+
   const handleExportJSON = () => {
-    const data = {
-      settings: useTournamentStore.getState().settings,
-      series: useTournamentStore.getState().series,
-      schedule: useTournamentStore.getState().schedule,
-    };
+    // The file keeps track of this state, so that it can be merged back later
+    const data = createTournamentFile();
     const blob = new Blob([JSON.stringify(data, null, 2)], {
       type: 'application/json',
     });
@@ -124,12 +208,22 @@ export const SchedulePhase: React.FC = () => {
     try {
       const content = await file.text();
       const parsed = JSON.parse(content);
-      const result = importTournamentData(parsed);
+      const result = receiveTournamentFile(parsed);
 
       if (!result.success) {
         setError(result.error ?? 'Import impossible. Fichier invalide.');
         return;
       }
+      if (result.conflicts) {
+        setPendingMerge({ file: parsed, conflicts: result.conflicts });
+      }
+      if (result.unrelated && window.confirm('Ce fichier ne partage aucun état commun avec le tournoi. Remplacer le tournoi actuel par son contenu ?')) {
+        const replaced = replaceWithTournamentFile(parsed);
+        if (!replaced.success) {
+          setError(replaced.error ?? 'Import impossible. Fichier invalide.');
+          return;
+        }
+      }
 
       setError(null);
     } catch {
@@ -176,31 +270,61 @@ export const SchedulePhase: React.FC = () => {
               </div>
 
               <button
-                onClick={() => undoSchedule()}
-                disabled={useTournamentStore.getState().scheduleHistory.length === 0}
+                onClick={() => undo()}
+                disabled={undoStack.length === 0}
                 className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
-                title="Annuler la dernière action"
+                title={undoStack.length > 0 ? `Annuler : ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : 'Rien à annuler'}
               >
                 ↶ Annuler
               </button>
-              {/* <button
+              <button
                 onClick={handleAutoSchedule}
-                className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
+                disabled={totalRounds === 0}
+                className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
               >
                 🪄 Auto-générer
-              </button> */}
+              </button>
+              <button
+                onClick={() => setShowSnapshots(true)}
+                className="px-4 py-2 bg-indigo-100 text-indigo-700 rounded-md hover:bg-indigo-200 transition-colors"
+                title="Enregistrer, charger et comparer des versions de l'échéancier"
+              >
+                🗂️ Versions
+              </button>
               <button
                 onClick={clearSchedule}
                 className="px-4 py-2 bg-red-100 text-red-700 rounded-md hover:bg-red-200 transition-colors"
               >
                 🗑️ Vider
               </button>
+              <button
+                onClick={() => setPhase('live')}
+                disabled={scheduledCount === 0}
+                className="px-4 py-2 bg-rose-600 text-white rounded-md hover:bg-rose-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                title="Suivre le déroulement du tournoi en direct"
+              >
+                🔴 Jour J
+              </button>
               <button
                 onClick={handleExportJSON}
                 className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
               >
                 💾 Exporter JSON
               </button>
+              <button
+                onClick={() => setShowPdfExport(true)}
+                disabled={scheduledCount === 0}
+                className="px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                🖨️ Exporter PDF
+              </button>
+              <button
+                onClick={() => setShowMatchExport(true)}
+                disabled={scheduledCount === 0}
+                className="px-4 py-2 bg-emerald-700 text-white rounded-md hover:bg-emerald-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                📄 Exporter CSV / Excel
+              </button>
               <button
                 onClick={handleOpenImportDialog}
                 className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
@@ -259,17 +383,20 @@ export const SchedulePhase: React.FC = () => {
           )}
         </div>
 
+        <PeerSyncPanel />
+
         {/* Main content */}
         {viewMode === 'grid' ? (
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
             {/* Unscheduled pool */}
             <div className="lg:col-span-1">
               <UnscheduledPool />
+              <ValidationPanel selected={locatedIssue} onLocate={setLocatedIssue} />
             </div>
 
             {/* Schedule grid */}
             <div className="lg:col-span-3">
-              <ScheduleGrid />
+              <ScheduleGrid located={located} selection={selection} onSelectionChange={setSelection} />
             </div>
           </div>
         ) : viewMode === 'table' ? (
@@ -288,6 +415,20 @@ export const SchedulePhase: React.FC = () => {
                 Un même série ne peut pas avoir plusieurs tours sur la même ligne
               </li>
               <li>Les tours doivent respecter l'ordre (Tour 1 avant Tour 2, etc.)</li>
+              <li>✂ détache le dernier match d'un tour pour le placer ailleurs, ⤺ le rattache au tour</li>
+              <li>
+                Maj/Ctrl + clic ou un cadre tracé depuis une case vide sélectionne plusieurs tours : glissez-en un pour
+                déplacer le bloc, ou décalez-le, échangez-le ou retirez-le depuis la barre au-dessus de la grille
+              </li>
+              <li>
+                Au clavier : sélectionnez la grille (Tab), les flèches déplacent le curseur, Entrée choisit un tour à
+                placer ou prend le tour de la case pour le déplacer aux flèches, Suppr retire le tour ou supprime la
+                case vide, N place le tour suivant de la série
+              </li>
+              <li>
+                Au survol d'une heure : ➕ insère un créneau vide, ➖ supprime le créneau s'il est vide, ⏩ décale la
+                suite de la journée (retard, salle ouverte plus tard)
+              </li>
               <li>Cliquez sur "Auto-générer" pour un placement automatique optimisé</li>
               <li>Les données sont sauvegardées automatiquement dans le navigateur</li>
             </ul>
@@ -295,11 +436,31 @@ export const SchedulePhase: React.FC = () => {
         )}
       </div>
 
+      {showPdfExport && <PdfExportDialog onClose={() => setShowPdfExport(false)} />}
+      {showMatchExport && <MatchExportDialog onClose={() => setShowMatchExport(false)} />}
+      {showSnapshots && <ScheduleSnapshotsDialog onClose={() => setShowSnapshots(false)} />}
+      {pendingMerge && (
+        <MergeDialog
+          conflicts={pendingMerge.conflicts}
+          onResolve={(choices) => {
+            const result = mergeTournamentFile(pendingMerge.file, choices);
+            setError(result.success ? null : result.error ?? 'Fusion impossible.');
+            setPendingMerge(null);
+          }}
+          onClose={() => setPendingMerge(null)}
+        />
+      )}
+
       {/* Drag overlay */}
       <DragOverlay>
         {activeItem && (
-          <div className="opacity-80 transform scale-105">
+          <div className="opacity-80 transform scale-105 relative">
             <RoundItemStatic round={activeItem.round} series={activeItem.series} />
+            {selection.length > 1 && selection.includes(activeItem.round.id) && (
+              <span className="absolute -top-2 -right-2 px-1.5 rounded-full bg-blue-700 text-white text-xs font-bold">
+                +{selection.length - 1}
+              </span>
+            )}
           </div>
         )}
       </DragOverlay>
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { useTournamentStore } from '../store';
+import { ScheduledRound } from '../types';
+import { ScheduleDiffView } from './ScheduleDiffView';
+
+const CURRENT = 'current';
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// Named versions of the schedule: save, load, rename, delete and compare
+export const ScheduleSnapshotsDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const {
+    series,
+    settings,
+    schedule,
+    snapshots,
+    saveSnapshot,
+    restoreSnapshot,
+    renameSnapshot,
+    deleteSnapshot,
+  } = useTournamentStore();
+
+  const [newName, setNewName] = useState('');
+  const [compare, setCompare] = useState<{ before: string; after: string } | null>(null);
+
+  const getVersion = (id: string): { name: string; schedule: ScheduledRound[] } => {
+    const snapshot = snapshots.find((s) => s.id === id);
+    return snapshot ?? { name: 'Échéancier actuel', schedule };
+  };
+
+  const handleSave = () => {
+    const name = newName.trim() || `Version ${snapshots.length + 1}`;
+    saveSnapshot(name);
+    setNewName('');
+  };
+
+  const handleRestore = (id: string, name: string) => {
+    // The current schedule stays reachable with undo
+    if (window.confirm(`Remplacer l'échéancier actuel par la version "${name}" ?`)) {
+      restoreSnapshot(id);
+    }
+  };
+
+  const versionSelect = (value: string, onChange: (value: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <option value={CURRENT}>Échéancier actuel</option>
+      {snapshots.map((s) => (
+        <option key={s.id} value={s.id}>{s.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">
+            {compare ? '🔍 Comparaison de versions' : '🗂️ Versions de l\'échéancier'}
+          </h3>
+          {compare && (
+            <button
+              onClick={() => setCompare(null)}
+              className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+            >
+              ← Versions
+            </button>
+          )}
+        </div>
+
+        {compare ? (
+          <>
+            <div className="flex items-center gap-2 mb-4 text-sm">
+              {versionSelect(compare.before, (before) => setCompare({ ...compare, before }))}
+              <span className="text-gray-500">→</span>
+              {versionSelect(compare.after, (after) => setCompare({ ...compare, after }))}
+            </div>
+            <div className="overflow-y-auto pr-1">
+              <ScheduleDiffView
+                series={series}
+                settings={settings}
+                before={getVersion(compare.before)}
+                after={getVersion(compare.after)}
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex gap-2 mb-4">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="Ex : avant changement salle"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                💾 Enregistrer l'échéancier actuel
+              </button>
+            </div>
+
+            {snapshots.length === 0 ? (
+              <div className="p-6 text-center text-gray-500 bg-gray-50 rounded-lg">
+                Aucune version enregistrée. Enregistrez l'échéancier avant d'essayer une autre organisation.
+              </div>
+            ) : (
+              <div className="overflow-y-auto space-y-2 pr-1">
+                {snapshots.map((snapshot) => (
+                  <div key={snapshot.id} className="flex flex-wrap items-center gap-3 p-3 border border-gray-200 rounded-lg">
+                    <input
+                      type="text"
+                      value={snapshot.name}
+                      onChange={(e) => renameSnapshot(snapshot.id, e.target.value)}
+                      className="flex-1 min-w-[12rem] px-2 py-1 font-medium border border-transparent hover:border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      title="Renommer"
+                    />
+                    <span className="text-xs text-gray-500">
+                      {formatDate(snapshot.createdAt)} · {snapshot.schedule.length} tour(s) placé(s)
+                    </span>
+                    <button
+                      onClick={() => setCompare({ before: snapshot.id, after: CURRENT })}
+                      className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+                    >
+                      🔍 Comparer
+                    </button>
+                    <button
+                      onClick={() => handleRestore(snapshot.id, snapshot.name)}
+                      className="px-3 py-1 text-sm bg-blue-100 text-blue-700 hover:bg-blue-200 rounded transition-colors"
+                    >
+                      Charger
+                    </button>
+                    <button
+                      onClick={() => deleteSnapshot(snapshot.id)}
+                      className="px-2 text-gray-400 hover:text-red-600"
+                      title="Supprimer"
+                    >
+                      🗑
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="mt-4 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,33 +1,29 @@
 import React from 'react';
 import { useTournamentStore } from '../store';
-import { formatTime } from '../types';
+import { RestRules, formatDuration, getRestRules } from '../types';
+import {
+    RestCategory,
+    describeRestCategory,
+    formatMatchGroups,
+    getRestCategory,
+    getSeriesTableData,
+} from '../scheduleData';
+
+// Color coding based on the rest since the end of the previous round
+const REST_COLORS: Record<RestCategory, { bg: string; text: string }> = {
+    none: { bg: 'bg-gray-100', text: 'text-gray-600' },
+    'too-short': { bg: 'bg-red-500', text: 'text-white' },
+    short: { bg: 'bg-yellow-400', text: 'text-yellow-900' },
+    ideal: { bg: 'bg-green-500', text: 'text-white' },
+    'too-long': { bg: 'bg-orange-500', text: 'text-white' },
+};
 
-// Color coding based on time gap with previous round
-const getTimeGapColor = (gapMinutes: number | null): { bg: string; text: string; label: string } => {
-    if (gapMinutes === null) {
-        return { bg: 'bg-gray-100', text: 'text-gray-600', label: '' };
-    }
+const REST_LEGEND: RestCategory[] = ['ideal', 'short', 'too-short', 'too-long'];
 
-    if (gapMinutes < 60) {
-        // Yellow: Less than 1h
-        return { bg: 'bg-yellow-400', text: 'text-yellow-900', label: 'Moins de 1h' };
-    } else if (gapMinutes >= 60 && gapMinutes < 120) {
-        // Green: Between 1h and 2h
-        return { bg: 'bg-green-500', text: 'text-white', label: 'Entre 1h et 2h' };
-    } else if (gapMinutes >= 120 && gapMinutes < 180) {
-        // Orange: Between 2h and 3h
-        return { bg: 'bg-orange-500', text: 'text-white', label: 'Entre 2h et 3h' };
-    } else {
-        // Red: More than 3h
-        return { bg: 'bg-red-500', text: 'text-white', label: 'Plus de 3h' };
-    }
-};
+const getTimeGapColor = (gapMinutes: number | null, rules: RestRules) => REST_COLORS[getRestCategory(gapMinutes, rules)];
 
-// Calculate time in minutes from row
-const getTimeInMinutes = (row: number, startTime: string, slotDuration: number): number => {
-    const [startHour, startMin] = startTime.split(':').map(Number);
-    return startHour * 60 + startMin + row * slotDuration;
-};
+const formatRestRules = (rules: RestRules) =>
+    `repos ${formatDuration(rules.min)} / ${formatDuration(rules.ideal)} / ${formatDuration(rules.max)}`;
 
 export const SeriesTableView: React.FC = () => {
     const series = useTournamentStore((state) => state.series);
@@ -35,86 +31,29 @@ export const SeriesTableView: React.FC = () => {
     const settings = useTournamentStore((state) => state.settings);
 
     // Build data structure: for each series, get all rounds with their scheduled times
-    const seriesData = series.map((s) => {
-        const roundsWithSchedule = s.rounds.map((round) => {
-            const scheduled = schedule.find((sr) => sr.roundId === round.id);
-            if (scheduled) {
-                const time = formatTime(scheduled.row, settings.startTime, settings.timeSlotDuration);
-                const timeMinutes = getTimeInMinutes(scheduled.row, settings.startTime, settings.timeSlotDuration);
-                return {
-                    round,
-                    scheduled: true,
-                    row: scheduled.row,
-                    col: scheduled.startCol,
-                    time,
-                    timeMinutes,
-                };
-            }
-            return {
-                round,
-                scheduled: false,
-                row: null,
-                col: null,
-                time: null,
-                timeMinutes: null,
-            };
-        });
-
-        // Sort by time (scheduled rounds first, then by time)
-        const sortedRounds = [...roundsWithSchedule].sort((a, b) => {
-            if (a.timeMinutes === null && b.timeMinutes === null) return a.round.roundNumber - b.round.roundNumber;
-            if (a.timeMinutes === null) return 1;
-            if (b.timeMinutes === null) return -1;
-            return a.timeMinutes - b.timeMinutes;
-        });
-
-        // Calculate gaps with previous round
-        const roundsWithGaps = sortedRounds.map((item, index) => {
-            let gapMinutes: number | null = null;
-
-            if (index > 0 && item.timeMinutes !== null) {
-                const prevItem = sortedRounds[index - 1];
-                if (prevItem.timeMinutes !== null) {
-                    gapMinutes = item.timeMinutes - prevItem.timeMinutes;
-                }
-            }
-
-            return { ...item, gapMinutes };
-        });
-
-        // Calculate total matches
-        const totalMatches = s.rounds.reduce((acc, r) => acc + r.matchCount, 0);
-
-        return {
-            series: s,
-            rounds: roundsWithGaps,
-            totalMatches,
-        };
-    });
+    const seriesData = getSeriesTableData(series, schedule, settings);
 
     // Find max number of rounds for any series
     const maxRounds = Math.max(...series.map((s) => s.rounds.length), 0);
+    const tournamentRules = getRestRules(undefined, settings);
 
     return (
         <div className="bg-white rounded-lg shadow-lg overflow-hidden">
             {/* Legend */}
             <div className="flex flex-wrap gap-4 p-4 bg-gray-50 border-b">
-                <div className="flex items-center gap-2">
-                    <div className="w-6 h-6 bg-green-500 rounded"></div>
-                    <span className="text-sm">Entre 1h et 2h avec le début du tour précédent</span>
-                </div>
-                <div className="flex items-center gap-2">
-                    <div className="w-6 h-6 bg-yellow-400 rounded"></div>
-                    <span className="text-sm">Moins de 1h avec le début du tour précédent</span>
-                </div>
-                <div className="flex items-center gap-2">
-                    <div className="w-6 h-6 bg-orange-500 rounded"></div>
-                    <span className="text-sm">Entre 2h et 3h avec le début du tour précédent</span>
-                </div>
-                <div className="flex items-center gap-2">
-                    <div className="w-6 h-6 bg-red-500 rounded"></div>
-                    <span className="text-sm">Plus de 3h avec le début du tour précédent</span>
-                </div>
+                {REST_LEGEND.map((category) => (
+                    <div key={category} className="flex items-center gap-2">
+                        <div className={`w-6 h-6 rounded ${REST_COLORS[category].bg}`}></div>
+                        <span className="text-sm">
+                            {describeRestCategory(category, tournamentRules)} de repos après la fin du tour précédent
+                        </span>
+                    </div>
+                ))}
+                {series.some((s) => s.restRules) && (
+                    <span className="text-sm text-gray-500 self-center">
+                        (les séries avec leurs propres règles de repos les indiquent sous leur nom)
+                    </span>
+                )}
             </div>
 
             {/* Table */}
@@ -144,6 +83,9 @@ export const SeriesTableView: React.FC = () => {
                                         <div>
                                             <div className="font-semibold">{s.shortName}</div>
                                             <div className="text-xs text-gray-500">{s.name}</div>
+                                            {s.restRules && (
+                                                <div className="text-xs text-purple-700">{formatRestRules(s.restRules)}</div>
+                                            )}
                                         </div>
                                     </div>
                                 </td>
@@ -160,8 +102,8 @@ export const SeriesTableView: React.FC = () => {
                                         );
                                     }
 
-                                    const { round, scheduled, time, gapMinutes } = roundData;
-                                    const colorInfo = scheduled ? getTimeGapColor(gapMinutes) : { bg: 'bg-gray-200', text: 'text-gray-600', label: '' };
+                                    const { round, matchMinutes, scheduled, time, gapMinutes, groups } = roundData;
+                                    const colorInfo = scheduled ? getTimeGapColor(gapMinutes, getRestRules(s, settings)) : { bg: 'bg-gray-200', text: 'text-gray-600' };
 
                                     return (
                                         <td key={i} className="p-2 border-r border-gray-200">
@@ -171,6 +113,7 @@ export const SeriesTableView: React.FC = () => {
                                                     className={`px-3 py-1 rounded text-sm ${scheduled ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-500'}`}
                                                 >
                                                     {round.matchCount} match{round.matchCount > 1 ? 's' : ''}
+                                                    {matchMinutes > settings.timeSlotDuration && ` × ${formatDuration(matchMinutes)}`}
                                                 </div>
                                                 {scheduled && time ? (
                                                     <div
@@ -183,6 +126,11 @@ export const SeriesTableView: React.FC = () => {
                                                         Non placé
                                                     </div>
                                                 )}
+                                                {groups.length > 0 && (
+                                                    <div className="text-xs text-gray-600" title="Tour scindé : matchs placés à part">
+                                                        ✂ {formatMatchGroups(groups, settings)}
+                                                    </div>
+                                                )}
                                             </div>
                                         </td>
                                     );
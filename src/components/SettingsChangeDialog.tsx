@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { useTournamentStore } from '../store';
+import { TournamentSettings } from '../types';
+import {
+  SETTINGS_CHANGE_STRATEGIES,
+  SettingsChangeOutcome,
+  SettingsChangeStrategy,
+  previewSettingsChange,
+} from '../settingsChange';
+import { formatAbsoluteMinutes, formatMinutesChange } from '../scheduleDiff';
+
+interface SettingsChangeDialogProps {
+  changes: Partial<TournamentSettings>;
+  onApplied: () => void;
+  onClose: () => void;
+}
+
+// First strategy without errors and keeping every round, the most conservative one first
+function getRecommended(outcomes: SettingsChangeOutcome[]): SettingsChangeStrategy {
+  const clean = outcomes.find((o) => o.errorCount === 0 && o.droppedCount === 0);
+  return (clean ?? outcomes[outcomes.length - 1]).strategy;
+}
+
+// Impact of settings changes on the existing schedule, applied with the chosen strategy
+export const SettingsChangeDialog: React.FC<SettingsChangeDialogProps> = ({ changes, onApplied, onClose }) => {
+  const { series, schedule, settings, applySettingsChange } = useTournamentStore();
+
+  // Computed once: the automatic placement takes up to a couple of seconds
+  const [preview] = useState(() => previewSettingsChange(series, schedule, settings, changes));
+  const recommended = useMemo(() => getRecommended(preview.outcomes), [preview]);
+  const [selected, setSelected] = useState<SettingsChangeStrategy>(recommended);
+
+  const formatEnd = (minutes: number | null, target: TournamentSettings) =>
+    minutes === null ? '—' : formatAbsoluteMinutes(minutes, target);
+
+  const handleApply = () => {
+    const outcome = preview.outcomes.find((o) => o.strategy === selected)!;
+    applySettingsChange(changes, selected, outcome.schedule);
+    onApplied();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">🧭 Appliquer les nouveaux paramètres</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {schedule.length} tour(s) sont déjà placés. Choisissez comment adapter l'échéancier, le changement
+          pourra être annulé en une fois.
+          <span className="block mt-1">
+            Fin actuelle : <span className="font-medium">{formatEnd(preview.endBefore, settings)}</span>
+          </span>
+        </p>
+
+        <div className="overflow-y-auto space-y-2 pr-1">
+          {SETTINGS_CHANGE_STRATEGIES.map(({ strategy, label, description }) => {
+            const outcome = preview.outcomes.find((o) => o.strategy === strategy)!;
+            const endChange =
+              outcome.end !== null && preview.endBefore !== null ? outcome.end - preview.endBefore : null;
+            return (
+              <label
+                key={strategy}
+                className={`block p-3 border rounded-lg cursor-pointer transition-colors ${
+                  selected === strategy ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="settings-change-strategy"
+                    checked={selected === strategy}
+                    onChange={() => setSelected(strategy)}
+                  />
+                  <span className="font-medium text-gray-800">{label}</span>
+                  {strategy === recommended && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700">Recommandé</span>
+                  )}
+                </div>
+                <p className="ml-6 text-xs text-gray-600">{description}</p>
+                <div className="ml-6 mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                  <span className={outcome.errorCount > 0 ? 'text-red-700 font-medium' : 'text-green-700'}>
+                    {outcome.errorCount > 0 ? `⛔ ${outcome.errorCount} erreur(s)` : '✓ Aucune erreur'}
+                  </span>
+                  {outcome.warningCount > 0 && (
+                    <span className="text-amber-800">⚠️ {outcome.warningCount} alerte(s) de repos</span>
+                  )}
+                  <span className="text-gray-700">{outcome.movedCount} tour(s) déplacé(s)</span>
+                  {outcome.droppedCount > 0 && (
+                    <span className="text-red-700">{outcome.droppedCount} tour(s) retiré(s)</span>
+                  )}
+                  <span className="text-gray-700">
+                    Fin : {formatEnd(outcome.end, preview.settings)}
+                    {endChange !== null && endChange !== 0 && (
+                      <span className={endChange > 0 ? 'text-red-600' : 'text-green-700'}>
+                        {' '}({formatMinutesChange(endChange)})
+                      </span>
+                    )}
+                  </span>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+            Continuer les modifications
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Appliquer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { getStoreLabel, useStorageStatus } from '../storage';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} Ko`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+// Footer line of the autosave: where and when the data was saved, its size and what failed
+export const StorageStatusBar: React.FC = () => {
+  const { backend, savedAt, dataBytes, usageBytes, quotaBytes, failure, recovery } = useStorageStatus();
+
+  const usageRatio = usageBytes !== null && quotaBytes ? usageBytes / quotaBytes : null;
+
+  return (
+    <div className="space-y-2">
+      {failure && (
+        <div className="max-w-3xl mx-auto px-3 py-2 rounded bg-red-600 text-white text-left">
+          ⚠️ Échec {failure.operation === 'lecture' ? 'de la lecture' : "de l'enregistrement"} (
+          {getStoreLabel(failure.key)}) à {formatClock(failure.at)} :{' '}
+          {failure.message}. Les dernières modifications ne sont pas sauvegardées : exportez le tournoi en JSON pour
+          ne pas les perdre.
+        </div>
+      )}
+      {recovery && (
+        <div className="max-w-3xl mx-auto px-3 py-2 rounded bg-amber-100 text-amber-900 text-left flex items-start gap-3">
+          <span className="flex-1">🩹 {recovery}</span>
+          <button
+            onClick={() => useStorageStatus.setState({ recovery: null })}
+            className="text-amber-700 hover:text-amber-900"
+            title="Masquer"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+      <p>
+        💾 Données sauvegardées automatiquement dans votre navigateur
+        {backend === 'localstorage' && ' (stockage local simple, IndexedDB indisponible)'}
+        {savedAt !== null && ` · dernière sauvegarde à ${formatClock(savedAt)}`}
+        {dataBytes > 0 && ` · ${formatBytes(dataBytes)}`}
+        {usageRatio !== null && (
+          <span className={usageRatio > 0.8 ? 'text-red-400 font-semibold' : undefined}>
+            {` · ${Math.round(usageRatio * 100)} % de l'espace du navigateur utilisé`}
+          </span>
+        )}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { useTournamentStore, useWorkspaceStore } from '../store';
+import { SavedTournament, TournamentEntry } from '../types';
+
+interface TournamentLibraryDialogProps {
+  onClose: () => void;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function describeContent(content: Pick<SavedTournament, 'series' | 'schedule'> | undefined): string {
+  if (!content) return '';
+  const roundCount = content.series.reduce((acc, s) => acc + s.rounds.length, 0);
+  return `${content.series.length} série(s) · ${content.schedule.length}/${roundCount} tour(s) placé(s)`;
+}
+
+// Tournaments of the club: open one, or create, duplicate, rename, archive and delete them
+export const TournamentLibraryDialog: React.FC<TournamentLibraryDialogProps> = ({ onClose }) => {
+  const {
+    tournaments,
+    activeId,
+    createTournament,
+    openTournament,
+    duplicateTournament,
+    renameTournament,
+    setTournamentArchived,
+    deleteTournament,
+  } = useWorkspaceStore();
+  const { series, schedule } = useTournamentStore();
+
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const active = tournaments.filter((t) => !t.archived);
+  const archived = tournaments.filter((t) => t.archived);
+
+  const handleCreate = () => {
+    createTournament(newName);
+    setNewName('');
+    onClose();
+  };
+
+  const handleOpen = (id: string) => {
+    openTournament(id);
+    onClose();
+  };
+
+  const handleRename = () => {
+    if (renaming) renameTournament(renaming.id, renaming.name);
+    setRenaming(null);
+  };
+
+  const handleDelete = (entry: TournamentEntry) => {
+    if (window.confirm(`Supprimer définitivement le tournoi "${entry.name}" ?`)) {
+      deleteTournament(entry.id);
+    }
+  };
+
+  const renderEntry = (entry: TournamentEntry) => {
+    const isActive = entry.id === activeId;
+    const summary = describeContent(isActive ? { series, schedule } : entry.data);
+
+    return (
+      <li
+        key={entry.id}
+        className={`p-3 border rounded-lg flex flex-wrap items-center gap-3 ${
+          isActive ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+        }`}
+      >
+        <div className="flex-1 min-w-[12rem]">
+          {renaming?.id === entry.id ? (
+            <input
+              type="text"
+              value={renaming.name}
+              onChange={(e) => setRenaming({ id: entry.id, name: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+                if (e.key === 'Escape') setRenaming(null);
+              }}
+              onBlur={handleRename}
+              className="px-2 py-1 border border-gray-300 rounded-md w-full"
+              autoFocus
+            />
+          ) : (
+            <div className="font-medium text-gray-800 flex items-center gap-2">
+              {entry.name}
+              {isActive && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-700">Ouvert</span>
+              )}
+            </div>
+          )}
+          <div className="text-xs text-gray-500">
+            {summary}
+            {!isActive && ` · modifié le ${formatDate(entry.updatedAt)}`}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-1 text-sm">
+          {!isActive && !entry.archived && (
+            <button
+              onClick={() => handleOpen(entry.id)}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              Ouvrir
+            </button>
+          )}
+          <button
+            onClick={() => duplicateTournament(entry.id)}
+            className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+            title="Copie de la configuration et de l'échéancier, par exemple pour l'édition suivante"
+          >
+            Dupliquer
+          </button>
+          <button
+            onClick={() => setRenaming({ id: entry.id, name: entry.name })}
+            className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+          >
+            Renommer
+          </button>
+          {!isActive && (
+            <button
+              onClick={() => setTournamentArchived(entry.id, !entry.archived)}
+              className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+            >
+              {entry.archived ? 'Désarchiver' : 'Archiver'}
+            </button>
+          )}
+          {!isActive && (
+            <button
+              onClick={() => handleDelete(entry)}
+              className="px-3 py-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+            >
+              Supprimer
+            </button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white text-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">📚 Mes tournois</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Chaque tournoi garde ses paramètres, ses séries et son échéancier. Le tournoi ouvert peut être dupliqué ou
+          renommé, les autres peuvent aussi être archivés ou supprimés.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="Nom du nouveau tournoi"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+          />
+          <button
+            onClick={handleCreate}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+          >
+            ➕ Créer
+          </button>
+        </div>
+
+        <div className="overflow-y-auto pr-1">
+          <ul className="space-y-2">{active.map(renderEntry)}</ul>
+
+          {archived.length > 0 && (
+            <div className="mt-4">
+              <button
+                onClick={() => setShowArchived(!showArchived)}
+                className="flex items-center gap-2 text-sm font-medium text-gray-600"
+              >
+                <span className="text-xs">{showArchived ? '▼' : '▶'}</span>
+                Archives ({archived.length})
+              </button>
+              {showArchived && <ul className="mt-2 space-y-2">{archived.map(renderEntry)}</ul>}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors">
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { useScheduleIssues } from '../store';
+import { SCHEDULE_ISSUE_LABELS, ScheduleIssue, ScheduleIssueKind } from '../scheduleValidation';
+
+interface ValidationPanelProps {
+  selected: ScheduleIssue | null;
+  onLocate: (issue: ScheduleIssue) => void;
+}
+
+const KIND_ORDER: ScheduleIssueKind[] = [
+  'out-of-hours',
+  'overlap',
+  'order',
+  'same-row',
+  'short-rest',
+  'long-rest',
+  'unscheduled',
+];
+
+// Issues of the whole schedule by category, clicking one shows it in the grid
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ selected, onLocate }) => {
+  const issues = useScheduleIssues();
+  const [collapsed, setCollapsed] = useState<Set<ScheduleIssueKind>>(new Set(['unscheduled']));
+
+  const errorCount = issues.filter((i) => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  const toggle = (kind: ScheduleIssueKind) => {
+    const next = new Set(collapsed);
+    if (next.has(kind)) next.delete(kind);
+    else next.add(kind);
+    setCollapsed(next);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 mt-4">
+      <h3 className="font-semibold text-gray-800 mb-2 flex items-center gap-2">
+        🩺 Vérification
+        {errorCount > 0 && (
+          <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">{errorCount} erreur(s)</span>
+        )}
+        {warningCount > 0 && (
+          <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">{warningCount} alerte(s)</span>
+        )}
+      </h3>
+
+      {issues.length === 0 ? (
+        <p className="text-sm text-green-700">✓ Aucun problème détecté</p>
+      ) : (
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto pr-1">
+          {KIND_ORDER.map((kind) => {
+            const group = issues.filter((i) => i.kind === kind);
+            if (group.length === 0) return null;
+            const isError = group[0].severity === 'error';
+            return (
+              <div key={kind}>
+                <button
+                  onClick={() => toggle(kind)}
+                  className={`w-full flex items-center gap-2 text-left text-sm font-medium ${
+                    isError ? 'text-red-700' : 'text-amber-800'
+                  }`}
+                >
+                  <span className="text-xs">{collapsed.has(kind) ? '▶' : '▼'}</span>
+                  {isError ? '⛔' : '⚠️'} {SCHEDULE_ISSUE_LABELS[kind]} ({group.length})
+                </button>
+                {!collapsed.has(kind) && (
+                  <ul className="mt-1 ml-5 space-y-0.5">
+                    {group.map((issue, index) => (
+                      <li key={index}>
+                        {issue.location ? (
+                          <button
+                            onClick={() => onLocate(issue)}
+                            className={`w-full text-left text-xs px-1 py-0.5 rounded hover:bg-blue-50 ${
+                              selected === issue ? 'bg-blue-100' : ''
+                            }`}
+                            title="Afficher dans la grille"
+                          >
+                            📍 {issue.message}
+                          </button>
+                        ) : (
+                          <span className="block text-xs px-1 py-0.5 text-gray-700">{issue.message}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,45 +1,59 @@
 import React from 'react';
-import { useTournamentStore } from '../store';
-import { formatTime, getContrastColor, getRoundCellPositions } from '../types';
+import { useTournamentStore, usePlayerConflicts, useLiveProjection } from '../store';
+import { createCellAvailability, formatDuration, formatRowLabel, getContrastColor } from '../types';
+import { getOccupiedCells } from '../scheduleData';
+import { PlayerConflict, describeConflict } from '../playerConflicts';
+import { LiveMatchInfo, formatAbsoluteTime, formatDelay } from '../liveProjection';
 
 type CellInfo = {
     roundLabel: string;
+    conflicts: PlayerConflict[];
     seriesShortName: string;
     seriesColor: string;
     matchIndex: number;
     totalMatches: number;
+    isContinuation: boolean; // Later slot of a match lasting several slots
+    durationMinutes: number;
+    live?: LiveMatchInfo;
+};
+
+const LiveMatchTime: React.FC<{ live: LiveMatchInfo }> = ({ live }) => {
+    if (live.status === 'finished') {
+        return <span className="text-slate-400">✓ Terminé</span>;
+    }
+    if (live.status === 'started') {
+        return <span className="font-semibold text-green-700">▶ {formatAbsoluteTime(live.projectedStart)}</span>;
+    }
+    const delay = live.projectedStart - live.plannedStart;
+    return (
+        <span className={delay > 0 ? 'font-semibold text-amber-700' : 'text-slate-600'}>
+            ≈ {formatAbsoluteTime(live.projectedStart)}
+            {delay !== 0 && <span className="ml-1 text-xs">({formatDelay(delay)})</span>}
+        </span>
+    );
 };
 
 export const VerticalScheduleView: React.FC = () => {
     const series = useTournamentStore((state) => state.series);
     const schedule = useTournamentStore((state) => state.schedule);
     const settings = useTournamentStore((state) => state.settings);
-
-    const roundLookup = new Map(
-        series.flatMap((s) => s.rounds.map((r) => [r.id, { round: r, series: s }] as const))
-    );
+    const conflictsByRound = usePlayerConflicts();
+    const liveProjection = useLiveProjection();
+    const isCellOpen = createCellAvailability(settings);
 
     const occupiedCells = new Map<string, CellInfo>();
 
-    for (const scheduledRound of schedule) {
-        const info = roundLookup.get(scheduledRound.roundId);
-        if (!info) continue;
-
-        const positions = getRoundCellPositions(
-            scheduledRound.row,
-            scheduledRound.startCol,
-            info.round.matchCount,
-            settings.courtCount
-        );
-
-        positions.forEach((pos, idx) => {
-            occupiedCells.set(`${pos.row}-${pos.col}`, {
-                roundLabel: info.round.label,
-                seriesShortName: info.series.shortName,
-                seriesColor: info.series.color,
-                matchIndex: idx + 1,
-                totalMatches: info.round.matchCount,
-            });
+    for (const [key, cell] of getOccupiedCells(series, schedule, settings, isCellOpen)) {
+        occupiedCells.set(key, {
+            roundLabel: cell.round.label,
+            conflicts: conflictsByRound.get(cell.round.id) ?? [],
+            seriesShortName: cell.series.shortName,
+            seriesColor: cell.series.color,
+            matchIndex: cell.matchIndex + 1,
+            totalMatches: cell.round.matchCount,
+            isContinuation: cell.isContinuation,
+            durationMinutes: cell.durationMinutes,
+            live: liveProjection?.rounds.get(cell.round.id)?.matches[cell.matchIndex],
         });
     }
 
@@ -60,7 +74,7 @@ export const VerticalScheduleView: React.FC = () => {
             {activeRows.map((row) => (
                 <section key={row} className="bg-white rounded-lg shadow-lg overflow-hidden">
                     <div className="bg-slate-700 text-white px-4 py-2 text-sm font-semibold text-center">
-                        {formatTime(row, settings.startTime, settings.timeSlotDuration)} ({settings.timeSlotDuration} min)
+                        {formatRowLabel(row, settings)} ({settings.timeSlotDuration} min)
                     </div>
 
                     <div className="overflow-x-auto">
@@ -71,15 +85,22 @@ export const VerticalScheduleView: React.FC = () => {
                                     <th className="p-2 text-left border-b border-slate-200 w-32">Serie</th>
                                     <th className="p-2 text-left border-b border-slate-200">Tour</th>
                                     <th className="p-2 text-left border-b border-slate-200 w-28">Match</th>
+                                    {liveProjection && (
+                                        <th className="p-2 text-left border-b border-slate-200 w-36">Estimé</th>
+                                    )}
                                 </tr>
                             </thead>
                             <tbody>
                                 {Array.from({ length: settings.courtCount }).map((_, col) => {
+                                    if (!isCellOpen(row, col)) return null;
                                     const key = `${row}-${col}`;
                                     const cell = occupiedCells.get(key);
 
                                     return (
-                                        <tr key={key} className="border-b border-slate-100 last:border-b-0">
+                                        <tr
+                                            key={key}
+                                            className={`border-b border-slate-100 last:border-b-0 ${cell && cell.conflicts.length > 0 ? 'bg-red-50' : ''}`}
+                                        >
                                             <td className="p-2 font-medium text-slate-700">{col + 1}</td>
                                             <td className="p-2">
                                                 {cell ? (
@@ -96,10 +117,29 @@ export const VerticalScheduleView: React.FC = () => {
                                                     <span className="text-slate-400">---</span>
                                                 )}
                                             </td>
-                                            <td className="p-2 text-slate-700">{cell ? cell.roundLabel : '---'}</td>
+                                            <td className="p-2 text-slate-700">
+                                                {cell ? cell.roundLabel : '---'}
+                                                {cell && cell.matchIndex === 1 && !cell.isContinuation && cell.conflicts.length > 0 && (
+                                                    <div className="text-xs text-red-700">
+                                                        {cell.conflicts.map((conflict, idx) => (
+                                                            <div key={idx}>⚠ {describeConflict(conflict)}</div>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </td>
                                             <td className="p-2 text-slate-600">
                                                 {cell ? `M${cell.matchIndex}/${cell.totalMatches}` : '---'}
+                                                {cell && cell.durationMinutes > settings.timeSlotDuration && (
+                                                    <span className="ml-1 text-xs text-slate-400">
+                                                        {cell.isContinuation ? '(suite)' : `(${formatDuration(cell.durationMinutes)})`}
+                                                    </span>
+                                                )}
                                             </td>
+                                            {liveProjection && (
+                                                <td className="p-2">
+                                                    {cell?.live && !cell.isContinuation ? <LiveMatchTime live={cell.live} /> : ''}
+                                                </td>
+                                            )}
                                         </tr>
                                     );
                                 })}
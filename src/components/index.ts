@@ -1,8 +1,23 @@
 export { ConfigPhase } from './ConfigPhase';
 export { SchedulePhase } from './SchedulePhase';
+export { LivePhase } from './LivePhase';
 export { ScheduleGrid } from './ScheduleGrid';
 export { ScheduleCell } from './ScheduleCell';
 export { UnscheduledPool } from './UnscheduledPool';
-export { RoundItem, RoundItemStatic, DraggableRoundInGrid } from './RoundItem';
+export { RoundItem, RoundItemStatic, DraggableRoundInGrid, DraggableMatchGroup } from './RoundItem';
 export { SeriesTableView } from './SeriesTableView';
 export { VerticalScheduleView } from './VerticalScheduleView';
+export { PdfExportDialog } from './PdfExportDialog';
+export { MatchExportDialog } from './MatchExportDialog';
+export { EntryImportDialog } from './EntryImportDialog';
+export { BracketTemplateLibrary } from './BracketTemplateLibrary';
+export { HistoryPanel } from './HistoryPanel';
+export { ScheduleSnapshotsDialog } from './ScheduleSnapshotsDialog';
+export { ScheduleDiffView } from './ScheduleDiffView';
+export { ValidationPanel } from './ValidationPanel';
+export { SettingsChangeDialog } from './SettingsChangeDialog';
+export { MergeDialog } from './MergeDialog';
+export { PeerSyncPanel } from './PeerSyncPanel';
+export { TournamentLibraryDialog } from './TournamentLibraryDialog';
+export { StorageStatusBar } from './StorageStatusBar';
+export { RoundPicker } from './RoundPicker';
@@ -0,0 +1,189 @@
+// Import of registration files (CSV or XLSX) into series with their entries
+//
+// Expected columns: player, club and category (the series), licence numbers
+// when the file has them. Doubles are given either in partner columns or as
+// "Player 1 / Player 2" in the player and licence columns.
+// Columns are found from the header line; without a recognized header the
+// first three columns are read as player, club, category.
+
+import { Series } from './types';
+import { BracketPlan, suggestBracket } from './brackets';
+
+export interface ImportedEntry {
+  playerNames: string[];
+  club?: string;
+  licences?: string[]; // In the order of playerNames, empty when unknown
+}
+
+export interface ImportedSeriesPlan {
+  name: string;
+  shortName: string;
+  entries: ImportedEntry[];
+  bracket: BracketPlan;
+  existingSeriesId?: string; // A series with the same short name already exists
+}
+
+export interface EntryImportPreview {
+  series: ImportedSeriesPlan[];
+  skippedLines: number[]; // 1-indexed lines without player or category
+}
+
+type ColumnKey = 'player' | 'partner' | 'club' | 'category' | 'licence' | 'partnerLicence';
+
+const HEADER_NAMES: Record<ColumnKey, string[]> = {
+  player: ['joueur', 'joueurs', 'nom', 'player', 'name', 'licencie'],
+  partner: ['partenaire', 'partner', 'joueur 2', 'equipier'],
+  club: ['club', 'sigle', 'association'],
+  category: ['categorie', 'category', 'serie', 'series', 'tableau', 'draw'],
+  licence: ['licence', 'license', 'n licence', 'numero de licence', 'licence 1'],
+  partnerLicence: ['licence partenaire', 'partner license', 'licence 2'],
+};
+
+function normalizeHeader(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+}
+
+function findColumns(header: string[]): Partial<Record<ColumnKey, number>> | null {
+  const normalized = header.map(normalizeHeader);
+  const columns: Partial<Record<ColumnKey, number>> = {};
+  for (const key of Object.keys(HEADER_NAMES) as ColumnKey[]) {
+    const index = normalized.findIndex((h) => HEADER_NAMES[key].includes(h));
+    if (index !== -1) columns[key] = index;
+  }
+  return columns.player !== undefined && columns.category !== undefined ? columns : null;
+}
+
+// "Double Hommes 1" -> "DH1", short categories are kept as they are
+export function getCategoryShortName(category: string): string {
+  const compact = category.replace(/\s+/g, '');
+  if (compact.length <= 6) return compact.toUpperCase();
+
+  const words = category.split(/[\s\-_/]+/).filter(Boolean);
+  return words
+    .map((word) => (/^\d+$/.test(word) ? word : word[0]))
+    .join('')
+    .toUpperCase();
+}
+
+// Split CSV text into cells, separator guessed from the first line (";", "," or tab)
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const separator = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export async function readEntryFile(file: File): Promise<string[][]> {
+  if (/\.(xlsx|xls|ods)$/i.test(file.name)) {
+    // SheetJS is only loaded when a spreadsheet is imported
+    const { read, utils } = await import('xlsx');
+    const workbook = read(await file.arrayBuffer());
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) return [];
+    const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false, defval: '' });
+    return rows.map((row) => row.map((value) => String(value ?? '')));
+  }
+  return parseCsv(await file.text());
+}
+
+export function buildEntryImportPreview(rows: string[][], existingSeries: Series[]): EntryImportPreview {
+  const header = rows[0] ?? [];
+  const detected = findColumns(header);
+  const columns = detected ?? { player: 0, club: 1, category: 2 };
+  const dataStart = detected ? 1 : 0;
+
+  const byCategory = new Map<string, ImportedEntry[]>();
+  const seenEntries = new Set<string>();
+  const skippedLines: number[] = [];
+
+  for (let i = dataStart; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.every((value) => !value.trim())) continue;
+
+    const cell = (key: ColumnKey) => {
+      const index = columns[key];
+      return index !== undefined ? (row[index] ?? '').trim().replace(/\s+/g, ' ') : '';
+    };
+    const category = cell('category');
+    const playerNames = [...cell('player').split('/'), cell('partner')]
+      .map((n) => n.trim())
+      .filter(Boolean);
+
+    if (!category || playerNames.length === 0) {
+      skippedLines.push(i + 1);
+      continue;
+    }
+
+    // Registration files often list a pair once per player
+    const key = `${category.toLowerCase()}|${playerNames.map((n) => n.toLowerCase()).sort().join('|')}`;
+    if (seenEntries.has(key)) continue;
+    seenEntries.add(key);
+
+    const club = cell('club');
+    const licences = [...cell('licence').split('/'), cell('partnerLicence')].map((n) => n.trim()).filter(Boolean);
+    const entry: ImportedEntry = {
+      playerNames,
+      ...(club ? { club } : {}),
+      // Only kept when each player has one, otherwise they cannot be told apart
+      ...(licences.length === playerNames.length ? { licences } : {}),
+    };
+    byCategory.set(category, [...(byCategory.get(category) ?? []), entry]);
+  }
+
+  const series = Array.from(byCategory, ([name, entries]) => {
+    const shortName = getCategoryShortName(name);
+    const existing = existingSeries.find((s) => s.shortName.toLowerCase() === shortName.toLowerCase());
+    return {
+      name,
+      shortName,
+      entries,
+      bracket: suggestBracket(entries.length),
+      ...(existing ? { existingSeriesId: existing.id } : {}),
+    };
+  });
+
+  return { series, skippedLines };
+}
@@ -0,0 +1,191 @@
+// Live projection of the tournament day
+//
+// The planned schedule is never modified. Every start or finish recorded by the
+// table staff gives an observed delay against the planned time of that match;
+// the latest observation sets the delay of the day it happened on, and every
+// remaining match of that day is shifted by it. A match cannot be projected in
+// the past, nor before the previous round of its series is projected to end.
+// Later days keep their planned times.
+
+import {
+  Series,
+  ScheduledRound,
+  TournamentSettings,
+  RoundProgress,
+  createCellAvailability,
+  getMatchSlotSpan,
+  getScheduledRoundPositions,
+  getRowAbsoluteMinutes,
+  getRowSlot,
+  minutesToTime,
+} from './types';
+
+export type LiveStatus = 'planned' | 'started' | 'finished';
+
+export interface LiveMatchInfo {
+  status: LiveStatus;
+  plannedStart: number; // Absolute minutes (day index * 24h + minutes from midnight)
+  projectedStart: number;
+  startedAt?: number; // Epoch milliseconds
+  finishedAt?: number;
+}
+
+export interface LiveRoundInfo {
+  status: LiveStatus;
+  plannedStart: number;
+  projectedStart: number; // Actual start once the round has started
+  projectedEnd: number;
+  delayMinutes: number; // Projected start minus planned start
+  matches: LiveMatchInfo[];
+}
+
+export interface LiveProjection {
+  delayMinutes: number; // Delay observed on the live day
+  liveDayIndex: number | null; // Day of the latest observation
+  rounds: Map<string, LiveRoundInfo>;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Wall-clock time of a timestamp, placed on a tournament day
+function toAbsoluteMinutes(timestamp: number, dayIndex: number): number {
+  const date = new Date(timestamp);
+  return dayIndex * MINUTES_PER_DAY + date.getHours() * 60 + date.getMinutes();
+}
+
+export function formatAbsoluteTime(minutes: number): string {
+  return minutesToTime(((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY);
+}
+
+export function formatDelay(minutes: number): string {
+  if (minutes === 0) return "à l'heure";
+  return minutes > 0 ? `+${minutes} min` : `${minutes} min`;
+}
+
+type PlannedMatch = {
+  plannedStart: number;
+  plannedEnd: number;
+  dayIndex: number;
+  startedAt?: number;
+  finishedAt?: number;
+};
+
+export function projectLiveSchedule(
+  series: Series[],
+  schedule: ScheduledRound[],
+  settings: TournamentSettings,
+  progress: RoundProgress[],
+  now: number
+): LiveProjection {
+  const isCellOpen = createCellAvailability(settings);
+  const progressByRound = new Map(progress.map((p) => [p.roundId, p]));
+  const scheduledById = new Map(schedule.map((sr) => [sr.roundId, sr]));
+  const slot = settings.timeSlotDuration;
+
+  // Planned start and end of every match of the scheduled rounds
+  const plannedByRound = new Map<string, PlannedMatch[]>();
+  for (const s of series) {
+    for (const round of s.rounds) {
+      const sr = scheduledById.get(round.id);
+      if (!sr) continue;
+
+      const span = getMatchSlotSpan(round, s, slot);
+      const positions = getScheduledRoundPositions(sr, round, s, settings, isCellOpen);
+      const roundProgress = progressByRound.get(round.id);
+      const matches: PlannedMatch[] = [];
+
+      for (const pos of positions) {
+        if (matches[pos.matchIndex]) continue; // Later slots of a long match
+        const plannedStart = getRowAbsoluteMinutes(pos.row, settings);
+        matches[pos.matchIndex] = {
+          plannedStart,
+          plannedEnd: plannedStart + span * slot,
+          dayIndex: getRowSlot(pos.row, settings).dayIndex,
+          ...roundProgress?.matches[pos.matchIndex],
+        };
+      }
+      plannedByRound.set(round.id, matches.filter(Boolean));
+    }
+  }
+
+  // Latest observation sets the delay
+  let latest: { timestamp: number; delay: number; dayIndex: number } | null = null;
+  for (const matches of plannedByRound.values()) {
+    for (const m of matches) {
+      const observations: Array<[number | undefined, number]> = [
+        [m.startedAt, m.plannedStart],
+        [m.finishedAt, m.plannedEnd],
+      ];
+      for (const [timestamp, planned] of observations) {
+        if (timestamp === undefined || (latest && timestamp <= latest.timestamp)) continue;
+        latest = { timestamp, delay: toAbsoluteMinutes(timestamp, m.dayIndex) - planned, dayIndex: m.dayIndex };
+      }
+    }
+  }
+
+  const delayMinutes = latest?.delay ?? 0;
+  const liveDayIndex = latest?.dayIndex ?? null;
+  const nowMinutes = liveDayIndex !== null ? toAbsoluteMinutes(now, liveDayIndex) : null;
+
+  const projectMatch = (m: PlannedMatch, notBefore: number): LiveMatchInfo => {
+    const status: LiveStatus = m.finishedAt !== undefined ? 'finished' : m.startedAt !== undefined ? 'started' : 'planned';
+    let projectedStart: number;
+    if (m.startedAt !== undefined) {
+      projectedStart = toAbsoluteMinutes(m.startedAt, m.dayIndex);
+    } else if (m.dayIndex === liveDayIndex) {
+      projectedStart = Math.max(m.plannedStart + delayMinutes, nowMinutes!, notBefore);
+    } else {
+      projectedStart = Math.max(m.plannedStart, notBefore);
+    }
+    return {
+      status,
+      plannedStart: m.plannedStart,
+      projectedStart,
+      ...(m.startedAt !== undefined ? { startedAt: m.startedAt } : {}),
+      ...(m.finishedAt !== undefined ? { finishedAt: m.finishedAt } : {}),
+    };
+  };
+
+  const rounds = new Map<string, LiveRoundInfo>();
+
+  for (const s of series) {
+    const ordered = [...s.rounds].sort((a, b) => a.roundNumber - b.roundNumber);
+    let previousEnd = -Infinity;
+
+    for (const round of ordered) {
+      const planned = plannedByRound.get(round.id);
+      if (!planned || planned.length === 0) continue;
+
+      const matchMinutes = getMatchSlotSpan(round, s, slot) * slot;
+      const matches = planned.map((m) => projectMatch(m, previousEnd));
+
+      const status: LiveStatus = matches.every((m) => m.status === 'finished')
+        ? 'finished'
+        : matches.some((m) => m.status !== 'planned')
+          ? 'started'
+          : 'planned';
+
+      const plannedStart = Math.min(...matches.map((m) => m.plannedStart));
+      const projectedStart = Math.min(...matches.map((m) => m.projectedStart));
+      const projectedEnd = Math.max(
+        ...planned.map((m, i) =>
+          m.finishedAt !== undefined
+            ? toAbsoluteMinutes(m.finishedAt, m.dayIndex)
+            : matches[i].projectedStart + matchMinutes
+        )
+      );
+
+      rounds.set(round.id, {
+        status,
+        plannedStart,
+        projectedStart,
+        projectedEnd,
+        delayMinutes: projectedStart - plannedStart,
+        matches,
+      });
+      previousEnd = projectedEnd;
+    }
+  }
+
+  return { delayMinutes, liveDayIndex, rounds };
+}
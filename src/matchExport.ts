@@ -0,0 +1,127 @@
+// Flat export of the scheduled matches (CSV and Excel), one line per match
+
+import { Series, ScheduledRound, TournamentSettings, minutesToTime } from './types';
+import { ScheduledMatch, getScheduledMatches } from './scheduleData';
+
+export type MatchExportColumn =
+  | 'day'
+  | 'time'
+  | 'endTime'
+  | 'court'
+  | 'series'
+  | 'seriesShortName'
+  | 'round'
+  | 'match';
+
+export type MatchExportLanguage = 'fr' | 'en';
+export type MatchExportFormat = 'csv' | 'xlsx';
+
+export interface MatchExportOptions {
+  format: MatchExportFormat;
+  language: MatchExportLanguage;
+  columns: MatchExportColumn[]; // In output order
+}
+
+export const MATCH_EXPORT_COLUMNS: MatchExportColumn[] = [
+  'day',
+  'time',
+  'endTime',
+  'court',
+  'series',
+  'seriesShortName',
+  'round',
+  'match',
+];
+
+export const MATCH_EXPORT_HEADERS: Record<MatchExportLanguage, Record<MatchExportColumn, string>> = {
+  fr: {
+    day: 'Jour',
+    time: 'Heure',
+    endTime: 'Fin',
+    court: 'Terrain',
+    series: 'Série',
+    seriesShortName: 'Abréviation',
+    round: 'Tour',
+    match: 'Match',
+  },
+  en: {
+    day: 'Day',
+    time: 'Time',
+    endTime: 'End',
+    court: 'Court',
+    series: 'Series',
+    seriesShortName: 'Short name',
+    round: 'Round',
+    match: 'Match',
+  },
+};
+
+function getColumnValue(match: ScheduledMatch, column: MatchExportColumn): string | number {
+  switch (column) {
+    case 'day':
+      return match.dayLabel;
+    case 'time':
+      return minutesToTime(match.startMinutes);
+    case 'endTime':
+      return minutesToTime(match.endMinutes);
+    case 'court':
+      return match.court;
+    case 'series':
+      return match.series.name;
+    case 'seriesShortName':
+      return match.series.shortName;
+    case 'round':
+      return match.round.label;
+    case 'match':
+      return match.matchIndex;
+  }
+}
+
+// Header line followed by one line per match
+export function buildMatchTable(
+  data: { settings: TournamentSettings; series: Series[]; schedule: ScheduledRound[] },
+  options: Pick<MatchExportOptions, 'language' | 'columns'>
+): Array<Array<string | number>> {
+  const matches = getScheduledMatches(data.series, data.schedule, data.settings);
+  const headers = MATCH_EXPORT_HEADERS[options.language];
+  return [
+    options.columns.map((column) => headers[column]),
+    ...matches.map((match) => options.columns.map((column) => getColumnValue(match, column))),
+  ];
+}
+
+// French spreadsheets expect ';' as separator, English ones ','
+export function toCsv(rows: Array<Array<string | number>>, separator: string): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /["\n\r]/.test(text) || text.includes(separator) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(escape).join(separator)).join('\r\n');
+}
+
+export async function exportMatches(
+  data: { settings: TournamentSettings; series: Series[]; schedule: ScheduledRound[] },
+  options: MatchExportOptions
+): Promise<void> {
+  const rows = buildMatchTable(data, options);
+  const fileName = `echeancier-matchs-${new Date().toISOString().slice(0, 10)}`;
+
+  if (options.format === 'xlsx') {
+    // SheetJS is only loaded when an Excel file is requested
+    const { utils, writeFile } = await import('xlsx');
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet(rows), options.language === 'fr' ? 'Matchs' : 'Matches');
+    writeFile(workbook, `${fileName}.xlsx`);
+    return;
+  }
+
+  // BOM so that Excel reads the accents as UTF-8
+  const csv = '\uFEFF' + toCsv(rows, options.language === 'fr' ? ';' : ',');
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${fileName}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { mergeTournaments } from './merge';
+import { ScheduledRound, Series, TournamentSettings } from './types';
+
+const settings: TournamentSettings = {
+  courtCount: 2,
+  timeSlotDuration: 30,
+  startTime: '09:00',
+  endTime: '11:00',
+};
+
+const series: Series[] = [
+  {
+    id: 'a',
+    name: 'Série A',
+    shortName: 'A',
+    color: '#3b82f6',
+    rounds: [
+      { id: 'a1', seriesId: 'a', roundNumber: 1, matchCount: 1, label: 'Tour 1' },
+      { id: 'b1', seriesId: 'a', roundNumber: 2, matchCount: 1, label: 'Tour 2' },
+    ],
+  },
+];
+
+const copy = (schedule: ScheduledRound[]) => ({ series, players: [], schedule });
+
+describe('mergeTournaments', () => {
+  // Each side placed a different round on row 1, court 1
+  const base = { series, schedule: [] };
+  const local = copy([{ roundId: 'a1', row: 1, startCol: 0 }]);
+  const remote = copy([{ roundId: 'b1', row: 1, startCol: 0 }]);
+
+  it('reports two rounds placed on the same cell by each side', () => {
+    const { conflicts, schedule } = mergeTournaments(base, local, remote, settings);
+
+    expect(conflicts).toEqual([expect.objectContaining({ key: 'overlap:a1:b1', kind: 'overlap' })]);
+    expect(schedule).toEqual([{ roundId: 'a1', row: 1, startCol: 0 }]);
+  });
+
+  it('keeps the round of the received file when chosen', () => {
+    const { conflicts, schedule, remoteChangeCount } = mergeTournaments(base, local, remote, settings, {
+      'overlap:a1:b1': 'remote',
+    });
+
+    expect(conflicts).toHaveLength(1);
+    expect(schedule).toEqual([{ roundId: 'b1', row: 1, startCol: 0 }]);
+    expect(remoteChangeCount).toBe(1);
+  });
+
+  it('merges rounds placed on different cells without conflict', () => {
+    const { conflicts, schedule } = mergeTournaments(base, local, copy([{ roundId: 'b1', row: 2, startCol: 0 }]), settings);
+
+    expect(conflicts).toEqual([]);
+    expect(schedule).toHaveLength(2);
+  });
+});
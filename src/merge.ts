@@ -0,0 +1,323 @@
+// Three-way merge of two copies of the tournament exchanged between organizers
+//
+// Both copies come from the same export (the base). Series, rounds and
+// placements changed on one side only are taken from that side; a field changed
+// differently on both sides, or an item deleted on one side and changed on the
+// other, is a conflict for the user to resolve. So are two rounds placed on the
+// same cell, one here and the other in the received file. Settings, versions and live
+// tracking are not merged, the local ones are kept.
+
+import { CellAvailability, Player, Round, ScheduledRound, Series, TournamentSettings, createCellAvailability, formatRowLabel } from './types';
+import { getScheduledRoundCells } from './scheduleData';
+
+export interface MergeInput {
+  series: Series[];
+  players: Player[];
+  schedule: ScheduledRound[];
+}
+
+export type MergeConflictKind = 'series' | 'round' | 'placement' | 'overlap';
+export type MergeChoice = 'local' | 'remote';
+
+export interface MergeConflict {
+  key: string; // "series:<id>", "round:<id>", "placement:<roundId>" or "overlap:<localRoundId>:<remoteRoundId>"
+  kind: MergeConflictKind;
+  label: string; // "DH1", "DH1 Tour 2", "DH1 Tour 2 / SD1 Tour 1"
+  local: string; // Description of the conflicting local values
+  remote: string;
+}
+
+export interface MergeOutcome extends MergeInput {
+  conflicts: MergeConflict[]; // Resolved with the choices, local by default
+  remoteChangeCount: number; // Items taken from the remote copy without conflict
+}
+
+type Fields = Record<string, unknown>;
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'nom',
+  shortName: 'abréviation',
+  color: 'couleur',
+  dayId: 'jour',
+  matchDuration: 'durée des matchs',
+  duration: 'durée des matchs',
+  restRules: 'repos',
+  entries: 'inscriptions',
+  label: 'nom',
+  matchCount: 'matchs',
+  seriesId: 'série',
+};
+
+// JSON with sorted keys, so that copies built in a different order compare equal
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Fields)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+// Merge one item, field by field when it exists in the three copies.
+// `keys` lists the conflicting fields, empty when the whole item conflicts.
+function mergeItem<T extends Fields>(
+  base: T | undefined,
+  local: T | undefined,
+  remote: T | undefined,
+  choice: MergeChoice
+): { value: T | undefined; conflict: boolean; keys: string[]; fromRemote: boolean } {
+  if (same(local, remote)) return { value: local, conflict: false, keys: [], fromRemote: false };
+  if (same(base, local)) return { value: remote, conflict: false, keys: [], fromRemote: true };
+  if (same(base, remote)) return { value: local, conflict: false, keys: [], fromRemote: false };
+
+  if (!base || !local || !remote) {
+    return { value: choice === 'remote' ? remote : local, conflict: true, keys: [], fromRemote: false };
+  }
+
+  const value: Fields = {};
+  const keys: string[] = [];
+  let fromRemote = false;
+  for (const key of new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)])) {
+    const [b, l, r] = [base[key], local[key], remote[key]];
+    let merged: unknown;
+    if (same(l, r) || same(b, r)) {
+      merged = l;
+    } else if (same(b, l)) {
+      merged = r;
+      fromRemote = true;
+    } else {
+      keys.push(key);
+      merged = choice === 'remote' ? r : l;
+    }
+    if (merged !== undefined) value[key] = merged;
+  }
+  return { value: value as T, conflict: keys.length > 0, keys, fromRemote };
+}
+
+function formatFieldValue(key: string, value: unknown): string {
+  if (value === undefined) return '—';
+  if (key === 'entries' && Array.isArray(value)) return `${value.length} inscription(s)`;
+  if ((key === 'matchDuration' || key === 'duration') && typeof value === 'object') {
+    const duration = value as { value: number; unit: string };
+    return `${duration.value} ${duration.unit === 'slots' ? 'créneau(x)' : 'min'}`;
+  }
+  if (key === 'restRules' && typeof value === 'object') {
+    const rules = value as { min: number; ideal: number; max: number };
+    return `${rules.min}/${rules.ideal}/${rules.max} min`;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function describeFields(value: Fields | undefined, keys: string[], describeWhole: (value: Fields) => string): string {
+  if (!value) return 'Supprimé';
+  if (keys.length === 0) return describeWhole(value);
+  return keys.map((key) => `${FIELD_LABELS[key] ?? key} : ${formatFieldValue(key, value[key])}`).join(', ');
+}
+
+function describePlacement(sr: ScheduledRound | undefined, settings: TournamentSettings): string {
+  if (!sr) return 'Non placé';
+  const split = sr.groups && sr.groups.length > 0 ? ' (scindé)' : '';
+  return `${formatRowLabel(sr.row, settings)} · T${sr.startCol + 1}${split}`;
+}
+
+// Series fields, rounds are merged separately
+function toSeriesFields(s: Series): Fields {
+  const { rounds: _rounds, ...fields } = s;
+  return fields;
+}
+
+// Round numbers follow the merged order, they are not compared
+function toRoundFields(r: Round): Fields {
+  const { roundNumber: _roundNumber, ...fields } = r;
+  return fields;
+}
+
+function byId<T>(items: T[], getId: (item: T) => string): Map<string, T> {
+  return new Map(items.map((item) => [getId(item), item]));
+}
+
+// Side whose copy gave the merged placement of a round, both when they agree
+type PlacementSide = 'local' | 'remote' | 'both';
+
+// A cell used both by a round placed here and by a round placed in the received file
+function findCrossCollision(
+  schedule: ScheduledRound[],
+  sides: Map<string, PlacementSide>,
+  series: Series[],
+  settings: TournamentSettings,
+  isCellOpen: CellAvailability
+): { localRoundId: string; remoteRoundId: string } | undefined {
+  const cellsOf = (sr: ScheduledRound) =>
+    getScheduledRoundCells(sr, series, settings, isCellOpen).map((p) => `${p.row}-${p.col}`);
+  const localCells = new Map<string, string>();
+  for (const sr of schedule) {
+    if (sides.get(sr.roundId) === 'local') cellsOf(sr).forEach((cell) => localCells.set(cell, sr.roundId));
+  }
+  for (const sr of schedule) {
+    if (sides.get(sr.roundId) !== 'remote') continue;
+    const localRoundId = cellsOf(sr).map((cell) => localCells.get(cell)).find((id) => id !== undefined);
+    if (localRoundId) return { localRoundId, remoteRoundId: sr.roundId };
+  }
+  return undefined;
+}
+
+// Local order first, then the items only known remotely
+function unionIds(local: string[], remote: string[]): string[] {
+  return [...local, ...remote.filter((id) => !local.includes(id))];
+}
+
+export function mergeTournaments(
+  base: { series: Series[]; schedule: ScheduledRound[] },
+  local: MergeInput,
+  remote: MergeInput,
+  settings: TournamentSettings,
+  choices: Record<string, MergeChoice> = {}
+): MergeOutcome {
+  const conflicts: MergeConflict[] = [];
+  let remoteChangeCount = 0;
+
+  const baseSeries = byId(base.series, (s) => s.id);
+  const localSeries = byId(local.series, (s) => s.id);
+  const remoteSeries = byId(remote.series, (s) => s.id);
+  const allRounds = (series: Series[]) => byId(series.flatMap((s) => s.rounds), (r) => r.id);
+  const baseRounds = allRounds(base.series);
+  const localRounds = allRounds(local.series);
+  const remoteRounds = allRounds(remote.series);
+
+  const seriesName = (id: string) =>
+    (localSeries.get(id) ?? remoteSeries.get(id) ?? baseSeries.get(id))?.shortName ?? '?';
+
+  // Rounds, grouped by their merged series
+  const roundsBySeries = new Map<string, Array<{ round: Round; order: number }>>();
+  for (const id of unionIds([...localRounds.keys()], [...remoteRounds.keys()])) {
+    const key = `round:${id}`;
+    const [b, l, r] = [baseRounds.get(id), localRounds.get(id), remoteRounds.get(id)];
+    const result = mergeItem(b && toRoundFields(b), l && toRoundFields(l), r && toRoundFields(r), choices[key] ?? 'local');
+    if (result.fromRemote) remoteChangeCount++;
+    if (result.conflict) {
+      const any = (l ?? r ?? b)!;
+      conflicts.push({
+        key,
+        kind: 'round',
+        label: `${seriesName(any.seriesId)} ${any.label}`,
+        local: describeFields(l && toRoundFields(l), result.keys, (v) => `${v.label}, ${v.matchCount} matchs`),
+        remote: describeFields(r && toRoundFields(r), result.keys, (v) => `${v.label}, ${v.matchCount} matchs`),
+      });
+    }
+    if (!result.value) continue;
+
+    const round = result.value as unknown as Round;
+    // Local rounds keep their place, remote additions go after the local round of the same number
+    const order = l ? l.roundNumber : (r?.roundNumber ?? 0) + 0.5;
+    const list = roundsBySeries.get(round.seriesId) ?? [];
+    list.push({ round, order });
+    roundsBySeries.set(round.seriesId, list);
+  }
+
+  const series: Series[] = [];
+  for (const id of unionIds([...localSeries.keys()], [...remoteSeries.keys()])) {
+    const key = `series:${id}`;
+    const [b, l, r] = [baseSeries.get(id), localSeries.get(id), remoteSeries.get(id)];
+    const result = mergeItem(b && toSeriesFields(b), l && toSeriesFields(l), r && toSeriesFields(r), choices[key] ?? 'local');
+    if (result.fromRemote) remoteChangeCount++;
+    if (result.conflict) {
+      conflicts.push({
+        key,
+        kind: 'series',
+        label: seriesName(id),
+        local: describeFields(l && toSeriesFields(l), result.keys, (v) => `${v.name}`),
+        remote: describeFields(r && toSeriesFields(r), result.keys, (v) => `${v.name}`),
+      });
+    }
+    if (!result.value) continue;
+
+    const rounds = (roundsBySeries.get(id) ?? [])
+      .sort((a, b) => a.order - b.order)
+      .map(({ round }, index) => ({ ...round, roundNumber: index + 1 }));
+    series.push({ ...(result.value as unknown as Omit<Series, 'rounds'>), rounds });
+  }
+
+  // Placements of the rounds still in the tournament
+  const mergedRoundIds = new Set(series.flatMap((s) => s.rounds.map((r) => r.id)));
+  const basePlacements = byId(base.schedule, (sr) => sr.roundId);
+  const localPlacements = byId(local.schedule, (sr) => sr.roundId);
+  const remotePlacements = byId(remote.schedule, (sr) => sr.roundId);
+  const roundName = (roundId: string) => {
+    const round = series.flatMap((s) => s.rounds).find((rd) => rd.id === roundId)!;
+    return `${seriesName(round.seriesId)} ${round.label}`;
+  };
+  const sides = new Map<string, PlacementSide>();
+  const takenFromRemote = new Set<string>();
+  let schedule: ScheduledRound[] = [];
+  for (const roundId of unionIds([...localPlacements.keys()], [...remotePlacements.keys()])) {
+    if (!mergedRoundIds.has(roundId)) continue;
+    const key = `placement:${roundId}`;
+    const [b, l, r] = [basePlacements.get(roundId), localPlacements.get(roundId), remotePlacements.get(roundId)];
+    // Wrapped as a single field: a row from one side and a court from the other make no sense
+    const wrap = (sr?: ScheduledRound) => (sr ? { placement: sr } : undefined);
+    const result = mergeItem(wrap(b), wrap(l), wrap(r), choices[key] ?? 'local');
+    if (result.fromRemote) {
+      remoteChangeCount++;
+      takenFromRemote.add(roundId);
+    }
+    if (result.conflict) {
+      conflicts.push({
+        key,
+        kind: 'placement',
+        label: roundName(roundId),
+        local: describePlacement(l, settings),
+        remote: describePlacement(r, settings),
+      });
+    }
+    if (!result.value) continue;
+    schedule.push(result.value.placement);
+    sides.set(roundId, same(l, r) ? 'both' : same(result.value.placement, l) ? 'local' : 'remote');
+  }
+
+  // Rounds moved onto the same cell by each side: the round placed by the kept side
+  // stays, the other one goes back to its placement in the kept copy. A round gets
+  // its remote placement once at most, so that the loop ends.
+  const isCellOpen = createCellAvailability(settings);
+  const revertedRoundIds = new Set<string>();
+  for (
+    let collision = findCrossCollision(schedule, sides, series, settings, isCellOpen);
+    collision;
+    collision = findCrossCollision(schedule, sides, series, settings, isCellOpen)
+  ) {
+    const { localRoundId, remoteRoundId } = collision;
+    const key = `overlap:${localRoundId}:${remoteRoundId}`;
+    if (!conflicts.some((c) => c.key === key)) {
+      const describeSide = (placements: Map<string, ScheduledRound>) =>
+        [localRoundId, remoteRoundId]
+          .map((id) => `${roundName(id)} : ${describePlacement(placements.get(id), settings)}`)
+          .join(', ');
+      conflicts.push({
+        key,
+        kind: 'overlap',
+        label: `${roundName(localRoundId)} / ${roundName(remoteRoundId)}`,
+        local: describeSide(localPlacements),
+        remote: describeSide(remotePlacements),
+      });
+    }
+
+    const keepRemote = (choices[key] ?? 'local') === 'remote' && !revertedRoundIds.has(localRoundId);
+    const [roundId, side] = keepRemote ? [localRoundId, 'remote' as const] : [remoteRoundId, 'local' as const];
+    const placement = (side === 'local' ? localPlacements : remotePlacements).get(roundId);
+    revertedRoundIds.add(roundId);
+    sides.set(roundId, side);
+    if (side === 'local' && takenFromRemote.delete(roundId)) remoteChangeCount--;
+    schedule = schedule.filter((sr) => sr.roundId !== roundId);
+    if (placement) schedule.push(placement);
+  }
+
+  const localPlayerIds = new Set(local.players.map((p) => p.id));
+  const players = [...local.players, ...remote.players.filter((p) => !localPlayerIds.has(p.id))];
+
+  return { series, players, schedule, conflicts, remoteChangeCount };
+}
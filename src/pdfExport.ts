@@ -0,0 +1,416 @@
+// Print-ready PDF export, generated in the browser
+//
+// Sections: the grid of each day, one page per series (same data as the series
+// table) and the schedule listed by time slot (same layout as the vertical view).
+
+import { jsPDF } from 'jspdf';
+import {
+  Series,
+  ScheduledRound,
+  TournamentSettings,
+  createCellAvailability,
+  formatDuration,
+  formatRowLabel,
+  formatRowTime,
+  getBlockedWindow,
+  getContrastColor,
+  getDayRowRanges,
+  getRestRules,
+} from './types';
+import {
+  OccupiedCell,
+  RestCategory,
+  describeRestCategory,
+  formatMatchGroups,
+  getOccupiedCells,
+  getRestCategory,
+  getSeriesTableData,
+} from './scheduleData';
+
+export type PdfPageSize = 'a4' | 'a3' | 'letter';
+export type PdfOrientation = 'portrait' | 'landscape';
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  seriesColors: boolean; // Fill cells with the series colors, plain outlines otherwise
+  sections: {
+    grid: boolean;
+    series: boolean;
+    vertical: boolean;
+  };
+}
+
+type Rgb = [number, number, number];
+
+type TableCell = {
+  text: string;
+  fill?: Rgb;
+  color?: Rgb;
+  bold?: boolean;
+};
+
+const MARGIN = 10;
+const HEADER_HEIGHT = 12;
+const FOOTER_HEIGHT = 8;
+const LINE_HEIGHT = 7;
+
+const BLACK: Rgb = [0, 0, 0];
+const WHITE: Rgb = [255, 255, 255];
+const HEADER_FILL: Rgb = [31, 41, 55]; // gray-800, like the grid header
+const CLOSED_FILL: Rgb = [229, 231, 235];
+const BORDER: Rgb = [209, 213, 219];
+
+const REST_FILLS: Record<RestCategory, Rgb | undefined> = {
+  none: undefined,
+  'too-short': [239, 68, 68],
+  short: [250, 204, 21],
+  ideal: [34, 197, 94],
+  'too-long': [249, 115, 22],
+};
+
+const REST_LEGEND: RestCategory[] = ['ideal', 'short', 'too-short', 'too-long'];
+
+// Series colors are either generated "hsl(h, s%, l%)" or picked "#RRGGBB"
+export function parseColor(color: string): Rgb {
+  const hsl = color.match(/hsl\(\s*([\d.]+),\s*([\d.]+)%,\s*([\d.]+)%\)/);
+  if (hsl) {
+    const h = parseFloat(hsl[1]) / 360;
+    const s = parseFloat(hsl[2]) / 100;
+    const l = parseFloat(hsl[3]) / 100;
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    const channel = (t: number) => {
+      const k = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+      if (k < 1 / 6) return p + (q - p) * 6 * k;
+      if (k < 1 / 2) return q;
+      if (k < 2 / 3) return p + (q - p) * (2 / 3 - k) * 6;
+      return p;
+    };
+    return [channel(h + 1 / 3), channel(h), channel(h - 1 / 3)].map((v) => Math.round(v * 255)) as Rgb;
+  }
+
+  const hex = color.trim().match(/^#([0-9a-fA-F]{6})$/);
+  if (hex) {
+    const value = hex[1];
+    return [0, 2, 4].map((i) => parseInt(value.slice(i, i + 2), 16)) as Rgb;
+  }
+
+  return [156, 163, 175];
+}
+
+class PdfWriter {
+  readonly doc: jsPDF;
+  readonly width: number;
+  readonly height: number;
+  private hasContent = false;
+
+  constructor(options: PdfExportOptions, private readonly title: string) {
+    this.doc = new jsPDF({ orientation: options.orientation, unit: 'mm', format: options.pageSize });
+    this.width = this.doc.internal.pageSize.getWidth();
+    this.height = this.doc.internal.pageSize.getHeight();
+  }
+
+  get contentTop(): number {
+    return MARGIN + HEADER_HEIGHT;
+  }
+
+  get contentBottom(): number {
+    return this.height - MARGIN - FOOTER_HEIGHT;
+  }
+
+  get contentWidth(): number {
+    return this.width - 2 * MARGIN;
+  }
+
+  // Start a page with its section title, returns the first usable y
+  newPage(sectionTitle: string): number {
+    if (this.hasContent) this.doc.addPage();
+    this.hasContent = true;
+
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(14);
+    this.doc.setTextColor(...BLACK);
+    this.doc.text(sectionTitle, MARGIN, MARGIN + 6);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(9);
+    this.doc.text(this.title, this.width - MARGIN, MARGIN + 6, { align: 'right' });
+    return this.contentTop;
+  }
+
+  cell(x: number, y: number, w: number, h: number, cell: TableCell, align: 'left' | 'center' = 'left'): void {
+    if (cell.fill) {
+      this.doc.setFillColor(...cell.fill);
+      this.doc.rect(x, y, w, h, 'F');
+    }
+    this.doc.setDrawColor(...BORDER);
+    this.doc.rect(x, y, w, h, 'S');
+
+    if (!cell.text) return;
+    this.doc.setFont('helvetica', cell.bold ? 'bold' : 'normal');
+    this.doc.setTextColor(...(cell.color ?? BLACK));
+    const lines = this.doc.splitTextToSize(cell.text, Math.max(w - 2, 1)) as string[];
+    const lineHeight = this.doc.getFontSize() * 0.4;
+    const maxLines = Math.max(1, Math.floor((h - 1) / lineHeight));
+    const shown = lines.slice(0, maxLines);
+    const top = y + h / 2 - ((shown.length - 1) * lineHeight) / 2;
+    this.doc.text(shown, align === 'center' ? x + w / 2 : x + 1.5, top, {
+      align,
+      baseline: 'middle',
+      lineHeightFactor: 1.15,
+    });
+  }
+
+  row(x: number, y: number, widths: number[], cells: TableCell[], h = LINE_HEIGHT, align: 'left' | 'center' = 'left'): void {
+    let cursor = x;
+    widths.forEach((w, i) => {
+      this.cell(cursor, y, w, h, cells[i] ?? { text: '' }, align);
+      cursor += w;
+    });
+  }
+
+  // Page numbers, once every page has been written
+  finish(): jsPDF {
+    const pageCount = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(107, 114, 128);
+      this.doc.text(`${page} / ${pageCount}`, this.width / 2, this.height - MARGIN, { align: 'center' });
+    }
+    return this.doc;
+  }
+}
+
+function seriesCell(series: Series, text: string, options: PdfExportOptions, bold = false): TableCell {
+  if (!options.seriesColors) return { text, bold };
+  return { text, bold, fill: parseColor(series.color), color: parseColor(getContrastColor(series.color)) };
+}
+
+function writeGridPages(
+  pdf: PdfWriter,
+  settings: TournamentSettings,
+  cells: Map<string, OccupiedCell>,
+  options: PdfExportOptions
+): void {
+  const isCellOpen = createCellAvailability(settings);
+  const ranges = getDayRowRanges(settings);
+  const timeWidth = 16;
+  const headerRow = 7;
+
+  for (const range of ranges) {
+    const courtCount = Math.min(range.day.courtCount, settings.courtCount);
+    const courtWidth = (pdf.contentWidth - timeWidth) / courtCount;
+    const available = pdf.contentBottom - pdf.contentTop - headerRow;
+    const rowsPerPage = Math.max(1, Math.floor(available / LINE_HEIGHT));
+    const rowHeight = Math.min(12, available / Math.min(range.rowCount, rowsPerPage));
+    const widths = [timeWidth, ...Array.from({ length: courtCount }, () => courtWidth)];
+    const title = ranges.length > 1 ? `Grille horaire - ${range.day.label}` : 'Grille horaire';
+
+    for (let pageStart = 0; pageStart < range.rowCount; pageStart += rowsPerPage) {
+      let y = pdf.newPage(pageStart === 0 ? title : `${title} (suite)`);
+
+      pdf.doc.setFontSize(8);
+      pdf.row(
+        MARGIN,
+        y,
+        widths,
+        [
+          { text: 'Heure', fill: HEADER_FILL, color: WHITE, bold: true },
+          ...Array.from({ length: courtCount }, (_, col) => ({
+            text: `Terrain ${col + 1}`,
+            fill: HEADER_FILL,
+            color: WHITE,
+            bold: true,
+          })),
+        ],
+        headerRow,
+        'center'
+      );
+      y += headerRow;
+
+      const pageEnd = Math.min(range.rowCount, pageStart + rowsPerPage);
+      for (let offset = pageStart; offset < pageEnd; offset++) {
+        const row = range.firstRow + offset;
+        const rowCells: TableCell[] = [{ text: formatRowTime(row, settings), bold: true }];
+
+        for (let col = 0; col < courtCount; col++) {
+          const occupied = cells.get(`${row}-${col}`);
+          if (!isCellOpen(row, col)) {
+            rowCells.push({ text: getBlockedWindow(row, col, settings)?.label ?? '', fill: CLOSED_FILL, color: [107, 114, 128] });
+          } else if (occupied) {
+            const text = occupied.isRoundStart ? `${occupied.series.shortName} ${occupied.round.label}` : '';
+            rowCells.push(seriesCell(occupied.series, text, options, true));
+          } else {
+            rowCells.push({ text: '' });
+          }
+        }
+
+        pdf.doc.setFontSize(rowHeight < 8 ? 6 : 7);
+        pdf.row(MARGIN, y, widths, rowCells, rowHeight, 'center');
+        y += rowHeight;
+      }
+    }
+  }
+}
+
+function writeSeriesPages(
+  pdf: PdfWriter,
+  series: Series[],
+  schedule: ScheduledRound[],
+  settings: TournamentSettings,
+  options: PdfExportOptions
+): void {
+  const widths = [0.3, 0.15, 0.15, 0.25, 0.15].map((ratio) => ratio * pdf.contentWidth);
+
+  for (const { series: s, rounds, totalMatches } of getSeriesTableData(series, schedule, settings)) {
+    const restRules = getRestRules(s, settings);
+    let y = pdf.newPage(`Série ${s.shortName}`);
+
+    pdf.doc.setFontSize(11);
+    pdf.cell(MARGIN, y, pdf.contentWidth, 9, seriesCell(s, `${s.shortName} - ${s.name}`, options, true));
+    y += 12;
+
+    pdf.doc.setFontSize(9);
+    pdf.row(
+      MARGIN,
+      y,
+      widths,
+      ['Tour', 'Matchs', 'Durée', 'Horaire', 'Repos'].map((text) => ({
+        text,
+        fill: HEADER_FILL,
+        color: WHITE,
+        bold: true,
+      }))
+    );
+    y += LINE_HEIGHT;
+
+    for (const item of rounds) {
+      if (y + LINE_HEIGHT > pdf.contentBottom) {
+        y = pdf.newPage(`Série ${s.shortName} (suite)`);
+      }
+      const category = getRestCategory(item.gapMinutes, restRules);
+      pdf.row(MARGIN, y, widths, [
+        { text: item.round.label, bold: true },
+        { text: String(item.round.matchCount) },
+        { text: formatDuration(item.matchMinutes) },
+        {
+          text: item.time
+            ? [item.time, formatMatchGroups(item.groups, settings)].filter(Boolean).join(' ')
+            : 'Non placé',
+          color: item.time ? BLACK : [156, 163, 175],
+        },
+        {
+          text: item.gapMinutes !== null ? formatDuration(item.gapMinutes) : '',
+          fill: options.seriesColors ? REST_FILLS[category] : undefined,
+          color: options.seriesColors && category !== 'none' && category !== 'short' ? WHITE : BLACK,
+        },
+      ]);
+      y += LINE_HEIGHT;
+    }
+
+    y += 4;
+    pdf.doc.setFont('helvetica', 'bold');
+    pdf.doc.setTextColor(...BLACK);
+    pdf.doc.text(`Total : ${totalMatches} match${totalMatches > 1 ? 's' : ''}`, MARGIN, y + 3);
+
+    // Rest legend
+    if (options.seriesColors && y + 12 < pdf.contentBottom) {
+      y += 8;
+      pdf.doc.setFontSize(8);
+      let x = MARGIN;
+      for (const category of REST_LEGEND) {
+        const label = `${describeRestCategory(category, restRules)} de repos`;
+        pdf.doc.setFillColor(...REST_FILLS[category]!);
+        pdf.doc.rect(x, y, 4, 4, 'F');
+        pdf.doc.setFont('helvetica', 'normal');
+        pdf.doc.setTextColor(...BLACK);
+        pdf.doc.text(label, x + 5.5, y + 3);
+        x += pdf.doc.getTextWidth(label) + 12;
+      }
+    }
+  }
+}
+
+function writeVerticalPages(
+  pdf: PdfWriter,
+  settings: TournamentSettings,
+  cells: Map<string, OccupiedCell>,
+  options: PdfExportOptions
+): void {
+  const isCellOpen = createCellAvailability(settings);
+  const activeRows = Array.from(new Set(Array.from(cells.values()).map((c) => c.row))).sort((a, b) => a - b);
+  if (activeRows.length === 0) return;
+
+  const widths = [0.12, 0.2, 0.43, 0.25].map((ratio) => ratio * pdf.contentWidth);
+  let y = pdf.newPage('Échéancier par créneau');
+
+  for (const row of activeRows) {
+    const cols = Array.from({ length: settings.courtCount }, (_, col) => col).filter((col) => isCellOpen(row, col));
+    const blockHeight = (cols.length + 2) * LINE_HEIGHT;
+
+    // Keep a time slot on a single page when it fits on one
+    if (y + blockHeight > pdf.contentBottom && y > pdf.contentTop) {
+      y = pdf.newPage('Échéancier par créneau (suite)');
+    }
+
+    pdf.doc.setFontSize(9);
+    pdf.cell(MARGIN, y, pdf.contentWidth, LINE_HEIGHT, {
+      text: `${formatRowLabel(row, settings)} (${settings.timeSlotDuration} min)`,
+      fill: [51, 65, 85],
+      color: WHITE,
+      bold: true,
+    }, 'center');
+    y += LINE_HEIGHT;
+
+    pdf.row(
+      MARGIN,
+      y,
+      widths,
+      ['Terrain', 'Série', 'Tour', 'Match'].map((text) => ({ text, fill: [241, 245, 249], bold: true }))
+    );
+    y += LINE_HEIGHT;
+
+    for (const col of cols) {
+      if (y + LINE_HEIGHT > pdf.contentBottom) {
+        y = pdf.newPage('Échéancier par créneau (suite)');
+      }
+      const cell = cells.get(`${row}-${col}`);
+      const match = cell
+        ? `M${cell.matchIndex + 1}/${cell.round.matchCount}${cell.isContinuation ? ' (suite)' : ''}`
+        : '---';
+      pdf.row(MARGIN, y, widths, [
+        { text: String(col + 1), bold: true },
+        cell ? seriesCell(cell.series, cell.series.shortName, options, true) : { text: '---' },
+        { text: cell ? cell.round.label : '---' },
+        { text: match },
+      ]);
+      y += LINE_HEIGHT;
+    }
+
+    y += 4;
+  }
+}
+
+export function createSchedulePdf(
+  data: { settings: TournamentSettings; series: Series[]; schedule: ScheduledRound[] },
+  options: PdfExportOptions
+): jsPDF {
+  const { settings, series, schedule } = data;
+  const pdf = new PdfWriter(options, `Échéancier du tournoi - ${new Date().toLocaleDateString('fr-FR')}`);
+  const cells = getOccupiedCells(series, schedule, settings);
+
+  if (options.sections.grid) writeGridPages(pdf, settings, cells, options);
+  if (options.sections.series) writeSeriesPages(pdf, series, schedule, settings, options);
+  if (options.sections.vertical) writeVerticalPages(pdf, settings, cells, options);
+
+  return pdf.finish();
+}
+
+export function exportSchedulePdf(
+  data: { settings: TournamentSettings; series: Series[]; schedule: ScheduledRound[] },
+  options: PdfExportOptions
+): void {
+  createSchedulePdf(data, options).save(`echeancier-tournoi-${new Date().toISOString().slice(0, 10)}.pdf`);
+}
@@ -0,0 +1,55 @@
+// Local peer mode: organizers on the same network send their tournament files
+// through the relay of scripts/peer-relay.js, each received file is merged as
+// an imported one. Nothing leaves the network and nothing is sent automatically.
+
+export const DEFAULT_PEER_URL = 'ws://localhost:8787';
+
+interface PeerMessage {
+  type: 'tournament';
+  from: string; // Name of the organizer who sent the file
+  file: unknown; // See TournamentFile in tournamentFile.ts
+}
+
+export interface PeerHandlers {
+  onOpen: () => void;
+  onClose: () => void;
+  onFile: (from: string, file: unknown) => void;
+}
+
+export interface PeerConnection {
+  send: (file: unknown) => void;
+  close: () => void;
+}
+
+function isPeerMessage(value: unknown): value is PeerMessage {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as PeerMessage).type === 'tournament' &&
+    typeof (value as PeerMessage).from === 'string'
+  );
+}
+
+export function connectPeer(url: string, name: string, handlers: PeerHandlers): PeerConnection {
+  const socket = new WebSocket(url);
+
+  socket.addEventListener('open', handlers.onOpen);
+  // Also called when the relay cannot be reached
+  socket.addEventListener('close', handlers.onClose);
+  socket.addEventListener('message', (event) => {
+    try {
+      const message: unknown = JSON.parse(String(event.data));
+      if (isPeerMessage(message)) handlers.onFile(message.from, message.file);
+    } catch {
+      // Not a message of the app, ignored
+    }
+  });
+
+  return {
+    send: (file) => {
+      const message: PeerMessage = { type: 'tournament', from: name, file };
+      socket.send(JSON.stringify(message));
+    },
+    close: () => socket.close(),
+  };
+}
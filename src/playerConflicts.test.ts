@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { findPlayerConflicts } from './playerConflicts';
+import { Player, ScheduledRound, Series, TournamentSettings } from './types';
+
+const settings: TournamentSettings = {
+  courtCount: 2,
+  timeSlotDuration: 30,
+  startTime: '09:00',
+  endTime: '21:00',
+};
+
+const players: Player[] = [{ id: 'p1', name: 'Jean Dupont' }];
+
+const makeSeries = (id: string, matchCount: number): Series => ({
+  id,
+  name: `Série ${id}`,
+  shortName: id.toUpperCase(),
+  color: '#3b82f6',
+  rounds: [{ id: `${id}1`, seriesId: id, roundNumber: 1, matchCount, label: 'Tour 1' }],
+  entries: [{ id: `${id}-e1`, playerIds: ['p1'] }],
+});
+
+const series = [makeSeries('a', 2), makeSeries('b', 1)];
+
+const kinds = (schedule: ScheduledRound[]) =>
+  findPlayerConflicts(series, players, schedule, settings).map((c) => `${c.kind} ${c.roundIds.join(',')}`);
+
+describe('findPlayerConflicts', () => {
+  it('leaves the rows between the match groups of a split round free', () => {
+    const a1 = { roundId: 'a1', row: 4, startCol: 0, groups: [{ row: 20, startCol: 0, matchCount: 1 }] };
+    expect(kinds([a1, { roundId: 'b1', row: 12, startCol: 0 }])).toEqual([]);
+  });
+
+  it('compares each match group of a split round', () => {
+    const a1 = { roundId: 'a1', row: 4, startCol: 0, groups: [{ row: 20, startCol: 0, matchCount: 1 }] };
+    expect(kinds([a1, { roundId: 'b1', row: 20, startCol: 1 }])).toEqual(['overlap a1,b1']);
+    expect(kinds([a1, { roundId: 'b1', row: 5, startCol: 0 }])).toEqual(['back-to-back a1,b1']);
+  });
+});
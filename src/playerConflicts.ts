@@ -0,0 +1,104 @@
+// Player conflict engine
+//
+// The draw is not known while scheduling, so every player entered in a series
+// may be called in any match of any round of that series. Two scheduled rounds
+// of different series conflict when they share a player and their rows overlap
+// or follow each other directly.
+
+import {
+  Player,
+  Series,
+  ScheduledRound,
+  TournamentSettings,
+  getScheduledRoundPositions,
+  getRowSlot,
+  createCellAvailability,
+} from './types';
+
+export type PlayerConflictKind = 'overlap' | 'back-to-back';
+
+export interface PlayerConflict {
+  player: Player;
+  kind: PlayerConflictKind;
+  roundIds: [string, string];
+}
+
+// Overlap when both rounds use a row, back-to-back when a row of one directly
+// follows a row of the other: the last slot of a day and the first slot of the
+// next are not back-to-back
+function compareRows(a: Set<number>, b: Set<number>, settings: TournamentSettings): PlayerConflictKind | null {
+  if ([...a].some((row) => b.has(row))) return 'overlap';
+  const follows = (earlier: Set<number>, later: Set<number>) =>
+    [...earlier].some(
+      (row) => later.has(row + 1) && getRowSlot(row, settings).dayIndex === getRowSlot(row + 1, settings).dayIndex
+    );
+  return follows(a, b) || follows(b, a) ? 'back-to-back' : null;
+}
+
+// Player IDs entered in a series
+export function getSeriesPlayerIds(series: Series): Set<string> {
+  return new Set((series.entries ?? []).flatMap((entry) => entry.playerIds));
+}
+
+export function findPlayerConflicts(
+  series: Series[],
+  players: Player[],
+  schedule: ScheduledRound[],
+  settings: TournamentSettings
+): PlayerConflict[] {
+  const playerById = new Map(players.map((p) => [p.id, p]));
+  const roundLookup = new Map(
+    series.flatMap((s) => s.rounds.map((r) => [r.id, { round: r, series: s }] as const))
+  );
+  const playersBySeries = new Map(series.map((s) => [s.id, getSeriesPlayerIds(s)]));
+  const isCellOpen = createCellAvailability(settings);
+
+  // Rows used by each scheduled round, the rows between the match groups of a split round are free
+  const placed = schedule.flatMap((sr) => {
+    const info = roundLookup.get(sr.roundId);
+    if (!info) return [];
+    const rows = new Set(getScheduledRoundPositions(sr, info.round, info.series, settings, isCellOpen).map((p) => p.row));
+    return [{ roundId: sr.roundId, seriesId: info.series.id, rows }];
+  });
+
+  const conflicts: PlayerConflict[] = [];
+
+  for (let i = 0; i < placed.length; i++) {
+    for (let j = i + 1; j < placed.length; j++) {
+      const a = placed[i];
+      const b = placed[j];
+      if (a.seriesId === b.seriesId) continue;
+
+      const kind = compareRows(a.rows, b.rows, settings);
+      if (!kind) continue;
+
+      const bPlayers = playersBySeries.get(b.seriesId)!;
+
+      for (const playerId of playersBySeries.get(a.seriesId)!) {
+        const player = playerById.get(playerId);
+        if (player && bPlayers.has(playerId)) {
+          conflicts.push({ player, kind, roundIds: [a.roundId, b.roundId] });
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+// Conflicts grouped by each round they involve
+export function groupConflictsByRound(conflicts: PlayerConflict[]): Map<string, PlayerConflict[]> {
+  const byRound = new Map<string, PlayerConflict[]>();
+  for (const conflict of conflicts) {
+    for (const roundId of conflict.roundIds) {
+      byRound.set(roundId, [...(byRound.get(roundId) ?? []), conflict]);
+    }
+  }
+  return byRound;
+}
+
+export function describeConflict(conflict: PlayerConflict): string {
+  return conflict.kind === 'overlap'
+    ? `${conflict.player.name} : deux tours sur le même créneau`
+    : `${conflict.player.name} : tours sur deux créneaux consécutifs`;
+}
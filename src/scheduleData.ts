@@ -0,0 +1,324 @@
+// Derived schedule data shared by the views and the exports
+
+import {
+  Series,
+  Round,
+  RestRules,
+  ScheduledRound,
+  TournamentSettings,
+  CellAvailability,
+  MatchGroup,
+  createCellAvailability,
+  formatDuration,
+  formatRowLabel,
+  getMatchSlotSpan,
+  getScheduledRoundPositions,
+  getRoundTiming,
+  offsetCell,
+  getRowSlot,
+  getTournamentDays,
+} from './types';
+
+// A grid cell used by a scheduled match
+export interface OccupiedCell {
+  row: number;
+  col: number;
+  round: Round;
+  series: Series;
+  matchIndex: number; // 0-indexed
+  group: number; // Match group of a split round, 0 for the first matches
+  isRoundStart: boolean; // First cell of the round or of one of its match groups
+  isContinuation: boolean; // Later slot of a match lasting several slots
+  durationMinutes: number; // Duration of the match
+}
+
+// One match of a scheduled round, with the court and time it starts on
+export interface ScheduledMatch {
+  row: number;
+  dayIndex: number;
+  dayLabel: string;
+  startMinutes: number; // Minutes from midnight
+  endMinutes: number;
+  court: number; // 1-indexed, as displayed
+  series: Series;
+  round: Round;
+  matchIndex: number; // 1-indexed, as displayed
+}
+
+export interface SeriesTableRound {
+  round: Round;
+  matchMinutes: number;
+  scheduled: boolean;
+  row: number | null;
+  col: number | null;
+  time: string | null;
+  timeMinutes: number | null;
+  endMinutes: number | null;
+  dayIndex: number | null;
+  lastDayIndex: number | null;
+  gapMinutes: number | null; // Rest since the end of the previous round
+  groups: MatchGroup[]; // Matches placed apart when the round is split
+}
+
+export interface SeriesTableData {
+  series: Series;
+  rounds: SeriesTableRound[];
+  totalMatches: number;
+}
+
+export type RestCategory = 'none' | 'too-short' | 'short' | 'ideal' | 'too-long';
+
+// Cells used by every scheduled round, keyed by "row-col"
+export function getOccupiedCells(
+  series: Series[],
+  schedule: ScheduledRound[],
+  settings: TournamentSettings,
+  isCellOpen: CellAvailability = createCellAvailability(settings)
+): Map<string, OccupiedCell> {
+  const roundLookup = new Map(
+    series.flatMap((s) => s.rounds.map((r) => [r.id, { round: r, series: s }] as const))
+  );
+  const cells = new Map<string, OccupiedCell>();
+
+  for (const scheduledRound of schedule) {
+    const info = roundLookup.get(scheduledRound.roundId);
+    if (!info) continue;
+
+    const span = getMatchSlotSpan(info.round, info.series, settings.timeSlotDuration);
+    const positions = getScheduledRoundPositions(scheduledRound, info.round, info.series, settings, isCellOpen);
+
+    positions.forEach((pos, idx) => {
+      cells.set(`${pos.row}-${pos.col}`, {
+        row: pos.row,
+        col: pos.col,
+        round: info.round,
+        series: info.series,
+        matchIndex: pos.matchIndex,
+        group: pos.group,
+        isRoundStart: idx === 0 || positions[idx - 1].group !== pos.group,
+        isContinuation: idx > 0 && positions[idx - 1].matchIndex === pos.matchIndex,
+        durationMinutes: span * settings.timeSlotDuration,
+      });
+    });
+  }
+
+  return cells;
+}
+
+// Cells occupied by a scheduled round, matches lasting several slots included
+export function getScheduledRoundCells(
+  sr: ScheduledRound,
+  series: Series[],
+  settings: TournamentSettings,
+  isCellOpen: CellAvailability
+): Array<{ row: number; col: number }> {
+  for (const s of series) {
+    const r = s.rounds.find((r) => r.id === sr.roundId);
+    if (r) return getScheduledRoundPositions(sr, r, s, settings, isCellOpen);
+  }
+  return [{ row: sr.row, col: sr.startCol }];
+}
+
+// Move a scheduled round by a number of open cells, with the match groups of a split round
+export function offsetScheduledRound(
+  sr: ScheduledRound,
+  delta: number,
+  courtCount: number,
+  isCellOpen: CellAvailability
+): ScheduledRound {
+  const start = offsetCell(sr.row, sr.startCol, delta, courtCount, isCellOpen);
+  const moved: ScheduledRound = { ...sr, row: start.row, startCol: start.col };
+  if (sr.groups) {
+    moved.groups = sr.groups.map((g) => {
+      const next = offsetCell(g.row, g.startCol, delta, courtCount, isCellOpen);
+      return { ...g, row: next.row, startCol: next.col };
+    });
+  }
+  return moved;
+}
+
+// Move a scheduled round by rows and courts, with the match groups of a split round
+export function translateScheduledRound(sr: ScheduledRound, rowDelta: number, colDelta: number): ScheduledRound {
+  const moved: ScheduledRound = { ...sr, row: sr.row + rowDelta, startCol: sr.startCol + colDelta };
+  if (sr.groups) {
+    moved.groups = sr.groups.map((g) => ({ ...g, row: g.row + rowDelta, startCol: g.startCol + colDelta }));
+  }
+  return moved;
+}
+
+// Place rounds in order, moving each one forward by open cells until it no longer
+// overlaps the rounds already placed (needed when matches last several slots)
+export function resolveOverlaps(
+  placed: ScheduledRound[],
+  toPlace: ScheduledRound[],
+  series: Series[],
+  settings: TournamentSettings,
+  isCellOpen: CellAvailability
+): ScheduledRound[] {
+  const occupied = new Set(
+    placed.flatMap((sr) => getScheduledRoundCells(sr, series, settings, isCellOpen).map((p) => `${p.row}-${p.col}`))
+  );
+  const result: ScheduledRound[] = [];
+
+  for (const sr of toPlace) {
+    let candidate = sr;
+    let cells = getScheduledRoundCells(candidate, series, settings, isCellOpen);
+    let guard = settings.courtCount * 1000;
+
+    while (cells.some((p) => occupied.has(`${p.row}-${p.col}`)) && guard-- > 0) {
+      candidate = offsetScheduledRound(candidate, 1, settings.courtCount, isCellOpen);
+      cells = getScheduledRoundCells(candidate, series, settings, isCellOpen);
+    }
+
+    cells.forEach((p) => occupied.add(`${p.row}-${p.col}`));
+    result.push(candidate);
+  }
+
+  return result;
+}
+
+// Every scheduled match, by start time then court
+export function getScheduledMatches(
+  series: Series[],
+  schedule: ScheduledRound[],
+  settings: TournamentSettings
+): ScheduledMatch[] {
+  const isCellOpen = createCellAvailability(settings);
+  const days = getTournamentDays(settings);
+  const roundLookup = new Map(
+    series.flatMap((s) => s.rounds.map((r) => [r.id, { round: r, series: s }] as const))
+  );
+  const matches: ScheduledMatch[] = [];
+
+  for (const scheduledRound of schedule) {
+    const info = roundLookup.get(scheduledRound.roundId);
+    if (!info) continue;
+
+    const span = getMatchSlotSpan(info.round, info.series, settings.timeSlotDuration);
+    const positions = getScheduledRoundPositions(scheduledRound, info.round, info.series, settings, isCellOpen);
+
+    positions.forEach((pos, idx) => {
+      if (idx > 0 && positions[idx - 1].matchIndex === pos.matchIndex) return;
+      const slot = getRowSlot(pos.row, settings);
+      matches.push({
+        row: pos.row,
+        dayIndex: slot.dayIndex,
+        dayLabel: days[slot.dayIndex]?.label ?? '',
+        startMinutes: slot.minutes,
+        endMinutes: slot.minutes + span * settings.timeSlotDuration,
+        court: pos.col + 1,
+        series: info.series,
+        round: info.round,
+        matchIndex: pos.matchIndex + 1,
+      });
+    });
+  }
+
+  return matches.sort((a, b) => a.row - b.row || a.court - b.court);
+}
+
+// Rounds of each series in time order, with the rest between consecutive rounds
+export function getSeriesTableData(
+  series: Series[],
+  schedule: ScheduledRound[],
+  settings: TournamentSettings
+): SeriesTableData[] {
+  const isCellOpen = createCellAvailability(settings);
+
+  return series.map((s) => {
+    const roundsWithSchedule = s.rounds.map((round) => {
+      const matchMinutes = getMatchSlotSpan(round, s, settings.timeSlotDuration) * settings.timeSlotDuration;
+      const scheduled = schedule.find((sr) => sr.roundId === round.id);
+      if (scheduled) {
+        const timing = getRoundTiming(scheduled, round, s, settings, isCellOpen);
+        return {
+          round,
+          matchMinutes,
+          scheduled: true,
+          row: scheduled.row,
+          col: scheduled.startCol,
+          time: formatRowLabel(timing.firstRow, settings),
+          timeMinutes: timing.startMinutes,
+          endMinutes: timing.endMinutes,
+          dayIndex: timing.dayIndex,
+          lastDayIndex: timing.lastDayIndex,
+          groups: scheduled.groups ?? [],
+        };
+      }
+      return {
+        round,
+        matchMinutes,
+        scheduled: false,
+        row: null,
+        col: null,
+        time: null,
+        timeMinutes: null,
+        endMinutes: null,
+        dayIndex: null,
+        lastDayIndex: null,
+        groups: [],
+      };
+    });
+
+    // Sort by time (scheduled rounds first, then by time)
+    const sortedRounds = [...roundsWithSchedule].sort((a, b) => {
+      if (a.timeMinutes === null && b.timeMinutes === null) return a.round.roundNumber - b.round.roundNumber;
+      if (a.timeMinutes === null) return 1;
+      if (b.timeMinutes === null) return -1;
+      return a.timeMinutes - b.timeMinutes;
+    });
+
+    // Calculate rest since the end of the previous round
+    const rounds = sortedRounds.map((item, index) => {
+      let gapMinutes: number | null = null;
+
+      if (index > 0 && item.timeMinutes !== null) {
+        const prevItem = sortedRounds[index - 1];
+        // No gap between rounds played on different days
+        if (prevItem.endMinutes !== null && prevItem.lastDayIndex === item.dayIndex) {
+          gapMinutes = item.timeMinutes - prevItem.endMinutes;
+        }
+      }
+
+      return { ...item, gapMinutes };
+    });
+
+    return {
+      series: s,
+      rounds,
+      totalMatches: s.rounds.reduce((acc, r) => acc + r.matchCount, 0),
+    };
+  });
+}
+
+// "+1 match 10:20 T3" for each match group of a split round
+export function formatMatchGroups(groups: MatchGroup[], settings: TournamentSettings): string {
+  return groups
+    .map((g) => `+${g.matchCount} match${g.matchCount > 1 ? 's' : ''} ${formatRowLabel(g.row, settings)} T${g.startCol + 1}`)
+    .join(', ');
+}
+
+// Rest band: under the minimum, short of the ideal, ideal, over the maximum
+export function getRestCategory(gapMinutes: number | null, rules: RestRules): RestCategory {
+  if (gapMinutes === null) return 'none';
+  if (gapMinutes < rules.min) return 'too-short';
+  if (gapMinutes < rules.ideal) return 'short';
+  if (gapMinutes <= rules.max) return 'ideal';
+  return 'too-long';
+}
+
+// Legend of a rest band, e.g. "Entre 1h et 2h"
+export function describeRestCategory(category: RestCategory, rules: RestRules): string {
+  switch (category) {
+    case 'too-short':
+      return `Moins de ${formatDuration(rules.min)}`;
+    case 'short':
+      return `Entre ${formatDuration(rules.min)} et ${formatDuration(rules.ideal)}`;
+    case 'ideal':
+      return `Entre ${formatDuration(rules.ideal)} et ${formatDuration(rules.max)}`;
+    case 'too-long':
+      return `Plus de ${formatDuration(rules.max)}`;
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,113 @@
+// Comparison of two versions of the schedule for the same series
+
+import { Round, ScheduledRound, Series, TournamentSettings, formatDuration, getTournamentDays, minutesToTime } from './types';
+import { SeriesTableRound, getSeriesTableData } from './scheduleData';
+
+export type RoundDiffStatus = 'unchanged' | 'moved' | 'added' | 'removed' | 'unscheduled';
+
+export interface RoundDiff {
+  round: Round;
+  status: RoundDiffStatus;
+  before: SeriesTableRound | null; // null when the round is not scheduled in this version
+  after: SeriesTableRound | null;
+  slotShift: number | null; // Rows moved, positive when later
+  courtChanged: boolean;
+  groupsChanged: boolean; // Split or rejoined, or match groups moved
+  restChange: number | null; // Minutes of rest gained (positive) or lost before this round
+}
+
+export interface SeriesDiff {
+  series: Series;
+  rounds: RoundDiff[]; // In round order
+  endBefore: number | null; // Absolute minutes (see getRowAbsoluteMinutes)
+  endAfter: number | null;
+}
+
+export interface ScheduleDiff {
+  series: SeriesDiff[];
+  endBefore: number | null;
+  endAfter: number | null;
+  changedCount: number; // Rounds moved, added or removed
+}
+
+function toRoundMap(rows: SeriesTableRound[]): Map<string, SeriesTableRound> {
+  return new Map(rows.filter((r) => r.scheduled).map((r) => [r.round.id, r]));
+}
+
+function getLatestEnd(values: Array<number | null>): number | null {
+  const ends = values.filter((v): v is number => v !== null);
+  return ends.length > 0 ? Math.max(...ends) : null;
+}
+
+// Matches of a split round placed apart differently
+function haveGroupsChanged(before: SeriesTableRound, after: SeriesTableRound): boolean {
+  return JSON.stringify(before.groups) !== JSON.stringify(after.groups);
+}
+
+function getRoundStatus(before: SeriesTableRound | undefined, after: SeriesTableRound | undefined): RoundDiffStatus {
+  if (!before && !after) return 'unscheduled';
+  if (!before) return 'added';
+  if (!after) return 'removed';
+  return before.row === after.row && before.col === after.col && !haveGroupsChanged(before, after) ? 'unchanged' : 'moved';
+}
+
+export function compareSchedules(
+  series: Series[],
+  before: ScheduledRound[],
+  after: ScheduledRound[],
+  settings: TournamentSettings
+): ScheduleDiff {
+  const beforeData = getSeriesTableData(series, before, settings);
+  const afterData = getSeriesTableData(series, after, settings);
+
+  const seriesDiffs = series.map((s, index): SeriesDiff => {
+    const beforeRounds = toRoundMap(beforeData[index].rounds);
+    const afterRounds = toRoundMap(afterData[index].rounds);
+
+    const rounds = s.rounds.map((round): RoundDiff => {
+      const b = beforeRounds.get(round.id);
+      const a = afterRounds.get(round.id);
+      return {
+        round,
+        status: getRoundStatus(b, a),
+        before: b ?? null,
+        after: a ?? null,
+        slotShift: b && a ? a.row! - b.row! : null,
+        courtChanged: !!b && !!a && a.col !== b.col,
+        groupsChanged: !!b && !!a && haveGroupsChanged(b, a),
+        restChange: b?.gapMinutes != null && a?.gapMinutes != null ? a.gapMinutes - b.gapMinutes : null,
+      };
+    });
+
+    return {
+      series: s,
+      rounds,
+      endBefore: getLatestEnd([...beforeRounds.values()].map((r) => r.endMinutes)),
+      endAfter: getLatestEnd([...afterRounds.values()].map((r) => r.endMinutes)),
+    };
+  });
+
+  return {
+    series: seriesDiffs,
+    endBefore: getLatestEnd(seriesDiffs.map((s) => s.endBefore)),
+    endAfter: getLatestEnd(seriesDiffs.map((s) => s.endAfter)),
+    changedCount: seriesDiffs.reduce(
+      (acc, s) => acc + s.rounds.filter((r) => r.status !== 'unchanged' && r.status !== 'unscheduled').length,
+      0
+    ),
+  };
+}
+
+// "Dimanche 17:20" from absolute minutes, the day is omitted for single-day events
+export function formatAbsoluteMinutes(minutes: number, settings: TournamentSettings): string {
+  const days = getTournamentDays(settings);
+  const dayIndex = Math.floor(minutes / (24 * 60));
+  const time = minutesToTime(minutes - dayIndex * 24 * 60);
+  return days.length > 1 ? `${days[dayIndex]?.label ?? `J${dayIndex + 1}`} ${time}` : time;
+}
+
+// "+1h10" / "-35 min" / "="
+export function formatMinutesChange(minutes: number): string {
+  if (minutes === 0) return '=';
+  return `${minutes > 0 ? '+' : '-'}${formatDuration(Math.abs(minutes))}`;
+}
@@ -0,0 +1,188 @@
+// Validation of the whole schedule, run after every change
+//
+// Manual moves and pushes only check the round being placed, so rounds pushed
+// around can end up out of order, past the end of the day or too close to the
+// previous round of their series. This lists every issue of the current state.
+
+import {
+  ScheduledRound,
+  Series,
+  TournamentSettings,
+  createCellAvailability,
+  formatDuration,
+  formatRowLabel,
+  getScheduledRoundPositions,
+  getScheduledRoundStartRows,
+  getRestRules,
+  getRowSlot,
+  getSlotCount,
+  getTournamentDays,
+  isRowAllowedForSeries,
+} from './types';
+import { getRestCategory, getSeriesTableData } from './scheduleData';
+
+export type ScheduleIssueKind =
+  | 'out-of-hours'
+  | 'overlap'
+  | 'order'
+  | 'same-row'
+  | 'short-rest'
+  | 'long-rest'
+  | 'unscheduled';
+
+export type ScheduleIssueSeverity = 'error' | 'warning';
+
+export interface ScheduleIssue {
+  kind: ScheduleIssueKind;
+  severity: ScheduleIssueSeverity;
+  message: string;
+  roundIds: string[];
+  location?: { row: number; col: number }; // Cell to show in the grid, none for unscheduled rounds
+}
+
+export const SCHEDULE_ISSUE_LABELS: Record<ScheduleIssueKind, string> = {
+  'out-of-hours': 'Hors horaires',
+  overlap: 'Terrains occupés deux fois',
+  order: 'Ordre des tours',
+  'same-row': 'Même série sur une ligne',
+  'short-rest': 'Repos trop court',
+  'long-rest': 'Repos trop long',
+  unscheduled: 'Tours non placés',
+};
+
+const ISSUE_SEVERITIES: Record<ScheduleIssueKind, ScheduleIssueSeverity> = {
+  'out-of-hours': 'error',
+  overlap: 'error',
+  order: 'error',
+  'same-row': 'error',
+  'short-rest': 'warning',
+  'long-rest': 'warning',
+  unscheduled: 'warning',
+};
+
+function issue(kind: ScheduleIssueKind, message: string, roundIds: string[], location?: { row: number; col: number }): ScheduleIssue {
+  return { kind, severity: ISSUE_SEVERITIES[kind], message, roundIds, ...(location ? { location } : {}) };
+}
+
+export function findScheduleIssues(
+  series: Series[],
+  schedule: ScheduledRound[],
+  settings: TournamentSettings
+): ScheduleIssue[] {
+  const isCellOpen = createCellAvailability(settings);
+  const slotCount = getSlotCount(settings);
+  const scheduledById = new Map(schedule.map((sr) => [sr.roundId, sr]));
+  const cellOwners = new Map<string, string>();
+  const issues: ScheduleIssue[] = [];
+
+  for (const s of series) {
+    for (const round of s.rounds) {
+      const sr = scheduledById.get(round.id);
+      if (!sr) continue;
+      const name = `${s.shortName} ${round.label}`;
+      const location = { row: sr.row, col: sr.startCol };
+
+      const positions = getScheduledRoundPositions(sr, round, s, settings, isCellOpen);
+
+      const lastRow = Math.max(...positions.map((p) => p.row));
+      if (lastRow >= slotCount) {
+        issues.push(issue('out-of-hours', `${name} se termine après la fin du tournoi`, [round.id], location));
+      } else if (!positions.every((p) => isRowAllowedForSeries(p.row, s, settings))) {
+        issues.push(issue('out-of-hours', `${name} est placé hors du jour réservé à ${s.shortName}`, [round.id], location));
+      } else {
+        // Matches too long for the rest of the day start on the next one, away from the row they were placed on
+        const days = getTournamentDays(settings);
+        const starts = [sr, ...(sr.groups ?? [])];
+        const pushed = starts.find((start, group) => {
+          const first = positions.find((p) => p.group === group);
+          return !!first && getRowSlot(first.row, settings).dayIndex !== getRowSlot(start.row, settings).dayIndex;
+        });
+        if (pushed) {
+          const dayLabel = days[getRowSlot(pushed.row, settings).dayIndex].label;
+          issues.push(
+            issue('out-of-hours', `${name} ne tient pas avant la fin de ${dayLabel}, ses matchs passent au jour suivant`, [round.id], {
+              row: pushed.row,
+              col: pushed.startCol,
+            })
+          );
+        }
+      }
+
+      // Report each pair of overlapping rounds once
+      const overlapped = new Set<string>();
+      for (const p of positions) {
+        const key = `${p.row}-${p.col}`;
+        const owner = cellOwners.get(key);
+        if (owner && !overlapped.has(owner)) {
+          overlapped.add(owner);
+          issues.push(
+            issue('overlap', `${name} partage le terrain ${p.col + 1} à ${formatRowLabel(p.row, settings)}`, [owner, round.id], { row: p.row, col: p.col })
+          );
+        }
+        cellOwners.set(key, round.id);
+      }
+    }
+
+    const scheduledRounds = s.rounds.filter((r) => scheduledById.has(r.id));
+
+    // Consecutive rounds of the series, so that one misplaced round is reported once.
+    // Every match group of the later round starts after every group of the earlier one.
+    for (let i = 1; i < scheduledRounds.length; i++) {
+      const earlier = scheduledRounds[i - 1];
+      const later = scheduledRounds[i];
+      const earlierRow = Math.max(...getScheduledRoundStartRows(scheduledById.get(earlier.id)!));
+      const laterSr = scheduledById.get(later.id)!;
+      const laterRow = Math.min(...getScheduledRoundStartRows(laterSr));
+      const laterStart = [laterSr, ...(laterSr.groups ?? [])].find((part) => part.row === laterRow)!;
+      const location = { row: laterStart.row, col: laterStart.startCol };
+      if (laterRow === earlierRow) {
+        issues.push(
+          issue('same-row', `${s.shortName} : ${earlier.label} et ${later.label} commencent sur la même ligne`, [earlier.id, later.id], location)
+        );
+      } else if (laterRow < earlierRow) {
+        issues.push(
+          issue('order', `${s.shortName} : ${later.label} est placé avant ${earlier.label}`, [earlier.id, later.id], location)
+        );
+      }
+    }
+
+    const unscheduled = s.rounds.filter((r) => !scheduledById.has(r.id));
+    if (unscheduled.length > 0) {
+      issues.push(
+        issue(
+          'unscheduled',
+          `${s.shortName} : ${unscheduled.map((r) => r.label).join(', ')}`,
+          unscheduled.map((r) => r.id)
+        )
+      );
+    }
+  }
+
+  // Rest between consecutive rounds of a series on the same day, against the rules of the series
+  for (const { series: s, rounds } of getSeriesTableData(series, schedule, settings)) {
+    const rules = getRestRules(s, settings);
+    rounds.forEach((item, index) => {
+      if (index === 0 || item.gapMinutes === null) return;
+      const category = getRestCategory(item.gapMinutes, rules);
+      if (category !== 'too-short' && category !== 'too-long') return;
+
+      const previous = rounds[index - 1];
+      const rest =
+        item.gapMinutes < 0
+          ? 'commence avant la fin de'
+          : `${formatDuration(item.gapMinutes)} de repos après`;
+      const limit =
+        category === 'too-short' ? `minimum ${formatDuration(rules.min)}` : `maximum ${formatDuration(rules.max)}`;
+      issues.push(
+        issue(
+          category === 'too-short' ? 'short-rest' : 'long-rest',
+          `${s.shortName} : ${item.round.label} ${rest} ${previous.round.label} (${limit})`,
+          [previous.round.id, item.round.id],
+          { row: item.row!, col: item.col! }
+        )
+      );
+    });
+  }
+
+  return issues;
+}
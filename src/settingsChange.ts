@@ -0,0 +1,192 @@
+// Settings changes on a tournament that already has a schedule
+//
+// Rows and courts are positions in the grid: changing the slot duration, the
+// hours, the days or the courts changes what they mean. Each strategy builds
+// the schedule to apply with the new settings, previewed before applying.
+
+import {
+  ScheduledRound,
+  Series,
+  TournamentSettings,
+  createCellAvailability,
+  getRowAbsoluteMinutes,
+  getSlotCount,
+  getTournamentDays,
+  normalizeSettings,
+  offsetCell,
+} from './types';
+import { getSeriesTableData, resolveOverlaps } from './scheduleData';
+import { findScheduleIssues } from './scheduleValidation';
+import { solveSchedule } from './autoScheduler';
+
+export type SettingsChangeStrategy = 'unchanged' | 'keep-rows' | 'keep-times' | 'auto';
+
+export const SETTINGS_CHANGE_STRATEGIES: Array<{ strategy: SettingsChangeStrategy; label: string; description: string }> = [
+  {
+    strategy: 'unchanged',
+    label: "Ne pas toucher à l'échéancier",
+    description: "Les tours gardent leur case de départ : ils peuvent se chevaucher ou dépasser la fin de la journée.",
+  },
+  {
+    strategy: 'keep-rows',
+    label: 'Garder les lignes et retasser',
+    description: 'Chaque tour garde sa ligne, les tours qui se chevauchent sont décalés vers les cases libres suivantes.',
+  },
+  {
+    strategy: 'keep-times',
+    label: 'Garder les heures',
+    description: "Chaque tour commence au premier créneau à partir de son heure actuelle, jamais plus tôt que l'heure annoncée.",
+  },
+  {
+    strategy: 'auto',
+    label: 'Relancer le placement automatique',
+    description: "Tout l'échéancier est recalculé avec les nouveaux paramètres.",
+  },
+];
+
+// Settings that change the meaning of rows and courts
+const LAYOUT_KEYS: Array<keyof TournamentSettings> = [
+  'courtCount',
+  'timeSlotDuration',
+  'startTime',
+  'endTime',
+  'days',
+  'blockedWindows',
+  'courts',
+];
+
+export interface SettingsChangeOutcome {
+  strategy: SettingsChangeStrategy;
+  schedule: ScheduledRound[];
+  errorCount: number;
+  warningCount: number; // Rest warnings, unscheduled rounds are counted in droppedCount
+  movedCount: number; // Rounds starting at another time or on another court
+  droppedCount: number; // Rounds scheduled before the change and not after
+  end: number | null; // Absolute minutes of the last match end
+}
+
+export interface SettingsChangePreview {
+  settings: TournamentSettings; // Settings after the change
+  endBefore: number | null;
+  outcomes: SettingsChangeOutcome[]; // In the order of SETTINGS_CHANGE_STRATEGIES
+}
+
+export function applySettingsChanges(settings: TournamentSettings, changes: Partial<TournamentSettings>): TournamentSettings {
+  return normalizeSettings({ ...settings, ...changes });
+}
+
+// Layout settings without the labels of days and blocked windows
+function getLayoutValue(settings: TournamentSettings, key: keyof TournamentSettings): string {
+  const value = settings[key];
+  const withoutLabel = Array.isArray(value)
+    ? value.map((item) => ('label' in item ? { ...item, label: undefined } : item))
+    : value;
+  return JSON.stringify(withoutLabel);
+}
+
+// Whether the changes move rounds in the grid, other settings can be applied directly
+export function affectsScheduleLayout(settings: TournamentSettings, changes: Partial<TournamentSettings>): boolean {
+  const after = applySettingsChanges(settings, changes);
+  return LAYOUT_KEYS.some((key) => getLayoutValue(settings, key) !== getLayoutValue(after, key));
+}
+
+// Series pinned to a day that no longer exists are played on any day
+export function unpinRemovedDays(series: Series[], settings: TournamentSettings): Series[] {
+  const dayIds = new Set(getTournamentDays(settings).map((d) => d.id));
+  return series.map((s) => (s.dayId && !dayIds.has(s.dayId) ? { ...s, dayId: undefined } : s));
+}
+
+function getLatestEnd(series: Series[], schedule: ScheduledRound[], settings: TournamentSettings): number | null {
+  const ends = getSeriesTableData(series, schedule, settings).flatMap((s) =>
+    s.rounds.map((r) => r.endMinutes).filter((m): m is number => m !== null)
+  );
+  return ends.length > 0 ? Math.max(...ends) : null;
+}
+
+// First row starting at or after these absolute minutes, past the last row when none does
+function findRowAtOrAfter(minutes: number, settings: TournamentSettings): number {
+  const slotCount = getSlotCount(settings);
+  for (let row = 0; row < slotCount; row++) {
+    if (getRowAbsoluteMinutes(row, settings) >= minutes) return row;
+  }
+  return slotCount;
+}
+
+// Rounds at their new start cell, moved forward when it is closed, then re-packed in grid order
+function repack(
+  series: Series[],
+  schedule: ScheduledRound[],
+  settings: TournamentSettings,
+  getRow: (row: number) => number
+): ScheduledRound[] {
+  const isCellOpen = createCellAvailability(settings);
+  const moveStart = (row: number, startCol: number) => {
+    const newRow = getRow(row);
+    const col = Math.min(startCol, settings.courtCount - 1);
+    if (isCellOpen(newRow, col)) return { row: newRow, startCol: col };
+    const next = offsetCell(newRow, col, 1, settings.courtCount, isCellOpen);
+    return { row: next.row, startCol: next.col };
+  };
+  const ordered = [...schedule].sort((a, b) => a.row - b.row || a.startCol - b.startCol);
+  const moved = ordered.map((sr): ScheduledRound => ({
+    ...sr,
+    ...moveStart(sr.row, sr.startCol),
+    ...(sr.groups ? { groups: sr.groups.map((g) => ({ ...g, ...moveStart(g.row, g.startCol) })) } : {}),
+  }));
+  return resolveOverlaps([], moved, series, settings, isCellOpen);
+}
+
+export function planSettingsChange(
+  series: Series[],
+  schedule: ScheduledRound[],
+  before: TournamentSettings,
+  after: TournamentSettings,
+  strategy: SettingsChangeStrategy
+): ScheduledRound[] {
+  switch (strategy) {
+    case 'unchanged':
+      return schedule;
+    case 'keep-rows':
+      return repack(series, schedule, after, (row) => row);
+    case 'keep-times':
+      return repack(series, schedule, after, (row) => findRowAtOrAfter(getRowAbsoluteMinutes(row, before), after));
+    case 'auto':
+      return solveSchedule(series, after).schedule;
+  }
+}
+
+export function previewSettingsChange(
+  series: Series[],
+  schedule: ScheduledRound[],
+  before: TournamentSettings,
+  changes: Partial<TournamentSettings>
+): SettingsChangePreview {
+  const after = applySettingsChanges(before, changes);
+  const afterSeries = unpinRemovedDays(series, after);
+  const beforeById = new Map(schedule.map((sr) => [sr.roundId, sr]));
+
+  const outcomes = SETTINGS_CHANGE_STRATEGIES.map(({ strategy }): SettingsChangeOutcome => {
+    const planned = planSettingsChange(afterSeries, schedule, before, after, strategy);
+    const issues = findScheduleIssues(afterSeries, planned, after).filter((i) => i.kind !== 'unscheduled');
+    const plannedIds = new Set(planned.map((sr) => sr.roundId));
+
+    return {
+      strategy,
+      schedule: planned,
+      errorCount: issues.filter((i) => i.severity === 'error').length,
+      warningCount: issues.filter((i) => i.severity === 'warning').length,
+      movedCount: planned.filter((sr) => {
+        const previous = beforeById.get(sr.roundId);
+        return (
+          !!previous &&
+          (previous.startCol !== sr.startCol ||
+            getRowAbsoluteMinutes(previous.row, before) !== getRowAbsoluteMinutes(sr.row, after))
+        );
+      }).length,
+      droppedCount: schedule.filter((sr) => !plannedIds.has(sr.roundId)).length,
+      end: getLatestEnd(afterSeries, planned, after),
+    };
+  });
+
+  return { settings: after, endBefore: getLatestEnd(series, schedule, before), outcomes };
+}
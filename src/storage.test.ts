@@ -0,0 +1,55 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { journalStorage, useStorageStatus } from './storage';
+
+// Appends a record to the journal as an interrupted save would have left it
+function appendRaw(key: string, value: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('badminton-scheduler', 1);
+    request.onsuccess = () => {
+      const transaction = request.result.transaction('journal', 'readwrite');
+      transaction.objectStore('journal').add({ key, at: Date.now(), value });
+      transaction.oncomplete = () => {
+        request.result.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const saved = (key: string, value: string) =>
+  vi.waitFor(async () => expect(await journalStorage.getItem(key)).toBe(value));
+
+describe('journalStorage', () => {
+  it('reads back the last of several quick saves', async () => {
+    expect(useStorageStatus.getState().backend).toBe('indexeddb');
+    expect(await journalStorage.getItem('quick')).toBeNull();
+
+    journalStorage.setItem('quick', '{"n":1}');
+    journalStorage.setItem('quick', '{"n":2}');
+    journalStorage.setItem('quick', '{"n":3}');
+
+    await saved('quick', '{"n":3}');
+    expect(useStorageStatus.getState().failure).toBeNull();
+    expect(useStorageStatus.getState().savedAt).not.toBeNull();
+  });
+
+  it('falls back to the previous state when the last save was interrupted', async () => {
+    journalStorage.setItem('broken', '{"n":1}');
+    await saved('broken', '{"n":1}');
+    await appendRaw('broken', '{"n":');
+
+    expect(await journalStorage.getItem('broken')).toBe('{"n":1}');
+    expect(useStorageStatus.getState().recovery).toContain('dernier enregistrement illisible');
+  });
+
+  it('forgets every saved state of a removed store', async () => {
+    journalStorage.setItem('removed', '{"n":1}');
+    await saved('removed', '{"n":1}');
+
+    await journalStorage.removeItem('removed');
+    expect(await journalStorage.getItem('removed')).toBeNull();
+  });
+});
@@ -0,0 +1,300 @@
+// Browser storage of the persisted stores, on IndexedDB
+//
+// Every save appends the whole state of a store to a journal instead of
+// overwriting it; only the last records of each store are kept. On load, the
+// newest readable record wins, so an interrupted save falls back to the
+// previous one. Saves are coalesced: while one is being written, only the
+// latest state waits for the next write. Failures are reported in
+// useStorageStatus instead of being lost. Browsers without IndexedDB keep
+// using localStorage.
+
+import { create } from 'zustand';
+import { StateStorage } from 'zustand/middleware';
+
+const DB_NAME = 'badminton-scheduler';
+const DB_VERSION = 1;
+const JOURNAL_STORE = 'journal';
+const KEEP_RECORDS = 5; // Per store, the previous states are kept in case the last one cannot be read
+const COMPACT_EVERY = 50; // Saves of a store between two clean-ups of its old records
+const SESSION_KEY = 'badminton-session-open'; // Left in localStorage when the page was not closed normally
+
+export type StorageBackend = 'indexeddb' | 'localstorage';
+
+export interface StorageFailure {
+  at: number; // Epoch milliseconds
+  key: string;
+  operation: 'lecture' | 'enregistrement';
+  message: string;
+}
+
+export interface StorageStatus {
+  backend: StorageBackend;
+  savedAt: number | null; // Last successful save
+  dataBytes: number; // Size of the saved states, about one byte per character
+  usageBytes: number | null; // Whole site, as estimated by the browser
+  quotaBytes: number | null;
+  failure: StorageFailure | null; // Cleared by the next successful save of the same store
+  recovery: string | null; // What was restored after an interrupted session
+}
+
+interface JournalRecord {
+  seq?: number; // Auto-incremented
+  key: string;
+  at: number; // Epoch milliseconds
+  value: string;
+}
+
+const STORE_LABELS: Record<string, string> = {
+  'badminton-tournament-storage': 'tournoi ouvert',
+  'badminton-tournament-workspace': 'bibliothèque des tournois',
+  'badminton-bracket-templates': 'modèles de tableau',
+};
+
+const hasIndexedDB = typeof indexedDB !== 'undefined';
+
+export const useStorageStatus = create<StorageStatus>(() => ({
+  backend: hasIndexedDB ? 'indexeddb' : 'localstorage',
+  savedAt: null,
+  dataBytes: 0,
+  usageBytes: null,
+  quotaBytes: null,
+  failure: null,
+  recovery: null,
+}));
+
+export function getStoreLabel(key: string): string {
+  return STORE_LABELS[key] ?? key;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'espace de stockage du navigateur plein';
+  }
+  if (error instanceof Error) return `${error.name} : ${error.message}`;
+  return String(error);
+}
+
+function reportFailure(key: string, operation: StorageFailure['operation'], error: unknown) {
+  useStorageStatus.setState({ failure: { at: Date.now(), key, operation, message: describeError(error) } });
+}
+
+// Previous session left without closing the page: a crash, a killed tab or a power cut
+const interruptedSession = (() => {
+  try {
+    const previous = localStorage.getItem(SESSION_KEY);
+    localStorage.setItem(SESSION_KEY, String(Date.now()));
+    window.addEventListener('pagehide', () => localStorage.removeItem(SESSION_KEY));
+    return previous !== null;
+  } catch {
+    return false;
+  }
+})();
+
+function readLocalStorage(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function removeLocalStorage(key: string) {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Nothing to remove
+  }
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('transaction annulée'));
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const journal = request.result.createObjectStore(JOURNAL_STORE, { keyPath: 'seq', autoIncrement: true });
+      journal.createIndex('key', 'key');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+}
+
+// Records of a store, oldest first
+async function readRecords(key: string): Promise<JournalRecord[]> {
+  const db = await openDatabase();
+  const index = db.transaction(JOURNAL_STORE).objectStore(JOURNAL_STORE).index('key');
+  return requestResult(index.getAll(IDBKeyRange.only(key)) as IDBRequest<JournalRecord[]>);
+}
+
+function isReadable(value: string): boolean {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+const dataSizes = new Map<string, number>();
+const appendCounts = new Map<string, number>();
+const pendingValues = new Map<string, string>();
+// Stores that could not be read: saving them would replace the data kept in the journal
+const unreadKeys = new Set<string>();
+let flushing: Promise<void> | null = null;
+
+async function refreshUsage() {
+  const dataBytes = [...dataSizes.values()].reduce((acc, size) => acc + size, 0);
+  useStorageStatus.setState({ dataBytes });
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    useStorageStatus.setState({ usageBytes: usage ?? null, quotaBytes: quota ?? null });
+  } catch {
+    // Estimation is informative only
+  }
+}
+
+async function appendRecord(key: string, value: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction(JOURNAL_STORE, 'readwrite');
+  const record: JournalRecord = { key, at: Date.now(), value };
+  transaction.objectStore(JOURNAL_STORE).add(record);
+  await transactionDone(transaction);
+
+  const count = (appendCounts.get(key) ?? 0) + 1;
+  appendCounts.set(key, count);
+  if (count % COMPACT_EVERY === 0) await compactRecords(key);
+}
+
+// Drop the old records of a store, keeping the last ones
+async function compactRecords(key: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction(JOURNAL_STORE, 'readwrite');
+  const store = transaction.objectStore(JOURNAL_STORE);
+  const seqs = await requestResult(store.index('key').getAllKeys(IDBKeyRange.only(key)));
+  for (const seq of seqs.slice(0, -KEEP_RECORDS)) store.delete(seq);
+  await transactionDone(transaction);
+}
+
+async function flushPending() {
+  while (pendingValues.size > 0) {
+    const [key, value] = pendingValues.entries().next().value as [string, string];
+    pendingValues.delete(key);
+    try {
+      await appendRecord(key, value);
+      // The state moved from localStorage is now in the journal
+      removeLocalStorage(key);
+      dataSizes.set(key, value.length);
+      const { failure } = useStorageStatus.getState();
+      useStorageStatus.setState({ savedAt: Date.now(), failure: failure?.key === key ? null : failure });
+    } catch (error) {
+      reportFailure(key, 'enregistrement', error);
+      // Written with the next change, unless a newer state is already waiting
+      if (!pendingValues.has(key)) pendingValues.set(key, value);
+      break;
+    }
+  }
+  void refreshUsage();
+}
+
+const indexedDBStorage: StateStorage = {
+  getItem: async (key) => {
+    try {
+      const records = await readRecords(key);
+      // Newest readable record, an unreadable one is an interrupted save
+      for (let i = records.length - 1; i >= 0; i--) {
+        const { value, at } = records[i];
+        if (!isReadable(value)) continue;
+        dataSizes.set(key, value.length);
+        if (i < records.length - 1 || interruptedSession) {
+          const reason =
+            i < records.length - 1 ? 'dernier enregistrement illisible' : 'session précédente interrompue';
+          const notice = `${getStoreLabel(key)} restauré tel qu'enregistré à ${formatClock(at)} (${reason}).`;
+          const { recovery } = useStorageStatus.getState();
+          useStorageStatus.setState({ recovery: recovery ? `${recovery} ${notice}` : notice });
+        }
+        void refreshUsage();
+        return value;
+      }
+      // First launch since the move from localStorage
+      return readLocalStorage(key);
+    } catch (error) {
+      unreadKeys.add(key);
+      reportFailure(key, 'lecture', error);
+      return null;
+    }
+  },
+
+  setItem: (key, value) => {
+    if (unreadKeys.has(key)) {
+      reportFailure(key, 'enregistrement', new Error('données non chargées, les modifications ne sont pas enregistrées'));
+      return;
+    }
+    pendingValues.set(key, value);
+    // Changes made during a write are picked up by the running flush
+    flushing ??= flushPending().finally(() => {
+      flushing = null;
+    });
+  },
+
+  removeItem: async (key) => {
+    pendingValues.delete(key);
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(JOURNAL_STORE, 'readwrite');
+      const store = transaction.objectStore(JOURNAL_STORE);
+      const seqs = await requestResult(store.index('key').getAllKeys(IDBKeyRange.only(key)));
+      for (const seq of seqs) store.delete(seq);
+      await transactionDone(transaction);
+      dataSizes.delete(key);
+    } catch (error) {
+      reportFailure(key, 'enregistrement', error);
+    }
+  },
+};
+
+// Without IndexedDB, the whole state is written on each change as before, failures are reported
+const localStorageFallback: StateStorage = {
+  getItem: (key) => {
+    const value = readLocalStorage(key);
+    if (value !== null) dataSizes.set(key, value.length);
+    return value;
+  },
+  setItem: (key, value) => {
+    try {
+      localStorage.setItem(key, value);
+      dataSizes.set(key, value.length);
+      useStorageStatus.setState({ savedAt: Date.now(), failure: null });
+    } catch (error) {
+      reportFailure(key, 'enregistrement', error);
+    }
+    void refreshUsage();
+  },
+  removeItem: (key) => {
+    removeLocalStorage(key);
+    dataSizes.delete(key);
+  },
+};
+
+export const journalStorage: StateStorage = hasIndexedDB ? indexedDBStorage : localStorageFallback;
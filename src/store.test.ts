@@ -0,0 +1,260 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useTournamentStore } from './store';
+import { ScheduledRound, Series, TournamentSettings } from './types';
+import { findScheduleIssues } from './scheduleValidation';
+import { suggestBracket } from './brackets';
+
+// Saturday and Sunday 09:00-11:00, 4 rows each: Saturday is rows 0-3, Sunday rows 4-7
+const settings: TournamentSettings = {
+  courtCount: 2,
+  timeSlotDuration: 30,
+  startTime: '09:00',
+  endTime: '11:00',
+  days: [
+    { id: 'sat', label: 'Samedi', startTime: '09:00', endTime: '11:00', courtCount: 2 },
+    { id: 'sun', label: 'Dimanche', startTime: '09:00', endTime: '11:00', courtCount: 2 },
+  ],
+};
+
+function makeSeries(id: string, dayId?: string): Series {
+  return {
+    id,
+    name: `Série ${id}`,
+    shortName: id.toUpperCase(),
+    color: '#3b82f6',
+    ...(dayId ? { dayId } : {}),
+    rounds: [
+      { id: `${id}1`, seriesId: id, roundNumber: 1, matchCount: 2, label: 'Tour 1' },
+      { id: `${id}2`, seriesId: id, roundNumber: 2, matchCount: 1, label: 'Tour 2' },
+    ],
+  };
+}
+
+function load(series: Series[], schedule: ScheduledRound[]) {
+  useTournamentStore.setState({ settings, series, schedule, undoStack: [], redoStack: [] });
+}
+
+const state = () => useTournamentStore.getState();
+
+describe('row operations', () => {
+  beforeEach(() => load([], []));
+
+  it('refuses to push a round pinned to Saturday into Sunday', () => {
+    const schedule = [{ roundId: 'a1', row: 3, startCol: 0 }];
+    load([makeSeries('a', 'sat')], schedule);
+
+    const result = state().insertScheduleRow(2);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+    expect(state().schedule).toEqual(schedule);
+    expect(state().undoStack).toHaveLength(0);
+  });
+
+  it('refuses to push the end of a day into the next one', () => {
+    const schedule = [
+      { roundId: 'a1', row: 2, startCol: 0 },
+      { roundId: 'b1', row: 4, startCol: 0 },
+    ];
+    load([makeSeries('a'), makeSeries('b')], schedule);
+
+    expect(state().shiftScheduleFrom(1, 2).success).toBe(false);
+    expect(state().insertScheduleRow(0).success).toBe(true);
+    expect(state().insertScheduleRow(0).success).toBe(false);
+    expect(state().schedule).toEqual(expect.arrayContaining([
+      { roundId: 'a1', row: 3, startCol: 0 },
+      { roundId: 'b1', row: 4, startCol: 0 },
+    ]));
+    expect(findScheduleIssues(state().series, state().schedule, settings).filter((i) => i.kind === 'out-of-hours')).toEqual([]);
+  });
+
+  it('leaves the following days unchanged', () => {
+    load([makeSeries('a'), makeSeries('b', 'sun')], [
+      { roundId: 'a1', row: 1, startCol: 0 },
+      { roundId: 'b1', row: 4, startCol: 0 },
+    ]);
+
+    expect(state().shiftScheduleFrom(0, 2).success).toBe(true);
+    expect(state().schedule).toEqual(expect.arrayContaining([
+      { roundId: 'a1', row: 3, startCol: 0 },
+      { roundId: 'b1', row: 4, startCol: 0 },
+    ]));
+  });
+
+  it('deletes an empty row and brings the rest of the day forward', () => {
+    load([makeSeries('a')], [
+      { roundId: 'a1', row: 0, startCol: 0 },
+      { roundId: 'a2', row: 2, startCol: 0 },
+    ]);
+
+    expect(state().deleteScheduleRow(0).success).toBe(false);
+    expect(state().deleteScheduleRow(1).success).toBe(true);
+    expect(state().schedule.find((sr) => sr.roundId === 'a2')?.row).toBe(1);
+  });
+});
+
+describe('updateSettings', () => {
+  it('refuses changes moving the rounds of a scheduled tournament', () => {
+    const schedule = [{ roundId: 'a1', row: 1, startCol: 0 }];
+    load([makeSeries('a')], schedule);
+
+    expect(state().updateSettings({ timeSlotDuration: 15 }).success).toBe(false);
+    expect(state().settings).toEqual(settings);
+    expect(state().updateSettings({ restRules: { min: 20, ideal: 40, max: 120 } }).success).toBe(true);
+    expect(state().schedule).toEqual(schedule);
+  });
+});
+
+describe('addEntry', () => {
+  beforeEach(() => useTournamentStore.setState({ players: [] }));
+
+  it('registers homonyms of different clubs as different players', () => {
+    load([makeSeries('a'), makeSeries('b')], []);
+
+    state().addEntry('a', ['Jean Dupont'], 'BCN');
+    state().addEntry('b', ['jean  dupont'], 'BCN');
+    state().addEntry('b', ['Jean Dupont'], 'USV');
+
+    const [first, second, third] = [...state().series[0].entries!, ...state().series[1].entries!];
+    expect(second.playerIds).toEqual(first.playerIds);
+    expect(third.playerIds).not.toEqual(first.playerIds);
+    expect(state().players).toHaveLength(2);
+  });
+});
+
+describe('importEntries', () => {
+  beforeEach(() => useTournamentStore.setState({ players: [] }));
+
+  const plan = (entries: Array<{ playerNames: string[]; club?: string; licences?: string[] }>) => ({
+    name: 'Série A',
+    shortName: 'A',
+    entries,
+    bracket: suggestBracket(entries.length),
+    existingSeriesId: 'a',
+  });
+
+  it('recognizes a player by licence number whatever the spelling of the name', () => {
+    load([makeSeries('a')], []);
+
+    state().importEntries([
+      plan([
+        { playerNames: ['Jean Dupont'], club: 'BCN', licences: ['0654321'] },
+        { playerNames: ['DUPONT Jean', 'Paul Martin'], club: 'USV', licences: ['0654321'] },
+        { playerNames: ['Jean Dupont'], club: 'BCN', licences: ['0712345'] },
+      ]),
+    ]);
+
+    const [first, second, third] = state().series[0].entries!;
+    expect(second.playerIds[0]).toBe(first.playerIds[0]);
+    expect(third.playerIds).not.toEqual(first.playerIds);
+  });
+
+  it('does not enter the same players twice when a file is imported again', () => {
+    load([makeSeries('a')], []);
+    const entries = [
+      { playerNames: ['Jean Dupont', 'Paul Martin'], club: 'BCN' },
+      { playerNames: ['Luc Petit'], club: 'USV', licences: ['0712345'] },
+    ];
+
+    state().importEntries([plan(entries)]);
+    state().importEntries([
+      plan([
+        { playerNames: ['paul martin', 'Jean Dupont'], club: 'BCN' },
+        { playerNames: ['PETIT Luc'], club: 'USV', licences: ['0712345'] },
+        { playerNames: ['Anne Roux'], club: 'USV' },
+        { playerNames: ['Anne Roux'], club: 'USV' },
+      ]),
+    ]);
+
+    expect(state().series[0].entries).toHaveLength(3);
+    expect(state().players).toHaveLength(4);
+  });
+});
+
+describe('moveMatchGroup', () => {
+  const series = makeSeries('a');
+  series.rounds[1] = { ...series.rounds[1], matchCount: 2 };
+
+  it('keeps the matches of a split round after the previous round of the series', () => {
+    load([series], [
+      { roundId: 'a1', row: 2, startCol: 0 },
+      { roundId: 'a2', row: 3, startCol: 0 },
+    ]);
+    state().splitRound('a2');
+
+    const result = state().moveMatchGroup('a2', 1, 0, 1);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Tour 2 est placé avant Tour 1');
+    expect(state().moveMatchGroup('a2', 1, 4, 1).success).toBe(true);
+  });
+});
+
+describe('receiveTournamentFile', () => {
+  it('never replaces the tournament with a file sharing no state with it', () => {
+    load([makeSeries('b')], [{ roundId: 'b1', row: 0, startCol: 0 }]);
+    const file = state().createTournamentFile();
+
+    const local = [makeSeries('a')];
+    load(local, []);
+    useTournamentStore.setState({ syncPoints: [] });
+
+    expect(state().receiveTournamentFile(file)).toEqual({ success: true, merged: false, unrelated: true });
+    expect(state().series).toEqual(local);
+
+    expect(state().replaceWithTournamentFile(file).success).toBe(true);
+    expect(state().series.map((s) => s.id)).toEqual(['b']);
+    expect(state().receiveTournamentFile(file)).toMatchObject({ success: true, merged: true, remoteChangeCount: 0 });
+  });
+});
+
+describe('moveScheduledBlock', () => {
+  it('refuses to drop a round before the previous round of its series', () => {
+    const schedule = [
+      { roundId: 'a1', row: 1, startCol: 0 },
+      { roundId: 'a2', row: 2, startCol: 0 },
+    ];
+    load([makeSeries('a')], schedule);
+
+    const result = state().moveScheduledBlock(['a2'], 'a2', 0, 0);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Tour 2 est placé avant Tour 1');
+    expect(state().schedule).toEqual(schedule);
+
+    expect(state().moveScheduledBlock(['a1', 'a2'], 'a1', 0, 0).success).toBe(true);
+  });
+});
+
+describe('moveRoundFrom', () => {
+  it('makes a whole keyboard move one undo step, starting again from the schedule before it', () => {
+    const origin = [
+      { roundId: 'a1', row: 0, startCol: 0 },
+      { roundId: 'b1', row: 1, startCol: 0 },
+    ];
+    load([makeSeries('a'), makeSeries('b')], origin);
+
+    // Through b1, which is pushed aside then comes back
+    expect(state().moveRoundFrom(origin, 'a1', 1, 0)).toBe(true);
+    expect(state().schedule).toContainEqual({ roundId: 'b1', row: 2, startCol: 0 });
+    expect(state().moveRoundFrom(origin, 'a1', 3, 0)).toBe(true);
+
+    expect(state().schedule).toEqual(expect.arrayContaining([
+      { roundId: 'a1', row: 3, startCol: 0 },
+      { roundId: 'b1', row: 1, startCol: 0 },
+    ]));
+    expect(state().undoStack).toHaveLength(1);
+    state().undo();
+    expect(state().schedule).toEqual(origin);
+  });
+
+  it('puts the round back where it started when the move is cancelled', () => {
+    const origin = [{ roundId: 'a1', row: 0, startCol: 0 }];
+    load([makeSeries('a')], origin);
+
+    state().moveRoundFrom(origin, 'a1', 2, 1);
+    state().moveRoundFrom(origin, 'a1', 3, 0);
+    state().cancelRoundMove(origin);
+
+    expect(state().schedule).toBe(origin);
+    expect(state().undoStack).toHaveLength(0);
+  });
+});
@@ -1,19 +1,79 @@
+import { useEffect, useMemo, useState } from 'react';
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { createJSONStorage, persist } from 'zustand/middleware';
 import {
   TournamentState,
+  TournamentData,
+  HistoryEntry,
   Series,
   Round,
+  Player,
+  Entry,
   ScheduledRound,
+  ScheduleSnapshot,
+  SavedTournament,
+  SyncPoint,
+  TournamentEntry,
+  TournamentFileSync,
   TournamentSettings,
+  TournamentPhase,
+  RoundProgress,
+  MatchProgress,
   generateSeriesColor,
   generateId,
   getRoundCellPositions,
+  createCellAvailability,
+  isRowAllowedForSeries,
+  normalizeSettings,
+  MatchGroup,
+  getMainGroupMatchCount,
+  getMatchSlotSpan,
+  getScheduledRoundPositions,
+  getScheduledRoundStartRows,
+  getSlotCount,
+  getDayRowRanges,
+  formatRowLabel,
 } from './types';
+import { AutoScheduleResult, solveSchedule } from './autoScheduler';
+import { findPlayerConflicts, groupConflictsByRound } from './playerConflicts';
+import { ScheduleIssue, findScheduleIssues } from './scheduleValidation';
+import { getScheduledRoundCells, offsetScheduledRound, resolveOverlaps, translateScheduledRound } from './scheduleData';
+import {
+  SETTINGS_CHANGE_STRATEGIES,
+  SettingsChangeStrategy,
+  affectsScheduleLayout,
+  applySettingsChanges,
+  unpinRemovedDays,
+} from './settingsChange';
+import { projectLiveSchedule } from './liveProjection';
+import { MergeChoice, MergeConflict, MergeOutcome, mergeTournaments } from './merge';
+import {
+  TOURNAMENT_FILE_VERSION,
+  TournamentFile,
+  buildTournamentFile,
+  isValidMatchGroups,
+  migrateTournamentData,
+  validateTournamentFile,
+} from './tournamentFile';
+import { ImportedSeriesPlan } from './entryImport';
+import { BracketTemplate, BracketTemplateDraft, parseBracketTemplateFile } from './brackets';
+import { journalStorage } from './storage';
+
+export interface ReceiveFileResult {
+  success: boolean;
+  error?: string;
+  merged?: boolean; // False for an unrelated file
+  unrelated?: boolean; // No state in common with the tournament: nothing is applied, see replaceWithTournamentFile
+  remoteChangeCount?: number;
+  conflicts?: MergeConflict[]; // Nothing is applied until they are resolved with mergeTournamentFile
+}
 
 interface TournamentStore extends TournamentState {
   // Settings actions
-  updateSettings: (settings: Partial<TournamentSettings>) => void;
+  // Refused for changes moving rounds in the grid of a scheduled tournament, see applySettingsChange
+  updateSettings: (settings: Partial<TournamentSettings>) => { success: boolean; error?: string };
+  // Settings moving rounds in the grid, with the schedule planned for them (see settingsChange.ts)
+  applySettingsChange: (settings: Partial<TournamentSettings>, strategy: SettingsChangeStrategy, schedule: ScheduledRound[]) => void;
 
   // Series actions
   addSeries: (name: string, shortName: string) => void;
@@ -25,28 +85,78 @@ interface TournamentStore extends TournamentState {
   removeRound: (seriesId: string, roundId: string) => void;
   updateRound: (seriesId: string, roundId: string, updates: Partial<Omit<Round, 'id' | 'seriesId' | 'roundNumber'>>) => void;
 
+  // Entry actions
+  addEntry: (seriesId: string, playerNames: string[], club?: string) => void;
+  removeEntry: (seriesId: string, entryId: string) => void;
+  importEntries: (plans: ImportedSeriesPlan[]) => void;
+
   // Schedule actions
   scheduleRound: (roundId: string, row: number, col: number) => void;
   scheduleRoundWithPush: (roundId: string, row: number, col: number) => void;
+  // Keyboard move of a round: each step starts again from the schedule before the move,
+  // so that rounds pushed aside come back, and the whole move is one undo step
+  moveRoundFrom: (origin: ScheduledRound[], roundId: string, row: number, col: number) => boolean;
+  cancelRoundMove: (origin: ScheduledRound[]) => void; // Back to the schedule before the move
   scheduleRoundNext: (roundId: string) => void;
   scheduleNextRoundOfSeries: (currentRoundId: string) => void;
   unscheduleRound: (roundId: string) => void;
   unscheduleSeries: (seriesId: string) => void;
   moveScheduledRound: (roundId: string, newRow: number, newCol: number) => void;
   removeEmptyCell: (row: number, col: number) => void;
+  splitRound: (roundId: string) => void; // Detach the last match of the first group as a new group
+  moveMatchGroup: (roundId: string, group: number, row: number, col: number) => { success: boolean; error?: string };
+  rejoinMatchGroup: (roundId: string, group: number) => void; // Groups are numbered from 1, as in getScheduledRoundPositions
   clearSchedule: () => void;
-  undoSchedule: () => void;
+
+  // Block actions: several scheduled rounds at once, as a single undo step
+  shiftScheduledRounds: (roundIds: string[], slots: number) => { success: boolean; error?: string };
+  moveScheduledBlock: (roundIds: string[], anchorRoundId: string, row: number, col: number) => { success: boolean; error?: string };
+  swapScheduledBlocks: (firstIds: string[], secondIds: string[]) => { success: boolean; error?: string };
+  unscheduleRounds: (roundIds: string[]) => void;
+
+  // Row actions: whole time slots, up to the end of the day of the row
+  insertScheduleRow: (row: number) => { success: boolean; error?: string }; // Empty row before this one
+  deleteScheduleRow: (row: number) => { success: boolean; error?: string }; // Only if no match uses it
+  shiftScheduleFrom: (row: number, slots: number) => { success: boolean; error?: string }; // Negative to bring forward
+
+  // Snapshot actions (named versions of the schedule)
+  saveSnapshot: (name: string) => void;
+  restoreSnapshot: (id: string) => void;
+  renameSnapshot: (id: string, name: string) => void;
+  deleteSnapshot: (id: string) => void;
+
+  // History actions
+  undo: () => void;
+  redo: () => void;
+  goToHistoryStep: (step: number) => void; // 0 is the oldest recorded state
+
+  // Live actions (tournament day)
+  startMatch: (roundId: string, matchIndex: number) => void;
+  finishMatch: (roundId: string, matchIndex: number) => void;
+  startRound: (roundId: string) => void;
+  finishRound: (roundId: string) => void;
+  resetRoundProgress: (roundId: string) => void;
+  clearProgress: () => void;
 
   // Phase actions
-  setPhase: (phase: 'config' | 'schedule') => void;
+  setPhase: (phase: TournamentPhase) => void;
 
   // Auto-schedule
-  autoSchedule: () => void;
+  autoSchedule: () => AutoScheduleResult;
 
   // Reset
   resetAll: () => void;
+  // Switch to another tournament of the workspace, its history starts over
+  loadTournament: (saved: SavedTournament) => void;
   importTournamentData: (data: unknown) => { success: boolean; error?: string };
 
+  // File exchange between organizers, merged from the last state both sides know (see merge.ts)
+  createTournamentFile: () => TournamentFile;
+  receiveTournamentFile: (data: unknown) => ReceiveFileResult;
+  // An unrelated file replacing the tournament, only once the user has confirmed it
+  replaceWithTournamentFile: (data: unknown) => { success: boolean; error?: string };
+  mergeTournamentFile: (data: unknown, choices: Record<string, MergeChoice>) => { success: boolean; error?: string };
+
   // Validation
   canScheduleRound: (roundId: string, row: number, col: number, excludeRoundId?: string) => { valid: boolean; reason?: string };
 }
@@ -61,192 +171,505 @@ const defaultSettings: TournamentSettings = {
 const initialState: TournamentState = {
   settings: defaultSettings,
   series: [],
+  players: [],
   schedule: [],
-  scheduleHistory: [],
+  snapshots: [],
+  progress: [],
   currentPhase: 'config',
+  syncPoints: [],
+  undoStack: [],
+  redoStack: [],
 };
 
-type ImportedTournamentPayload = {
-  settings: TournamentSettings;
-  series: Series[];
-  schedule: ScheduledRound[];
-};
+const MAX_HISTORY_STEPS = 100;
+const MAX_SYNC_POINTS = 10;
+const HISTORY_MERGE_DELAY_MS = 1500;
 
-function isObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null;
+function normalizePlayerName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
 }
 
-function isValidTime(value: unknown): value is string {
-  return (
-    typeof value === 'string' &&
-    /^([01]\d|2[0-3]):([0-5]\d)$/.test(value)
-  );
+// IDs of the players with these names, reusing registered players so that the
+// same person is tracked across series (new players are appended to `players`).
+// A player is the same person by licence number when both have one, otherwise
+// by name and club: two homonyms of different clubs are different players.
+function registerPlayers(players: Player[], names: string[], club?: string, licences?: string[]): string[] {
+  return names.map((name, i) => {
+    const licence = licences?.[i]?.trim() || undefined;
+    const index = players.findIndex((p) =>
+      licence && p.licence
+        ? p.licence === licence
+        : normalizePlayerName(p.name) === normalizePlayerName(name) &&
+          normalizePlayerName(p.club ?? '') === normalizePlayerName(club ?? '')
+    );
+    if (index !== -1) {
+      if (licence && !players[index].licence) players[index] = { ...players[index], licence };
+      return players[index].id;
+    }
+    const player: Player = {
+      id: generateId(),
+      name,
+      ...(club ? { club } : {}),
+      ...(licence ? { licence } : {}),
+    };
+    players.push(player);
+    return player.id;
+  });
 }
 
-function validateImportPayload(data: unknown): { payload?: ImportedTournamentPayload; error?: string } {
-  if (!isObject(data)) {
-    return { error: 'Le fichier JSON est invalide (objet attendu).' };
-  }
+// Drop players that are no longer entered in any series
+function prunePlayers(players: Player[], series: Series[]): Player[] {
+  const usedIds = new Set(series.flatMap((s) => (s.entries ?? []).flatMap((e) => e.playerIds)));
+  return players.filter((p) => usedIds.has(p.id));
+}
 
-  const { settings, series, schedule } = data;
+// Apply an update to the matches of a round, keeping one progress entry per round
+function updateMatchProgress(
+  progress: RoundProgress[],
+  round: Round,
+  update: (matches: MatchProgress[]) => MatchProgress[]
+): RoundProgress[] {
+  const current = progress.find((p) => p.roundId === round.id);
+  const matches = Array.from({ length: round.matchCount }, (_, i) => current?.matches[i] ?? {});
+  const next = { roundId: round.id, matches: update(matches) };
+  return current
+    ? progress.map((p) => (p.roundId === round.id ? next : p))
+    : [...progress, next];
+}
 
-  if (!isObject(settings)) {
-    return { error: 'Parametres du tournoi invalides.' };
+function findRound(series: Series[], roundId: string): Round | undefined {
+  for (const s of series) {
+    const round = s.rounds.find((r) => r.id === roundId);
+    if (round) return round;
   }
+  return undefined;
+}
 
-  const courtCount = settings.courtCount;
-  const timeSlotDuration = settings.timeSlotDuration;
-  const startTime = settings.startTime;
-  const endTime = settings.endTime;
-
-  if (
-    typeof courtCount !== 'number' ||
-    !Number.isInteger(courtCount) ||
-    courtCount < 1 ||
-    typeof timeSlotDuration !== 'number' ||
-    !Number.isInteger(timeSlotDuration) ||
-    timeSlotDuration < 1 ||
-    !isValidTime(startTime) ||
-    !isValidTime(endTime)
-  ) {
-    return { error: 'Parametres du tournoi invalides.' };
+function findRoundWithSeries(series: Series[], roundId: string): { round: Round; series: Series } | undefined {
+  for (const s of series) {
+    const round = s.rounds.find((r) => r.id === roundId);
+    if (round) return { round, series: s };
   }
+  return undefined;
+}
 
-  if (!Array.isArray(series)) {
-    return { error: 'Liste des series invalide.' };
+// "DH1 Demi-finales", used in history labels
+function getRoundName(series: Series[], roundId: string): string {
+  for (const s of series) {
+    const round = s.rounds.find((r) => r.id === roundId);
+    if (round) return `${s.shortName} ${round.label}`;
   }
+  return 'un tour';
+}
 
-  const seriesIds = new Set<string>();
-  const roundIds = new Set<string>();
-  const validatedSeries: Series[] = [];
+function getSeriesName(series: Series[], seriesId: string): string {
+  return series.find((s) => s.id === seriesId)?.shortName ?? '?';
+}
 
-  for (const entry of series) {
-    if (!isObject(entry)) {
-      return { error: 'Une serie du fichier est invalide.' };
-    }
+// Drop deleted rounds from the saved versions of the schedule
+function pruneSnapshots(snapshots: ScheduleSnapshot[], removedRoundIds: string[]): ScheduleSnapshot[] {
+  return snapshots.map((snapshot) => ({
+    ...snapshot,
+    schedule: snapshot.schedule.filter((sr) => !removedRoundIds.includes(sr.roundId)),
+  }));
+}
 
-    const { id, name, shortName, color, rounds } = entry;
-    if (
-      typeof id !== 'string' ||
-      !id.trim() ||
-      typeof name !== 'string' ||
-      typeof shortName !== 'string' ||
-      typeof color !== 'string' ||
-      !Array.isArray(rounds)
-    ) {
-      return { error: 'Une serie du fichier est invalide.' };
-    }
+// First series order issue (order or same row) of the changed schedule that the
+// current one does not have, issues already there are the user's to resolve
+function findIntroducedOrderIssue(state: TournamentState, changed: ScheduledRound[]): ScheduleIssue | undefined {
+  const { series, schedule, settings } = state;
+  const orderKey = (issue: ScheduleIssue) => `${issue.kind}:${issue.roundIds.join(',')}`;
+  const isOrderIssue = (issue: ScheduleIssue) => issue.kind === 'order' || issue.kind === 'same-row';
+  const known = new Set(findScheduleIssues(series, schedule, settings).filter(isOrderIssue).map(orderKey));
+  return findScheduleIssues(series, changed, settings).find((issue) => isOrderIssue(issue) && !known.has(orderKey(issue)));
+}
 
-    if (seriesIds.has(id)) {
-      return { error: 'IDs de serie dupliques detectes.' };
+// Put moved rounds at their new place, the other rounds in their way are pushed forward
+function placeScheduledBlock(
+  state: TournamentState,
+  moved: ScheduledRound[]
+): { schedule: ScheduledRound[]; error?: undefined } | { error: string } {
+  const { series, schedule, settings } = state;
+  const isCellOpen = createCellAvailability(settings);
+  const slotCount = getSlotCount(settings);
+  const blockCells = new Set<string>();
+
+  for (const sr of moved) {
+    const info = findRoundWithSeries(series, sr.roundId);
+    if (!info) continue;
+    const starts = [{ row: sr.row, startCol: sr.startCol }, ...(sr.groups ?? [])];
+    if (starts.some((p) => p.row < 0 || p.row >= slotCount || p.startCol < 0 || p.startCol >= settings.courtCount)) {
+      return { error: `${getRoundName(series, sr.roundId)} sortirait de la grille.` };
+    }
+    if (starts.some((p) => !isCellOpen(p.row, p.startCol))) {
+      return { error: `${getRoundName(series, sr.roundId)} commencerait sur un terrain indisponible.` };
+    }
+    const cells = getScheduledRoundPositions(sr, info.round, info.series, settings, isCellOpen);
+    if (!cells.every((p) => isRowAllowedForSeries(p.row, info.series, settings))) {
+      return { error: `La série ${info.series.shortName} est réservée à un autre jour.` };
     }
-    seriesIds.add(id);
+    for (const p of cells) {
+      const key = `${p.row}-${p.col}`;
+      if (blockCells.has(key)) return { error: 'Les tours déplacés se chevaucheraient.' };
+      blockCells.add(key);
+    }
+  }
 
-    const validatedRounds: Round[] = [];
-    for (const round of rounds) {
-      if (!isObject(round)) {
-        return { error: 'Un tour du fichier est invalide.' };
-      }
+  const movedIds = new Set(moved.map((sr) => sr.roundId));
+  const others = schedule.filter((sr) => !movedIds.has(sr.roundId));
+  const inTheWay = (sr: ScheduledRound) =>
+    getScheduledRoundCells(sr, series, settings, isCellOpen).some((p) => blockCells.has(`${p.row}-${p.col}`));
+  const fixedRounds = [...moved, ...others.filter((sr) => !inTheWay(sr))];
+  const pushed = others.filter(inTheWay).sort((a, b) => a.row - b.row || a.startCol - b.startCol);
+  const result = [...fixedRounds, ...resolveOverlaps(fixedRounds, pushed, series, settings, isCellOpen)];
 
-      const { id: roundId, seriesId, roundNumber, matchCount, label } = round;
-
-      if (
-        typeof roundId !== 'string' ||
-        !roundId.trim() ||
-        typeof seriesId !== 'string' ||
-        seriesId !== id ||
-        typeof roundNumber !== 'number' ||
-        !Number.isInteger(roundNumber) ||
-        roundNumber < 1 ||
-        typeof matchCount !== 'number' ||
-        !Number.isInteger(matchCount) ||
-        matchCount < 1 ||
-        typeof label !== 'string'
-      ) {
-        return { error: 'Un tour du fichier est invalide.' };
-      }
+  // Neither the moved rounds nor the pushed ones may pass another round of their series
+  const introduced = findIntroducedOrderIssue(state, result);
+  if (introduced) return { error: `Déplacement impossible, ${introduced.message}.` };
 
-      if (roundIds.has(roundId)) {
-        return { error: 'IDs de tour dupliques detectes.' };
-      }
-      roundIds.add(roundId);
-
-      validatedRounds.push({
-        id: roundId,
-        seriesId,
-        roundNumber,
-        matchCount,
-        label,
-      });
-    }
+  return { schedule: result };
+}
 
-    validatedSeries.push({
-      id,
-      name,
-      shortName,
-      color,
-      rounds: validatedRounds,
-    });
+// Schedule of a round placed at a cell, the rounds from that cell on pushed forward.
+// Undefined when the cell is closed or cuts through another round.
+function pushRoundIntoSchedule(
+  state: TournamentState,
+  roundId: string,
+  row: number,
+  col: number
+): { schedule: ScheduledRound[]; label: string } | undefined {
+  const { series, schedule, settings } = state;
+
+  // Find the round being placed
+  let targetRound: Round | undefined;
+  let targetSeries: Series | undefined;
+  for (const s of series) {
+    const r = s.rounds.find((r) => r.id === roundId);
+    if (r) {
+      targetRound = r;
+      targetSeries = s;
+      break;
+    }
   }
 
-  if (!Array.isArray(schedule)) {
-    return { error: 'Echeancier invalide.' };
+  if (!targetRound || !targetSeries) return undefined;
+
+  // A split round keeps its match groups where they are
+  const groups = schedule.find((sr) => sr.roundId === roundId)?.groups;
+  const placed: ScheduledRound = { roundId, row, startCol: col, ...(groups ? { groups } : {}) };
+  const matchCount = getMainGroupMatchCount(placed, targetRound);
+  const isCellOpen = createCellAvailability(settings);
+
+  if (!isCellOpen(row, col)) {
+    console.warn('Cannot place round on a closed court');
+    return undefined;
   }
 
-  const validatedSchedule: ScheduledRound[] = [];
-  const scheduledRoundIds = new Set<string>();
+  // Helper to get all positions occupied by a round
+  const getOccupiedPositions = (sr: ScheduledRound): Array<{ row: number, col: number }> =>
+    getScheduledRoundCells(sr, series, settings, isCellOpen);
+
+  // Helper to convert position to linear index (for sorting)
+  const posToLinearIndex = (pos: { row: number, col: number }): number => {
+    return pos.row * settings.courtCount + pos.col;
+  };
+
+  // Get all positions for the new round
+  const targetPositions = getOccupiedPositions(placed);
+  const targetStartIndex = posToLinearIndex({ row, col });
+
+  // Remove the round being placed from the schedule (if it was already scheduled)
+  let newSchedule = schedule.filter(sr => sr.roundId !== roundId);
+
+  // VALIDATION: Check that we're not placing the round in the middle of another round
+  // A round can only be placed before or after another round, not cutting through it
+  for (const sr of newSchedule) {
+    const positions = getOccupiedPositions(sr);
+
+    // Count how many cells of this existing round are overlapped by the new round
+    const overlappingCells = positions.filter(pos =>
+      targetPositions.some(tp => tp.row === pos.row && tp.col === pos.col)
+    ).length;
 
-  for (const entry of schedule) {
-    if (!isObject(entry)) {
-      return { error: 'Une entree d\'echeancier est invalide.' };
+    // If we overlap some but not all cells, we're cutting through the middle - BLOCK IT
+    if (overlappingCells > 0 && overlappingCells < positions.length) {
+      console.warn('Cannot place round in the middle of another round');
+      return undefined; // Block the placement
     }
+  }
+
+  // Find all rounds that need to be shifted
+  // First, check if we can place the round without any overlap
+  const hasAnyOverlap = newSchedule.some(sr => {
+    const positions = getOccupiedPositions(sr);
+    return positions.some(pos =>
+      targetPositions.some(tp => tp.row === pos.row && tp.col === pos.col)
+    );
+  });
+
+  // If there's no overlap, simply place the round without shifting anyone
+  if (!hasAnyOverlap) {
+    newSchedule.push(placed);
+    return { schedule: newSchedule, label: `Placement de ${getRoundName(series, roundId)}` };
+  }
 
-    const { roundId, row, startCol } = entry;
-    if (
-      typeof roundId !== 'string' ||
-      !roundIds.has(roundId) ||
-      typeof row !== 'number' ||
-      !Number.isInteger(row) ||
-      row < 0 ||
-      typeof startCol !== 'number' ||
-      !Number.isInteger(startCol) ||
-      startCol < 0 ||
-      startCol >= courtCount
-    ) {
-      return { error: 'Une entree d\'echeancier est invalide.' };
+  // Otherwise, we need to shift rounds
+  const roundsToShift: ScheduledRound[] = [];
+  const roundsNotToShift: ScheduledRound[] = [];
+
+  for (const sr of newSchedule) {
+    const positions = getOccupiedPositions(sr);
+    const startIndex = posToLinearIndex({ row: sr.row, col: sr.startCol });
+
+    // Check if this round overlaps with target positions
+    const hasOverlap = positions.some(pos =>
+      targetPositions.some(tp => tp.row === pos.row && tp.col === pos.col)
+    );
+
+    // Check if this round starts at or after the insertion point
+    const startsAtOrAfter = startIndex >= targetStartIndex;
+
+    // Shift if there's overlap OR if it starts at/after the insertion point
+    if (hasOverlap || startsAtOrAfter) {
+      roundsToShift.push(sr);
+    } else {
+      roundsNotToShift.push(sr);
     }
+  }
+
+  // Sort rounds to shift by their position in the grid (earliest first)
+  roundsToShift.sort((a, b) => {
+    const aStart = posToLinearIndex({ row: a.row, col: a.startCol });
+    const bStart = posToLinearIndex({ row: b.row, col: b.startCol });
+    return aStart - bStart;
+  });
+
+  // Shift each round by the number of open cells needed (matchCount of the inserted round)
+  const shiftAmount = matchCount;
+  const shiftedRounds: ScheduledRound[] = [];
 
-    if (scheduledRoundIds.has(roundId)) {
-      return { error: 'Un tour ne peut apparaitre qu\'une seule fois dans l\'echeancier.' };
+  for (const sr of roundsToShift) {
+    shiftedRounds.push(offsetScheduledRound(sr, shiftAmount, settings.courtCount, isCellOpen));
+  }
+
+  // Combine: rounds that don't move + new round + shifted rounds (kept clear of longer matches)
+  const fixedRounds = [...roundsNotToShift, placed];
+  newSchedule = [
+    ...fixedRounds,
+    ...resolveOverlaps(fixedRounds, shiftedRounds, series, settings, isCellOpen),
+  ];
+
+  return { schedule: newSchedule, label: `Insertion de ${getRoundName(series, roundId)}` };
+}
+
+// Move every part of the schedule starting from a row by whole time slots. The
+// following days keep their schedule: a match that would run into them is refused,
+// as are freed rows that are not empty when moving back and series out of order.
+function shiftScheduleRows(
+  state: TournamentState,
+  fromRow: number,
+  slots: number,
+  dayRow = fromRow // A row of the day to shift
+): { schedule: ScheduledRound[]; error?: undefined } | { error: string } {
+  const { series, schedule, settings } = state;
+  const isCellOpen = createCellAvailability(settings);
+  const ranges = getDayRowRanges(settings);
+  const dayIndex = ranges.findIndex((r) => dayRow >= r.firstRow && dayRow < r.firstRow + r.rowCount);
+  const day = ranges[dayIndex === -1 ? ranges.length - 1 : dayIndex];
+  // Rows past the last day continue it
+  const lastRow = day === ranges[ranges.length - 1] ? Infinity : day.firstRow + day.rowCount - 1;
+
+  if (slots < 0) {
+    const firstFreed = fromRow + slots;
+    if (firstFreed < day.firstRow) {
+      return { error: `Impossible d'avancer avant le début de la journée (${formatRowLabel(day.firstRow, settings)}).` };
+    }
+    const usedRows = new Set(
+      schedule.flatMap((sr) => getScheduledRoundCells(sr, series, settings, isCellOpen).map((p) => p.row))
+    );
+    for (let row = firstFreed; row < fromRow; row++) {
+      if (usedRows.has(row)) return { error: `Le créneau de ${formatRowLabel(row, settings)} n'est pas libre.` };
     }
-    scheduledRoundIds.add(roundId);
+  }
 
-    validatedSchedule.push({ roundId, row, startCol });
+  const moveRow = (row: number) => (row >= fromRow && row <= lastRow ? row + slots : row);
+  const fixedRounds: ScheduledRound[] = [];
+  const shifted: ScheduledRound[] = [];
+  for (const sr of schedule) {
+    const moved: ScheduledRound = {
+      ...sr,
+      row: moveRow(sr.row),
+      ...(sr.groups ? { groups: sr.groups.map((g) => ({ ...g, row: moveRow(g.row) })) } : {}),
+    };
+    const isMoved = moved.row !== sr.row || moved.groups?.some((g, i) => g.row !== sr.groups![i].row);
+    (isMoved ? shifted : fixedRounds).push(moved);
   }
+  shifted.sort((a, b) => a.row - b.row || a.startCol - b.startCol);
+  const placed = resolveOverlaps(fixedRounds, shifted, series, settings, isCellOpen);
+
+  // The moved matches stay on the shifted day and on the day reserved to their series
+  for (const sr of placed) {
+    const info = findRoundWithSeries(series, sr.roundId);
+    const before = schedule.find((item) => item.roundId === sr.roundId);
+    if (!info || !before) continue;
+    const partRows = (item: ScheduledRound) => [item.row, ...(item.groups ?? []).map((g) => g.row)];
+    const rowsBefore = partRows(before);
+    const rowsAfter = partRows(sr);
+    for (const p of getScheduledRoundPositions(sr, info.round, info.series, settings, isCellOpen)) {
+      if (rowsAfter[p.group] === rowsBefore[p.group]) continue;
+      if (p.row < day.firstRow || p.row > lastRow) {
+        return {
+          error: `${getRoundName(series, sr.roundId)} passerait sur le jour suivant, la fin de ${day.day.label} est déjà occupée.`,
+        };
+      }
+      if (!isRowAllowedForSeries(p.row, info.series, settings)) {
+        return { error: `La série ${info.series.shortName} est réservée à un autre jour.` };
+      }
+    }
+  }
+  const result = [...fixedRounds, ...placed];
+
+  // Closed courts or longer matches may push a round past the next one of its series
+  const introduced = findIntroducedOrderIssue(state, result);
+  if (introduced) return { error: `Décalage impossible, ${introduced.message}.` };
+
+  return { schedule: result };
+}
+
+// First cell of a block of rounds, in reading order of the grid
+function getBlockAnchor(rounds: ScheduledRound[]): { row: number; col: number } {
+  const first = [...rounds].sort((a, b) => a.row - b.row || a.startCol - b.startCol)[0];
+  return { row: first.row, col: first.startCol };
+}
+
+function addSyncPoint(syncPoints: SyncPoint[], point: SyncPoint): SyncPoint[] {
+  return [...syncPoints.filter((p) => p.id !== point.id), point].slice(-MAX_SYNC_POINTS);
+}
+
+// State carried by a received file, the base of the next merge with its author
+function toSyncPoint(id: string, payload: TournamentData): SyncPoint {
+  return { id, at: Date.now(), series: payload.series, schedule: payload.schedule };
+}
+
+// Most recent state known by both sides, the base of the merge
+function findMergeBase(syncPoints: SyncPoint[], sync: TournamentFileSync | undefined): SyncPoint | undefined {
+  if (!sync) return undefined;
+  const known = new Set(sync.knownIds);
+  return [...syncPoints].reverse().find((p) => known.has(p.id));
+}
+
+// The tournament with a received file merged in
+function mergeIntoState(
+  state: TournamentState,
+  payload: TournamentData,
+  base: SyncPoint,
+  choices: Record<string, MergeChoice> = {}
+): { outcome: MergeOutcome; changes: Partial<TournamentData> } {
+  const outcome = mergeTournaments(base, state, payload, state.settings, choices);
+  const roundMatchCounts = new Map(outcome.series.flatMap((s) => s.rounds.map((r) => [r.id, r.matchCount] as const)));
+
+  // A round split on one side and shortened on the other is put back in one piece
+  const schedule = outcome.schedule.map((sr): ScheduledRound => {
+    if (!sr.groups || isValidMatchGroups(sr.groups, roundMatchCounts.get(sr.roundId)!)) return sr;
+    return { roundId: sr.roundId, row: sr.row, startCol: sr.startCol };
+  });
+  const scheduledRoundIds = new Set(schedule.map((sr) => sr.roundId));
+  const removedRoundIds = state.series.flatMap((s) => s.rounds.map((r) => r.id)).filter((id) => !roundMatchCounts.has(id));
 
   return {
-    payload: {
-      settings: {
-        courtCount,
-        timeSlotDuration,
-        startTime,
-        endTime,
-      },
-      series: validatedSeries,
-      schedule: validatedSchedule,
+    outcome,
+    changes: {
+      series: outcome.series,
+      players: prunePlayers(outcome.players, outcome.series),
+      schedule,
+      snapshots: pruneSnapshots(state.snapshots, removedRoundIds),
+      progress: state.progress.filter((p) => scheduledRoundIds.has(p.roundId)),
     },
   };
 }
 
+function pickTournamentData(state: TournamentData): TournamentData {
+  const { settings, series, players, schedule, snapshots, progress } = state;
+  return { settings, series, players, schedule, snapshots, progress };
+}
+
+function pickSavedTournament(state: SavedTournament): SavedTournament {
+  return { ...pickTournamentData(state), currentPhase: state.currentPhase, syncPoints: state.syncPoints };
+}
+
+// Apply changes to the tournament, recording the current state as an undo step.
+// Successive changes with the same merge key (typing in a field) make one step.
+function withHistory(
+  state: TournamentState,
+  label: string,
+  changes: Partial<TournamentData>,
+  mergeKey?: string
+): Partial<TournamentState> {
+  const now = Date.now();
+  const last = state.undoStack[state.undoStack.length - 1];
+
+  if (mergeKey && last?.mergeKey === mergeKey && state.redoStack.length === 0 && now - last.at < HISTORY_MERGE_DELAY_MS) {
+    return { ...changes, undoStack: [...state.undoStack.slice(0, -1), { ...last, at: now }] };
+  }
+
+  const entry: HistoryEntry = { label, at: now, data: pickTournamentData(state), ...(mergeKey ? { mergeKey } : {}) };
+  return {
+    ...changes,
+    undoStack: [...state.undoStack, entry].slice(-MAX_HISTORY_STEPS),
+    redoStack: [],
+  };
+}
+
+// Move through the history: negative steps undo, positive steps redo
+function travelHistory(state: TournamentState, steps: number): Partial<TournamentState> {
+  const undoStack = [...state.undoStack];
+  const redoStack = [...state.redoStack];
+  let data = pickTournamentData(state);
+
+  for (let i = 0; i < Math.abs(steps); i++) {
+    const from = steps < 0 ? undoStack : redoStack;
+    const to = steps < 0 ? redoStack : undoStack;
+    const entry = from.pop();
+    if (!entry) break;
+    // The entry keeps its label, its data becomes the state we leave
+    to.push({ label: entry.label, at: entry.at, data });
+    data = entry.data;
+  }
+
+  return { ...data, undoStack, redoStack };
+}
+
 export const useTournamentStore = create<TournamentStore>()(
   persist(
     (set, get) => ({
       ...initialState,
 
-      updateSettings: (settings) =>
-        set((state) => ({
-          settings: { ...state.settings, ...settings },
-        })),
+      updateSettings: (settings) => {
+        const state = get();
+        if (state.schedule.length > 0 && affectsScheduleLayout(state.settings, settings)) {
+          return { success: false, error: "Ce changement déplace les tours de l'échéancier, choisissez comment les replacer." };
+        }
+        set(
+          withHistory(
+            state,
+            'Modification des paramètres',
+            { settings: normalizeSettings({ ...state.settings, ...settings }) },
+            `settings:${Object.keys(settings).join(',')}`
+          )
+        );
+        return { success: true };
+      },
+
+      applySettingsChange: (settings, strategy, schedule) =>
+        set((state) => {
+          const newSettings = applySettingsChanges(state.settings, settings);
+          const label = SETTINGS_CHANGE_STRATEGIES.find((s) => s.strategy === strategy)!.label;
+          return withHistory(state, `Modification des paramètres (${label.toLowerCase()})`, {
+            settings: newSettings,
+            series: unpinRemovedDays(state.series, newSettings),
+            schedule,
+          });
+        }),
 
       addSeries: (name, shortName) =>
         set((state) => {
@@ -258,7 +681,7 @@ export const useTournamentStore = create<TournamentStore>()(
             color: generateSeriesColor(newIndex, newIndex + 1),
             rounds: [],
           };
-          return { series: [...state.series, newSeries] };
+          return withHistory(state, `Ajout de la série ${shortName}`, { series: [...state.series, newSeries] });
         }),
 
       removeSeries: (id) =>
@@ -271,30 +694,45 @@ export const useTournamentStore = create<TournamentStore>()(
           const filteredSchedule = state.schedule.filter(
             (sr) => !seriesRoundIds.includes(sr.roundId)
           );
-          return { series: filteredSeries, schedule: filteredSchedule };
+          return withHistory(state, `Suppression de la série ${getSeriesName(state.series, id)}`, {
+            series: filteredSeries,
+            players: prunePlayers(state.players, filteredSeries),
+            schedule: filteredSchedule,
+            snapshots: pruneSnapshots(state.snapshots, seriesRoundIds),
+            progress: state.progress.filter((p) => !seriesRoundIds.includes(p.roundId)),
+          });
         }),
 
       updateSeries: (id, updates) =>
-        set((state) => ({
-          series: state.series.map((s) =>
-            s.id === id ? { ...s, ...updates } : s
-          ),
-        })),
+        set((state) =>
+          withHistory(
+            state,
+            `Modification de la série ${getSeriesName(state.series, id)}`,
+            {
+              series: state.series.map((s) =>
+                s.id === id ? { ...s, ...updates } : s
+              ),
+            },
+            `series:${id}:${Object.keys(updates).join(',')}`
+          )
+        ),
 
       addRound: (seriesId, matchCount, label) =>
-        set((state) => ({
-          series: state.series.map((s) => {
-            if (s.id !== seriesId) return s;
-            const newRound: Round = {
-              id: generateId(),
-              seriesId,
-              roundNumber: s.rounds.length + 1,
-              matchCount,
-              label,
-            };
-            return { ...s, rounds: [...s.rounds, newRound] };
-          }),
-        })),
+        set((state) =>
+          withHistory(state, `Ajout du tour ${label} (${getSeriesName(state.series, seriesId)})`, {
+            series: state.series.map((s) => {
+              if (s.id !== seriesId) return s;
+              const newRound: Round = {
+                id: generateId(),
+                seriesId,
+                roundNumber: s.rounds.length + 1,
+                matchCount,
+                label,
+              };
+              return { ...s, rounds: [...s.rounds, newRound] };
+            }),
+          })
+        ),
 
       removeRound: (seriesId, roundId) =>
         set((state) => {
@@ -310,43 +748,136 @@ export const useTournamentStore = create<TournamentStore>()(
               .map((r, i) => ({ ...r, roundNumber: i + 1 }));
             return { ...s, rounds: filteredRounds };
           });
-          return { series: updatedSeries, schedule: filteredSchedule };
+          return withHistory(state, `Suppression du tour ${getRoundName(state.series, roundId)}`, {
+            series: updatedSeries,
+            schedule: filteredSchedule,
+            snapshots: pruneSnapshots(state.snapshots, [roundId]),
+            progress: state.progress.filter((p) => p.roundId !== roundId),
+          });
         }),
 
       updateRound: (seriesId, roundId, updates) =>
-        set((state) => ({
-          series: state.series.map((s) => {
-            if (s.id !== seriesId) return s;
-            return {
-              ...s,
-              rounds: s.rounds.map((r) =>
-                r.id === roundId ? { ...r, ...updates } : r
-              ),
-            };
-          }),
-        })),
+        set((state) =>
+          withHistory(
+            state,
+            `Modification du tour ${getRoundName(state.series, roundId)}`,
+            {
+              series: state.series.map((s) => {
+                if (s.id !== seriesId) return s;
+                return {
+                  ...s,
+                  rounds: s.rounds.map((r) =>
+                    r.id === roundId ? { ...r, ...updates } : r
+                  ),
+                };
+              }),
+              // A split round is rejoined when its match count changes
+              ...(updates.matchCount !== undefined
+                ? {
+                    schedule: state.schedule.map((sr) =>
+                      sr.roundId === roundId && sr.groups ? { roundId, row: sr.row, startCol: sr.startCol } : sr
+                    ),
+                  }
+                : {}),
+            },
+            `round:${roundId}:${Object.keys(updates).join(',')}`
+          )
+        ),
+
+      addEntry: (seriesId, playerNames, club) =>
+        set((state) => {
+          const names = playerNames.map((n) => n.trim().replace(/\s+/g, ' ')).filter(Boolean);
+          if (names.length === 0) return state;
+
+          const players = [...state.players];
+          const playerIds = registerPlayers(players, names, club);
+
+          return withHistory(state, `Inscription de ${names.join(' / ')} (${getSeriesName(state.series, seriesId)})`, {
+            players,
+            series: state.series.map((s) =>
+              s.id === seriesId
+                ? { ...s, entries: [...(s.entries ?? []), { id: generateId(), playerIds }] }
+                : s
+            ),
+          });
+        }),
+
+      removeEntry: (seriesId, entryId) =>
+        set((state) => {
+          const updatedSeries = state.series.map((s) =>
+            s.id === seriesId
+              ? { ...s, entries: (s.entries ?? []).filter((e) => e.id !== entryId) }
+              : s
+          );
+          return withHistory(state, `Retrait d'une inscription (${getSeriesName(state.series, seriesId)})`, {
+            series: updatedSeries,
+            players: prunePlayers(state.players, updatedSeries),
+          });
+        }),
+
+      importEntries: (plans) =>
+        set((state) => {
+          const players = [...state.players];
+          // Entries already in the series, or met earlier in the file, are not added again
+          const toEntries = (plan: ImportedSeriesPlan, existing: Entry[] = []): Entry[] => {
+            const entered = new Set(existing.map((e) => [...e.playerIds].sort().join('|')));
+            return plan.entries.flatMap((entry) => {
+              const playerIds = registerPlayers(players, entry.playerNames, entry.club, entry.licences);
+              const key = [...playerIds].sort().join('|');
+              if (entered.has(key)) return [];
+              entered.add(key);
+              return [{ id: generateId(), playerIds }];
+            });
+          };
+
+          // Existing series keep their rounds, only the entries are added
+          const updatedSeries = state.series.map((s) => {
+            const plan = plans.find((p) => p.existingSeriesId === s.id);
+            return plan ? { ...s, entries: [...(s.entries ?? []), ...toEntries(plan, s.entries)] } : s;
+          });
+
+          const newSeries = plans
+            .filter((plan) => !plan.existingSeriesId)
+            .map((plan, i): Series => {
+              const id = generateId();
+              const index = updatedSeries.length + i;
+              return {
+                id,
+                name: plan.name,
+                shortName: plan.shortName,
+                color: generateSeriesColor(index, index + 1),
+                rounds: plan.bracket.rounds.map((round, roundIndex) => ({
+                  id: generateId(),
+                  seriesId: id,
+                  roundNumber: roundIndex + 1,
+                  matchCount: round.matchCount,
+                  label: round.label,
+                })),
+                entries: toEntries(plan),
+              };
+            });
+
+          return withHistory(state, `Import des inscriptions (${plans.length} série(s))`, {
+            series: [...updatedSeries, ...newSeries],
+            players,
+          });
+        }),
 
       scheduleRound: (roundId, row, col) =>
         set((state) => {
-          // Save current state to history
-          const newHistory = [...state.scheduleHistory, state.schedule].slice(-20); // Keep last 20 states
           // Remove if already scheduled
           const filtered = state.schedule.filter((sr) => sr.roundId !== roundId);
-          return {
+          return withHistory(state, `Placement de ${getRoundName(state.series, roundId)}`, {
             schedule: [...filtered, { roundId, row, startCol: col }],
-            scheduleHistory: newHistory,
-          };
+          });
         }),
 
       unscheduleRound: (roundId) =>
-        set((state) => {
-          // Save current state to history
-          const newHistory = [...state.scheduleHistory, state.schedule].slice(-20);
-          return {
+        set((state) =>
+          withHistory(state, `Retrait de ${getRoundName(state.series, roundId)} de l'échéancier`, {
             schedule: state.schedule.filter((sr) => sr.roundId !== roundId),
-            scheduleHistory: newHistory,
-          };
-        }),
+          })
+        ),
 
       unscheduleSeries: (seriesId) =>
         set((state) => {
@@ -361,39 +892,146 @@ export const useTournamentStore = create<TournamentStore>()(
             return state;
           }
 
-          const newHistory = [...state.scheduleHistory, state.schedule].slice(-20);
-          return {
+          return withHistory(state, `Retrait de la série ${targetSeries.shortName} de l'échéancier`, {
             schedule: nextSchedule,
-            scheduleHistory: newHistory,
-          };
+          });
         }),
 
       moveScheduledRound: (roundId, newRow, newCol) =>
-        set((state) => {
-          // Save current state to history
-          const newHistory = [...state.scheduleHistory, state.schedule].slice(-20);
-          return {
+        set((state) =>
+          withHistory(state, `Déplacement de ${getRoundName(state.series, roundId)}`, {
             schedule: state.schedule.map((sr) =>
               sr.roundId === roundId ? { ...sr, row: newRow, startCol: newCol } : sr
             ),
-            scheduleHistory: newHistory,
+          })
+        ),
+
+      splitRound: (roundId) =>
+        set((state) => {
+          const { series, schedule, settings } = state;
+          const sr = schedule.find((item) => item.roundId === roundId);
+          const info = findRoundWithSeries(series, roundId);
+          if (!sr || !info || getMainGroupMatchCount(sr, info.round) < 2) return state;
+
+          const isCellOpen = createCellAvailability(settings);
+          const span = getMatchSlotSpan(info.round, info.series, settings.timeSlotDuration);
+          const lastIndex = Math.max(
+            ...getScheduledRoundPositions(sr, info.round, info.series, settings, isCellOpen)
+              .filter((p) => p.group === 0)
+              .map((p) => p.row * settings.courtCount + p.col)
+          );
+
+          // The detached match goes to the first free cell after the first matches, ready to be dragged
+          const occupied = new Set(
+            schedule.flatMap((item) => getScheduledRoundCells(item, series, settings, isCellOpen).map((p) => `${p.row}-${p.col}`))
+          );
+          const maxIndex = (getSlotCount(settings) + 1000) * settings.courtCount;
+          let index = lastIndex + 1;
+          for (; index < maxIndex; index++) {
+            const row = Math.floor(index / settings.courtCount);
+            const col = index % settings.courtCount;
+            const rows = Array.from({ length: span }, (_, i) => row + i);
+            if (
+              rows.every((r) => isCellOpen(r, col) && !occupied.has(`${r}-${col}`)) &&
+              isRowAllowedForSeries(row, info.series, settings)
+            ) {
+              break;
+            }
+          }
+
+          const group: MatchGroup = {
+            row: Math.floor(index / settings.courtCount),
+            startCol: index % settings.courtCount,
+            matchCount: 1,
           };
+          return withHistory(state, `Séparation d'un match de ${getRoundName(series, roundId)}`, {
+            schedule: schedule.map((item) =>
+              item.roundId === roundId ? { ...item, groups: [group, ...(item.groups ?? [])] } : item
+            ),
+          });
+        }),
+
+      moveMatchGroup: (roundId, group, row, col) => {
+        const state = get();
+        const { series, schedule, settings } = state;
+        const sr = schedule.find((item) => item.roundId === roundId);
+        const info = findRoundWithSeries(series, roundId);
+        const target = sr?.groups?.[group - 1];
+        if (!sr || !info || !target) return { success: false, error: 'Groupe de matchs introuvable.' };
+
+        const isCellOpen = createCellAvailability(settings);
+        if (!isCellOpen(row, col)) {
+          return { success: false, error: 'Ce terrain est indisponible sur ce créneau.' };
+        }
+
+        const groups = sr.groups!.map((g, i) => (i === group - 1 ? { ...g, row, startCol: col } : g));
+        const moved: ScheduledRound = { ...sr, groups };
+        const positions = getScheduledRoundPositions(moved, info.round, info.series, settings, isCellOpen);
+        const cells = positions.filter((p) => p.group === group);
+        if (!cells.every((p) => isRowAllowedForSeries(p.row, info.series, settings))) {
+          return { success: false, error: `La série ${info.series.shortName} est réservée à un autre jour.` };
+        }
+
+        // Matches are moved into free cells only, other rounds are never pushed
+        const occupied = new Set(
+          [
+            ...positions.filter((p) => p.group !== group),
+            ...schedule
+              .filter((item) => item.roundId !== roundId)
+              .flatMap((item) => getScheduledRoundCells(item, series, settings, isCellOpen)),
+          ].map((p) => `${p.row}-${p.col}`)
+        );
+        if (cells.some((p) => occupied.has(`${p.row}-${p.col}`))) {
+          return { success: false, error: 'Ces cases sont déjà occupées.' };
+        }
+
+        // The matches stay after the previous round of the series and before the next one
+        const updatedSchedule = schedule.map((item) => (item.roundId === roundId ? moved : item));
+        const introduced = findIntroducedOrderIssue(state, updatedSchedule);
+        if (introduced) return { success: false, error: `Déplacement impossible, ${introduced.message}.` };
+
+        set(
+          withHistory(state, `Déplacement d'un groupe de matchs de ${getRoundName(series, roundId)}`, {
+            schedule: updatedSchedule,
+          })
+        );
+        return { success: true };
+      },
+
+      rejoinMatchGroup: (roundId, group) =>
+        set((state) => {
+          const { series, schedule, settings } = state;
+          const sr = schedule.find((item) => item.roundId === roundId);
+          if (!sr?.groups?.[group - 1]) return state;
+
+          // The matches go back to the first group, rounds now in its way are pushed forward
+          const groups = sr.groups.filter((_, i) => i !== group - 1);
+          const rejoined: ScheduledRound = groups.length > 0 ? { ...sr, groups } : { roundId, row: sr.row, startCol: sr.startCol };
+          const isCellOpen = createCellAvailability(settings);
+          const rejoinedCells = new Set(
+            getScheduledRoundCells(rejoined, series, settings, isCellOpen).map((p) => `${p.row}-${p.col}`)
+          );
+          const others = schedule.filter((item) => item.roundId !== roundId);
+          const inTheWay = (item: ScheduledRound) =>
+            getScheduledRoundCells(item, series, settings, isCellOpen).some((p) => rejoinedCells.has(`${p.row}-${p.col}`));
+          const fixedRounds = [rejoined, ...others.filter((item) => !inTheWay(item))];
+          const pushed = others
+            .filter(inTheWay)
+            .sort((a, b) => a.row - b.row || a.startCol - b.startCol);
+
+          return withHistory(state, `Regroupement des matchs de ${getRoundName(series, roundId)}`, {
+            schedule: [...fixedRounds, ...resolveOverlaps(fixedRounds, pushed, series, settings, isCellOpen)],
+          });
         }),
 
       removeEmptyCell: (row, col) => {
         const state = get();
         const { series, schedule, settings } = state;
+        const isCellOpen = createCellAvailability(settings);
 
         // Helper to get all positions occupied by a round
-        const getOccupiedPositions = (sr: ScheduledRound): Array<{ row: number, col: number }> => {
-          for (const s of series) {
-            const r = s.rounds.find((r) => r.id === sr.roundId);
-            if (r) {
-              return getRoundCellPositions(sr.row, sr.startCol, r.matchCount, settings.courtCount);
-            }
-          }
-          return [{ row: sr.row, col: sr.startCol }];
-        };
+        const getOccupiedPositions = (sr: ScheduledRound): Array<{ row: number, col: number }> =>
+          getScheduledRoundCells(sr, series, settings, isCellOpen);
 
         // Helper to convert position to linear index
         const posToLinearIndex = (pos: { row: number, col: number }): number => {
@@ -411,6 +1049,11 @@ export const useTournamentStore = create<TournamentStore>()(
           return;
         }
 
+        if (!isCellOpen(row, col)) {
+          console.warn('Cannot remove a closed cell');
+          return;
+        }
+
         // Find all rounds that come after this cell (in linear order)
         const targetCellIndex = posToLinearIndex({ row, col });
         const roundsToShift: ScheduledRound[] = [];
@@ -438,112 +1081,230 @@ export const useTournamentStore = create<TournamentStore>()(
         const shiftedRounds: ScheduledRound[] = [];
 
         for (const sr of roundsToShift) {
-          const currentIndex = posToLinearIndex({ row: sr.row, col: sr.startCol });
-          const newIndex = currentIndex - 1; // Shift back by 1
+          // Shift back by 1 open cell, match groups of a split round included
+          shiftedRounds.push(offsetScheduledRound(sr, -1, settings.courtCount, isCellOpen));
+        }
 
-          // Convert back to row/col
-          const newRow = Math.floor(newIndex / settings.courtCount);
-          const newCol = newIndex % settings.courtCount;
+        // Combine: rounds that don't move + shifted rounds (kept clear of longer matches)
+        const newSchedule = [
+          ...roundsNotToShift,
+          ...resolveOverlaps(roundsNotToShift, shiftedRounds, series, settings, isCellOpen),
+        ];
 
-          shiftedRounds.push({
-            ...sr,
-            row: newRow,
-            startCol: newCol
-          });
+        set(withHistory(state, "Suppression d'une case vide", { schedule: newSchedule }));
+      },
+
+      clearSchedule: () =>
+        set((state) =>
+          state.schedule.length === 0 ? state : withHistory(state, "Échéancier vidé", { schedule: [] })
+        ),
+
+      shiftScheduledRounds: (roundIds, slots) => {
+        const state = get();
+        const block = state.schedule.filter((sr) => roundIds.includes(sr.roundId));
+        if (block.length === 0 || slots === 0) return { success: false, error: 'Aucun tour à décaler.' };
+
+        const result = placeScheduledBlock(state, block.map((sr) => translateScheduledRound(sr, slots, 0)));
+        if (result.error !== undefined) return { success: false, error: result.error };
+        const direction = slots > 0 ? 'plus tard' : 'plus tôt';
+        set(
+          withHistory(state, `Décalage de ${block.length} tour(s) de ${Math.abs(slots)} créneau(x) ${direction}`, {
+            schedule: result.schedule,
+          })
+        );
+        return { success: true };
+      },
+
+      moveScheduledBlock: (roundIds, anchorRoundId, row, col) => {
+        const state = get();
+        const block = state.schedule.filter((sr) => roundIds.includes(sr.roundId));
+        const anchor = block.find((sr) => sr.roundId === anchorRoundId);
+        if (!anchor) return { success: false, error: 'Aucun tour à déplacer.' };
+        if (anchor.row === row && anchor.startCol === col) return { success: true };
+
+        // The block keeps its shape: every round moves like the one dragged
+        const rowDelta = row - anchor.row;
+        const colDelta = col - anchor.startCol;
+        const result = placeScheduledBlock(state, block.map((sr) => translateScheduledRound(sr, rowDelta, colDelta)));
+        if (result.error !== undefined) return { success: false, error: result.error };
+        set(withHistory(state, `Déplacement d'un bloc de ${block.length} tour(s)`, { schedule: result.schedule }));
+        return { success: true };
+      },
+
+      swapScheduledBlocks: (firstIds, secondIds) => {
+        const state = get();
+        if (firstIds.some((id) => secondIds.includes(id))) {
+          return { success: false, error: 'Les deux blocs ont des tours en commun.' };
         }
+        const first = state.schedule.filter((sr) => firstIds.includes(sr.roundId));
+        const second = state.schedule.filter((sr) => secondIds.includes(sr.roundId));
+        if (first.length === 0 || second.length === 0) return { success: false, error: 'Il faut deux blocs de tours.' };
+
+        // Each block takes the place of the other, from its first cell
+        const from = getBlockAnchor(first);
+        const to = getBlockAnchor(second);
+        const rowDelta = to.row - from.row;
+        const colDelta = to.col - from.col;
+        const result = placeScheduledBlock(state, [
+          ...first.map((sr) => translateScheduledRound(sr, rowDelta, colDelta)),
+          ...second.map((sr) => translateScheduledRound(sr, -rowDelta, -colDelta)),
+        ]);
+        if (result.error !== undefined) return { success: false, error: result.error };
+        set(
+          withHistory(state, `Échange de deux blocs (${first.length} et ${second.length} tour(s))`, {
+            schedule: result.schedule,
+          })
+        );
+        return { success: true };
+      },
 
-        // Combine: rounds that don't move + shifted rounds
-        const newSchedule = [...roundsNotToShift, ...shiftedRounds];
+      insertScheduleRow: (row) => {
+        const state = get();
+        const result = shiftScheduleRows(state, row, 1);
+        if (result.error !== undefined) return { success: false, error: result.error };
+        set(withHistory(state, `Créneau vide inséré à ${formatRowLabel(row, state.settings)}`, { schedule: result.schedule }));
+        return { success: true };
+      },
 
-        // Save current state to history before applying changes
-        const newHistory = [...state.scheduleHistory, state.schedule].slice(-20);
+      deleteScheduleRow: (row) => {
+        const state = get();
+        // The following rows move back into the deleted one, which must be free
+        const result = shiftScheduleRows(state, row + 1, -1, row);
+        if (result.error !== undefined) return { success: false, error: result.error };
+        set(withHistory(state, `Créneau de ${formatRowLabel(row, state.settings)} supprimé`, { schedule: result.schedule }));
+        return { success: true };
+      },
 
-        set({
-          schedule: newSchedule,
-          scheduleHistory: newHistory,
-        });
+      shiftScheduleFrom: (row, slots) => {
+        const state = get();
+        if (slots === 0) return { success: true };
+        const result = shiftScheduleRows(state, row, slots);
+        if (result.error !== undefined) return { success: false, error: result.error };
+        const direction = slots > 0 ? 'retardé' : 'avancé';
+        set(
+          withHistory(
+            state,
+            `Échéancier ${direction} de ${Math.abs(slots)} créneau(x) à partir de ${formatRowLabel(row, state.settings)}`,
+            { schedule: result.schedule }
+          )
+        );
+        return { success: true };
       },
 
-      clearSchedule: () => set((state) => {
-        // Save current state to history
-        const newHistory = [...state.scheduleHistory, state.schedule].slice(-20);
-        return {
-          schedule: [],
-          scheduleHistory: newHistory,
-        };
-      }),
+      unscheduleRounds: (roundIds) =>
+        set((state) => {
+          const schedule = state.schedule.filter((sr) => !roundIds.includes(sr.roundId));
+          if (schedule.length === state.schedule.length) return state;
+          return withHistory(state, `Retrait de ${state.schedule.length - schedule.length} tour(s) de l'échéancier`, {
+            schedule,
+          });
+        }),
+
+      saveSnapshot: (name) =>
+        set((state) =>
+          withHistory(state, `Version enregistrée : ${name}`, {
+            snapshots: [
+              ...state.snapshots,
+              { id: generateId(), name, createdAt: Date.now(), schedule: state.schedule },
+            ],
+          })
+        ),
+
+      restoreSnapshot: (id) =>
+        set((state) => {
+          const snapshot = state.snapshots.find((s) => s.id === id);
+          if (!snapshot) return state;
+          return withHistory(state, `Version chargée : ${snapshot.name}`, { schedule: snapshot.schedule });
+        }),
+
+      renameSnapshot: (id, name) =>
+        set((state) =>
+          withHistory(
+            state,
+            `Version renommée : ${name}`,
+            { snapshots: state.snapshots.map((s) => (s.id === id ? { ...s, name } : s)) },
+            `snapshot:${id}:name`
+          )
+        ),
+
+      deleteSnapshot: (id) =>
+        set((state) => {
+          const snapshot = state.snapshots.find((s) => s.id === id);
+          if (!snapshot) return state;
+          return withHistory(state, `Version supprimée : ${snapshot.name}`, {
+            snapshots: state.snapshots.filter((s) => s.id !== id),
+          });
+        }),
 
-      undoSchedule: () => set((state) => {
-        if (state.scheduleHistory.length === 0) return state;
+      undo: () => set((state) => travelHistory(state, -1)),
 
-        // Get the last state from history
-        const newHistory = [...state.scheduleHistory];
-        const previousSchedule = newHistory.pop()!;
+      redo: () => set((state) => travelHistory(state, 1)),
 
-        return {
-          schedule: previousSchedule,
-          scheduleHistory: newHistory,
-        };
-      }),
+      goToHistoryStep: (step) =>
+        set((state) => travelHistory(state, step - state.undoStack.length)),
 
       scheduleRoundNext: (roundId) => {
         const state = get();
         const { series, schedule, settings } = state;
 
+        const isCellOpen = createCellAvailability(settings);
+
         // Find the round being placed
         let targetRound: Round | undefined;
+        let targetSeries: Series | undefined;
         for (const s of series) {
           const r = s.rounds.find((r) => r.id === roundId);
           if (r) {
             targetRound = r;
+            targetSeries = s;
             break;
           }
         }
 
-        if (!targetRound) return;
+        if (!targetRound || !targetSeries) return;
 
         const matchCount = targetRound.matchCount;
+        const span = getMatchSlotSpan(targetRound, targetSeries, settings.timeSlotDuration);
+        const placementSeries = targetSeries;
 
         // Find the next available position after the last scheduled round
         let targetRow = 0;
         let targetCol = 0;
 
+        // A series pinned to a day starts on the first open row of that day
+        while (!isRowAllowedForSeries(targetRow, placementSeries, settings) && targetRow < 10000) {
+          targetRow++;
+        }
+        while (!isCellOpen(targetRow, targetCol) && targetCol < settings.courtCount - 1) {
+          targetCol++;
+        }
+
         if (schedule.length > 0) {
           // Find the maximum row used by any round
-          const maxRow = Math.max(...schedule.flatMap(sr => {
-            for (const s of series) {
-              const r = s.rounds.find((r) => r.id === sr.roundId);
-              if (r) {
-                const positions = getRoundCellPositions(sr.row, sr.startCol, r.matchCount, settings.courtCount);
-                return positions.map(p => p.row);
-              }
-            }
-            return [sr.row];
-          }));
+          const maxRow = Math.max(...schedule.flatMap(sr =>
+            getScheduledRoundCells(sr, series, settings, isCellOpen).map(p => p.row)
+          ));
 
           // Helper to check if positions are free
           const arePositionsFree = (startRow: number, startCol: number): boolean => {
-            const testPositions = getRoundCellPositions(startRow, startCol, matchCount, settings.courtCount);
+            if (!isCellOpen(startRow, startCol)) return false;
+            const testPositions = getRoundCellPositions(startRow, startCol, matchCount, settings.courtCount, isCellOpen, span);
+            if (!testPositions.every(tp => isRowAllowedForSeries(tp.row, placementSeries, settings))) return false;
 
             return !schedule.some(sr => {
-              for (const s of series) {
-                const r = s.rounds.find((r) => r.id === sr.roundId);
-                if (r) {
-                  const occupiedPositions = getRoundCellPositions(sr.row, sr.startCol, r.matchCount, settings.courtCount);
-                  return testPositions.some(tp =>
-                    occupiedPositions.some(op => op.row === tp.row && op.col === tp.col)
-                  );
-                }
-              }
-              return false;
+              const occupiedPositions = getScheduledRoundCells(sr, series, settings, isCellOpen);
+              return testPositions.some(tp =>
+                occupiedPositions.some(op => op.row === tp.row && op.col === tp.col)
+              );
             });
           };
 
           // Try to find space starting from the last row
           let foundSpace = false;
 
-          // Try all positions on the last row and beyond
-          for (let row = maxRow; row <= maxRow + 5 && !foundSpace; row++) {
+          // Try all positions on the last row and beyond (or from the pinned day)
+          const firstRow = Math.max(maxRow, targetRow);
+          for (let row = firstRow; row <= firstRow + 5 && !foundSpace; row++) {
             for (let col = 0; col < settings.courtCount && !foundSpace; col++) {
               if (arePositionsFree(row, col)) {
                 targetRow = row;
@@ -555,7 +1316,7 @@ export const useTournamentStore = create<TournamentStore>()(
 
           // If still no space found, just place at next row, col 0
           if (!foundSpace) {
-            targetRow = maxRow + 1;
+            targetRow = firstRow + 1;
             targetCol = 0;
           }
         }
@@ -604,151 +1365,97 @@ export const useTournamentStore = create<TournamentStore>()(
 
       scheduleRoundWithPush: (roundId, row, col) => {
         const state = get();
-        const { series, schedule, settings } = state;
-
-        // Find the round being placed
-        let targetRound: Round | undefined;
-        let targetSeries: Series | undefined;
-        for (const s of series) {
-          const r = s.rounds.find((r) => r.id === roundId);
-          if (r) {
-            targetRound = r;
-            targetSeries = s;
-            break;
-          }
-        }
-
-        if (!targetRound || !targetSeries) return;
-
-        const matchCount = targetRound.matchCount;
-
-        // Helper to get all positions occupied by a round
-        const getOccupiedPositions = (sr: ScheduledRound): Array<{ row: number, col: number }> => {
-          for (const s of series) {
-            const r = s.rounds.find((r) => r.id === sr.roundId);
-            if (r) {
-              return getRoundCellPositions(sr.row, sr.startCol, r.matchCount, settings.courtCount);
-            }
-          }
-          return [{ row: sr.row, col: sr.startCol }];
-        };
-
-        // Helper to convert position to linear index (for sorting)
-        const posToLinearIndex = (pos: { row: number, col: number }): number => {
-          return pos.row * settings.courtCount + pos.col;
-        };
-
-        // Get all positions for the new round
-        const targetPositions = getRoundCellPositions(row, col, matchCount, settings.courtCount);
-        const targetStartIndex = posToLinearIndex({ row, col });
-
-        // Remove the round being placed from the schedule (if it was already scheduled)
-        let newSchedule = schedule.filter(sr => sr.roundId !== roundId);
-
-        // VALIDATION: Check that we're not placing the round in the middle of another round
-        // A round can only be placed before or after another round, not cutting through it
-        for (const sr of newSchedule) {
-          const positions = getOccupiedPositions(sr);
-
-          // Count how many cells of this existing round are overlapped by the new round
-          const overlappingCells = positions.filter(pos =>
-            targetPositions.some(tp => tp.row === pos.row && tp.col === pos.col)
-          ).length;
+        const result = pushRoundIntoSchedule(state, roundId, row, col);
+        if (result) set(withHistory(state, result.label, { schedule: result.schedule }));
+      },
 
-          // If we overlap some but not all cells, we're cutting through the middle - BLOCK IT
-          if (overlappingCells > 0 && overlappingCells < positions.length) {
-            console.warn('Cannot place round in the middle of another round');
-            return; // Block the placement
-          }
+      moveRoundFrom: (origin, roundId, row, col) => {
+        const state = get();
+        const result = pushRoundIntoSchedule({ ...state, schedule: origin }, roundId, row, col);
+        if (!result) return false;
+        // The first step records the schedule before the move, the next ones replace its outcome
+        const last = state.undoStack[state.undoStack.length - 1];
+        if (state.schedule !== origin && last?.data.schedule === origin && state.redoStack.length === 0) {
+          set({ schedule: result.schedule });
+        } else {
+          set(withHistory(state, result.label, { schedule: result.schedule }));
         }
+        return true;
+      },
 
-        // Find all rounds that need to be shifted
-        // First, check if we can place the round without any overlap
-        const hasAnyOverlap = newSchedule.some(sr => {
-          const positions = getOccupiedPositions(sr);
-          return positions.some(pos =>
-            targetPositions.some(tp => tp.row === pos.row && tp.col === pos.col)
-          );
-        });
-
-        // If there's no overlap, simply place the round without shifting anyone
-        if (!hasAnyOverlap) {
-          newSchedule.push({ roundId, row, startCol: col });
+      cancelRoundMove: (origin) =>
+        set((state) => {
+          const last = state.undoStack[state.undoStack.length - 1];
+          // Left as it is when the schedule changed otherwise since the move started
+          if (state.schedule === origin || last?.data.schedule !== origin) return state;
+          return { schedule: origin, undoStack: state.undoStack.slice(0, -1) };
+        }),
 
-          const newHistory = [...state.scheduleHistory, state.schedule].slice(-20);
-          set({
-            schedule: newSchedule,
-            scheduleHistory: newHistory,
+      startMatch: (roundId, matchIndex) =>
+        set((state) => {
+          const round = findRound(state.series, roundId);
+          if (!round || matchIndex < 0 || matchIndex >= round.matchCount) return state;
+          const now = Date.now();
+          return withHistory(state, `Début du match ${matchIndex + 1} (${getRoundName(state.series, roundId)})`, {
+            progress: updateMatchProgress(state.progress, round, (matches) =>
+              matches.map((m, i) => (i === matchIndex && m.startedAt === undefined ? { startedAt: now } : m))
+            ),
           });
-          return;
-        }
-
-        // Otherwise, we need to shift rounds
-        const roundsToShift: ScheduledRound[] = [];
-        const roundsNotToShift: ScheduledRound[] = [];
-
-        for (const sr of newSchedule) {
-          const positions = getOccupiedPositions(sr);
-          const startIndex = posToLinearIndex({ row: sr.row, col: sr.startCol });
-
-          // Check if this round overlaps with target positions
-          const hasOverlap = positions.some(pos =>
-            targetPositions.some(tp => tp.row === pos.row && tp.col === pos.col)
-          );
-
-          // Check if this round starts at or after the insertion point
-          const startsAtOrAfter = startIndex >= targetStartIndex;
-
-          // Shift if there's overlap OR if it starts at/after the insertion point
-          if (hasOverlap || startsAtOrAfter) {
-            roundsToShift.push(sr);
-          } else {
-            roundsNotToShift.push(sr);
-          }
-        }
-
-        // Sort rounds to shift from last to first (by their position in the grid)
-        roundsToShift.sort((a, b) => {
-          const aStart = posToLinearIndex({ row: a.row, col: a.startCol });
-          const bStart = posToLinearIndex({ row: b.row, col: b.startCol });
-          return bStart - aStart; // Descending order (last first)
-        });
+        }),
 
-        // Shift each round by the number of cells needed (matchCount of the inserted round)
-        const shiftAmount = matchCount;
-        const shiftedRounds: ScheduledRound[] = [];
+      finishMatch: (roundId, matchIndex) =>
+        set((state) => {
+          const round = findRound(state.series, roundId);
+          if (!round || matchIndex < 0 || matchIndex >= round.matchCount) return state;
+          const now = Date.now();
+          return withHistory(state, `Fin du match ${matchIndex + 1} (${getRoundName(state.series, roundId)})`, {
+            progress: updateMatchProgress(state.progress, round, (matches) =>
+              matches.map((m, i) =>
+                i === matchIndex && m.finishedAt === undefined
+                  ? { startedAt: m.startedAt ?? now, finishedAt: now }
+                  : m
+              )
+            ),
+          });
+        }),
 
-        for (const sr of roundsToShift) {
-          // Calculate new position by adding shiftAmount cells
-          const firstCellIndex = posToLinearIndex({ row: sr.row, col: sr.startCol });
-          const newFirstCellIndex = firstCellIndex + shiftAmount;
-
-          // Convert back to row/col
-          const newRow = Math.floor(newFirstCellIndex / settings.courtCount);
-          const newCol = newFirstCellIndex % settings.courtCount;
-
-          shiftedRounds.push({
-            ...sr,
-            row: newRow,
-            startCol: newCol
+      startRound: (roundId) =>
+        set((state) => {
+          const round = findRound(state.series, roundId);
+          if (!round) return state;
+          const now = Date.now();
+          return withHistory(state, `Début de ${getRoundName(state.series, roundId)}`, {
+            progress: updateMatchProgress(state.progress, round, (matches) =>
+              matches.map((m) => (m.startedAt === undefined ? { startedAt: now } : m))
+            ),
           });
-        }
+        }),
 
-        // Combine: rounds that don't move + new round + shifted rounds
-        newSchedule = [
-          ...roundsNotToShift,
-          { roundId, row, startCol: col },
-          ...shiftedRounds
-        ];
+      finishRound: (roundId) =>
+        set((state) => {
+          const round = findRound(state.series, roundId);
+          if (!round) return state;
+          const now = Date.now();
+          return withHistory(state, `Fin de ${getRoundName(state.series, roundId)}`, {
+            progress: updateMatchProgress(state.progress, round, (matches) =>
+              matches.map((m) =>
+                m.finishedAt === undefined ? { startedAt: m.startedAt ?? now, finishedAt: now } : m
+              )
+            ),
+          });
+        }),
 
-        // Save current state to history before applying changes
-        const newHistory = [...state.scheduleHistory, state.schedule].slice(-20);
+      resetRoundProgress: (roundId) =>
+        set((state) =>
+          withHistory(state, `Suivi effacé (${getRoundName(state.series, roundId)})`, {
+            progress: state.progress.filter((p) => p.roundId !== roundId),
+          })
+        ),
 
-        set({
-          schedule: newSchedule,
-          scheduleHistory: newHistory,
-        });
-      },
+      clearProgress: () =>
+        set((state) =>
+          state.progress.length === 0 ? state : withHistory(state, 'Suivi du jour J effacé', { progress: [] })
+        ),
 
       setPhase: (phase) => set({ currentPhase: phase }),
 
@@ -772,46 +1479,33 @@ export const useTournamentStore = create<TournamentStore>()(
           return { valid: false, reason: 'Tour non trouvé' };
         }
 
-        const matchCount = targetRound.matchCount;
-        const endCol = col + matchCount - 1;
+        const isCellOpen = createCellAvailability(settings);
 
-        // Check column bounds - need enough consecutive courts
-        if (col < 0 || endCol >= settings.courtCount) {
-          return { valid: false, reason: `Pas assez de terrains (besoin de ${matchCount} terrains consécutifs)` };
+        if (!isCellOpen(row, col)) {
+          return { valid: false, reason: 'Terrain fermé sur ce créneau' };
         }
 
-        // Helper to get occupied columns for a scheduled round
-        const getOccupiedCols = (sr: ScheduledRound): number[] => {
-          // Find the round to get matchCount
-          for (const s of series) {
-            const r = s.rounds.find((r) => r.id === sr.roundId);
-            if (r) {
-              return Array.from({ length: r.matchCount }, (_, i) => sr.startCol + i);
-            }
-          }
-          return [sr.startCol];
-        };
+        const targetPositions = getScheduledRoundCells({ roundId, row, startCol: col }, series, settings, isCellOpen);
+
+        if (!targetPositions.every((p) => isRowAllowedForSeries(p.row, targetSeries!, settings))) {
+          return { valid: false, reason: `La série ${targetSeries.shortName} est réservée à un autre jour` };
+        }
 
         // Check if any of the required cells are already occupied
-        for (let c = col; c <= endCol; c++) {
-          const cellOccupied = schedule.some(
-            (sr) => {
-              if (sr.roundId === excludeRoundId || sr.roundId === roundId) return false;
-              if (sr.row !== row) return false;
-              const occupiedCols = getOccupiedCols(sr);
-              return occupiedCols.includes(c);
-            }
-          );
-          if (cellOccupied) {
-            return { valid: false, reason: 'Un ou plusieurs terrains déjà occupés' };
-          }
+        const cellOccupied = schedule.some((sr) => {
+          if (sr.roundId === excludeRoundId || sr.roundId === roundId) return false;
+          const occupied = getScheduledRoundCells(sr, series, settings, isCellOpen);
+          return occupied.some((op) => targetPositions.some((tp) => tp.row === op.row && tp.col === op.col));
+        });
+        if (cellOccupied) {
+          return { valid: false, reason: 'Un ou plusieurs terrains déjà occupés' };
         }
 
         // Check if same series already has a round in this row
         const seriesRoundIds = targetSeries.rounds.map((r) => r.id);
         const sameSeriesInRow = schedule.some(
           (sr) =>
-            sr.row === row &&
+            getScheduledRoundStartRows(sr).includes(row) &&
             seriesRoundIds.includes(sr.roundId) &&
             sr.roundId !== excludeRoundId &&
             sr.roundId !== roundId
@@ -830,15 +1524,16 @@ export const useTournamentStore = create<TournamentStore>()(
           const scheduledRound = targetSeries.rounds.find((r) => r.id === sr.roundId);
           if (!scheduledRound) continue;
 
-          // If this is an earlier round, it must be in an earlier row
-          if (scheduledRound.roundNumber < targetRound.roundNumber && sr.row > row) {
+          // If this is an earlier round, it must be in an earlier row, its match groups included
+          const startRows = getScheduledRoundStartRows(sr);
+          if (scheduledRound.roundNumber < targetRound.roundNumber && Math.max(...startRows) > row) {
             return {
               valid: false,
               reason: `Le tour ${scheduledRound.roundNumber} doit être avant le tour ${targetRound.roundNumber}`,
             };
           }
           // If this is a later round, it must be in a later row
-          if (scheduledRound.roundNumber > targetRound.roundNumber && sr.row < row) {
+          if (scheduledRound.roundNumber > targetRound.roundNumber && Math.min(...startRows) < row) {
             return {
               valid: false,
               reason: `Le tour ${targetRound.roundNumber} doit être avant le tour ${scheduledRound.roundNumber}`,
@@ -851,139 +1546,310 @@ export const useTournamentStore = create<TournamentStore>()(
 
       autoSchedule: () => {
         const state = get();
-        const { series, settings } = state;
+        const result = solveSchedule(state.series, state.settings);
 
-        // Collect all rounds with their info
-        type RoundInfo = {
-          round: Round;
-          series: Series;
-        };
+        set(withHistory(state, 'Génération automatique', { schedule: result.schedule }));
 
-        const allRounds: RoundInfo[] = [];
-        for (const s of series) {
-          for (const r of s.rounds) {
-            allRounds.push({ round: r, series: s });
-          }
+        return result;
+      },
+
+      importTournamentData: (data) => {
+        const { data: payload, error } = validateTournamentFile(data);
+
+        if (!payload) {
+          return { success: false, error: error ?? 'Fichier JSON invalide.' };
         }
 
-        // Sort by: series first (to keep series together), then by round number
-        allRounds.sort((a, b) => {
-          // Group by series
-          const seriesCompare = a.series.name.localeCompare(b.series.name);
-          if (seriesCompare !== 0) return seriesCompare;
-          // Then by round number
-          return a.round.roundNumber - b.round.roundNumber;
-        });
+        set((state) => ({
+          ...withHistory(state, 'Import JSON', payload),
+          currentPhase: payload.series.length > 0 ? 'schedule' : 'config',
+        }));
 
-        const newSchedule: ScheduledRound[] = [];
-        const rowSeriesMap: Map<number, Set<string>> = new Map(); // row -> set of series IDs
-
-        // Track the minimum row for each series based on round ordering
-        const seriesMinRow: Map<string, number> = new Map();
-
-        // Helper to check if positions are available (supports multi-row rounds)
-        const arePositionsAvailable = (startRow: number, startCol: number, count: number): boolean => {
-          const testPositions = getRoundCellPositions(startRow, startCol, count, settings.courtCount);
-
-          // Check if any position is already occupied
-          return !newSchedule.some((sr) => {
-            // Find the match count for this scheduled round
-            for (const s of series) {
-              const r = s.rounds.find((r) => r.id === sr.roundId);
-              if (r) {
-                const occupiedPositions = getRoundCellPositions(sr.row, sr.startCol, r.matchCount, settings.courtCount);
-                // Check for overlap
-                return testPositions.some(tp =>
-                  occupiedPositions.some(op => op.row === tp.row && op.col === tp.col)
-                );
-              }
-            }
-            return false;
-          });
-        };
+        return { success: true };
+      },
 
-        for (const { round, series: s } of allRounds) {
-          const minRowForRound = seriesMinRow.get(s.id) || 0;
-          const matchCount = round.matchCount;
-
-          // Find first available position starting from minRowForRound
-          let placed = false;
-          let row = minRowForRound;
-          let col = 0;
-
-          while (!placed) {
-            // Try all starting positions
-            for (col = 0; col < settings.courtCount && !placed; col++) {
-              if (arePositionsAvailable(row, col, matchCount)) {
-                // Get all positions this round will occupy
-                const positions = getRoundCellPositions(row, col, matchCount, settings.courtCount);
-                const maxRowUsed = Math.max(...positions.map(p => p.row));
-
-                // Check if series already has a round on any of these rows
-                const seriesConflict = positions.some(p => {
-                  const seriesInRow = rowSeriesMap.get(p.row) || new Set();
-                  return seriesInRow.has(s.id);
-                });
-
-                if (!seriesConflict) {
-                  // Place the round
-                  newSchedule.push({ roundId: round.id, row, startCol: col });
-
-                  // Mark all rows as having this series
-                  positions.forEach(p => {
-                    const seriesInRow = rowSeriesMap.get(p.row) || new Set();
-                    seriesInRow.add(s.id);
-                    rowSeriesMap.set(p.row, seriesInRow);
-                  });
-
-                  // Update minimum row for next round in this series
-                  seriesMinRow.set(s.id, maxRowUsed + 1);
-                  placed = true;
-                }
-              }
-            }
+      createTournamentFile: () => {
+        const state = get();
+        const point: SyncPoint = { id: generateId(), at: Date.now(), series: state.series, schedule: state.schedule };
+        const syncPoints = addSyncPoint(state.syncPoints, point);
+        set({ syncPoints });
+        return buildTournamentFile(state, { id: point.id, knownIds: syncPoints.map((p) => p.id) });
+      },
 
-            if (!placed) {
-              row++;
-            }
-          }
+      receiveTournamentFile: (data) => {
+        const { data: payload, sync, error } = validateTournamentFile(data);
+        if (!payload) {
+          return { success: false, error: error ?? 'Fichier JSON invalide.' };
         }
 
-        // Save current state to history
-        const newHistory = [...state.scheduleHistory, state.schedule].slice(-20);
+        const base = findMergeBase(get().syncPoints, sync);
 
-        set({
-          schedule: newSchedule,
-          scheduleHistory: newHistory,
-        });
+        if (!sync || !base) {
+          // Unrelated file: replacing the tournament is the user's decision
+          return { success: true, merged: false, unrelated: true };
+        }
+
+        const { outcome } = mergeIntoState(get(), payload, base);
+        if (outcome.conflicts.length > 0) {
+          return { success: true, merged: true, conflicts: outcome.conflicts };
+        }
+
+        // Nothing new, e.g. the same file received twice: no empty undo step
+        if (outcome.remoteChangeCount === 0) {
+          set((state) => ({ syncPoints: addSyncPoint(state.syncPoints, toSyncPoint(sync.id, payload)) }));
+          return { success: true, merged: true, remoteChangeCount: 0 };
+        }
+
+        get().mergeTournamentFile(data, {});
+        return { success: true, merged: true, remoteChangeCount: outcome.remoteChangeCount };
       },
 
-      importTournamentData: (data) => {
-        const { payload, error } = validateImportPayload(data);
+      replaceWithTournamentFile: (data) => {
+        const result = get().importTournamentData(data);
+        const { data: payload, sync } = validateTournamentFile(data);
+        if (result.success && payload && sync) {
+          set((state) => ({ syncPoints: addSyncPoint(state.syncPoints, toSyncPoint(sync.id, payload)) }));
+        }
+        return result;
+      },
 
+      mergeTournamentFile: (data, choices) => {
+        const { data: payload, sync, error } = validateTournamentFile(data);
         if (!payload) {
           return { success: false, error: error ?? 'Fichier JSON invalide.' };
         }
 
-        set({
-          settings: payload.settings,
-          series: payload.series,
-          schedule: payload.schedule,
-          scheduleHistory: [],
-          currentPhase: payload.series.length > 0 ? 'schedule' : 'config',
-        });
+        const base = findMergeBase(get().syncPoints, sync);
+        if (!sync || !base) {
+          return { success: false, error: 'Ce fichier ne partage aucun état commun avec le tournoi.' };
+        }
+
+        set((state) => ({
+          ...withHistory(state, 'Fusion JSON', mergeIntoState(state, payload, base, choices).changes),
+          syncPoints: addSyncPoint(state.syncPoints, toSyncPoint(sync.id, payload)),
+        }));
 
         return { success: true };
       },
 
-      resetAll: () => set(initialState),
+      resetAll: () =>
+        set((state) => ({
+          ...withHistory(state, 'Réinitialisation', pickTournamentData(initialState)),
+          currentPhase: initialState.currentPhase,
+        })),
+
+      // Undo must not bring back the content of the previous tournament
+      loadTournament: (saved) => set({ ...pickSavedTournament(saved), undoStack: [], redoStack: [] }),
     }),
     {
       name: 'badminton-tournament-storage',
+      storage: createJSONStorage(() => journalStorage),
+      // Same versions as exported files: the saved state of an older version is upgraded on load
+      version: TOURNAMENT_FILE_VERSION,
+      migrate: (persistedState, version) =>
+        migrateTournamentData(persistedState as Record<string, unknown>, Math.max(version, 1)) as unknown as TournamentStore,
+      // The history holds full copies of the tournament, it stays in memory
+      partialize: (state) => pickSavedTournament(state),
+    }
+  )
+);
+
+interface TemplateStore {
+  templates: BracketTemplate[];
+  saveTemplate: (template: BracketTemplateDraft, id?: string) => void;
+  removeTemplate: (id: string) => void;
+  importTemplates: (data: unknown) => { success: boolean; count?: number; error?: string };
+}
+
+// User bracket templates, stored apart from the tournament so that they are
+// kept when a tournament is reset or replaced by an import
+export const useTemplateStore = create<TemplateStore>()(
+  persist(
+    (set, get) => ({
+      templates: [],
+
+      saveTemplate: (template, id) => {
+        const { templates } = get();
+        if (id && templates.some((t) => t.id === id)) {
+          set({ templates: templates.map((t) => (t.id === id ? { ...template, id } : t)) });
+        } else {
+          set({ templates: [...templates, { ...template, id: generateId() }] });
+        }
+      },
+
+      removeTemplate: (id) => {
+        set({ templates: get().templates.filter((t) => t.id !== id) });
+      },
+
+      importTemplates: (data) => {
+        const { templates: imported, error } = parseBracketTemplateFile(data);
+        if (!imported) {
+          return { success: false, error };
+        }
+
+        // A template with the same name is replaced
+        let templates = get().templates;
+        for (const template of imported) {
+          const existing = templates.find((t) => t.name.toLowerCase() === template.name.toLowerCase());
+          templates = existing
+            ? templates.map((t) => (t.id === existing.id ? { ...template, id: existing.id } : t))
+            : [...templates, { ...template, id: generateId() }];
+        }
+        set({ templates });
+
+        return { success: true, count: imported.length };
+      },
+    }),
+    {
+      name: 'badminton-bracket-templates',
+      storage: createJSONStorage(() => journalStorage),
     }
   )
 );
 
+interface WorkspaceStore {
+  tournaments: TournamentEntry[];
+  activeId: string | null;
+  ensureActiveTournament: () => void; // The tournament saved before the workspace becomes its first entry
+  createTournament: (name: string) => void;
+  openTournament: (id: string) => void;
+  duplicateTournament: (id: string) => void;
+  renameTournament: (id: string, name: string) => void;
+  setTournamentArchived: (id: string, archived: boolean) => void;
+  deleteTournament: (id: string) => void; // The open tournament cannot be deleted
+}
+
+function createEmptyTournament(): SavedTournament {
+  return pickSavedTournament(initialState);
+}
+
+// Library of the club tournaments. The open one lives in the tournament store,
+// the others keep their content in their entry until they are opened again.
+export const useWorkspaceStore = create<WorkspaceStore>()(
+  persist(
+    (set, get) => {
+      const getContent = (entry: TournamentEntry): SavedTournament =>
+        entry.id === get().activeId ? pickSavedTournament(useTournamentStore.getState()) : entry.data ?? createEmptyTournament();
+
+      return {
+        tournaments: [],
+        activeId: null,
+
+        ensureActiveTournament: () => {
+          const { tournaments, activeId } = get();
+          if (tournaments.some((t) => t.id === activeId)) return;
+          const now = Date.now();
+          const entry: TournamentEntry = { id: generateId(), name: 'Mon tournoi', createdAt: now, updatedAt: now, archived: false };
+          set({ tournaments: [...tournaments, entry], activeId: entry.id });
+        },
+
+        createTournament: (name) => {
+          const now = Date.now();
+          const entry: TournamentEntry = {
+            id: generateId(),
+            name: name.trim() || 'Nouveau tournoi',
+            createdAt: now,
+            updatedAt: now,
+            archived: false,
+            data: createEmptyTournament(),
+          };
+          set({ tournaments: [...get().tournaments, entry] });
+          get().openTournament(entry.id);
+        },
+
+        openTournament: (id) => {
+          const { tournaments, activeId } = get();
+          const target = tournaments.find((t) => t.id === id);
+          if (!target || id === activeId) return;
+
+          const current = pickSavedTournament(useTournamentStore.getState());
+          const now = Date.now();
+          set({
+            tournaments: tournaments.map((t) =>
+              t.id === activeId
+                ? { ...t, data: current, updatedAt: now }
+                : t.id === id
+                  ? { ...t, data: undefined, archived: false }
+                  : t
+            ),
+            activeId: id,
+          });
+          useTournamentStore.getState().loadTournament(target.data ?? createEmptyTournament());
+        },
+
+        duplicateTournament: (id) => {
+          const { tournaments } = get();
+          const source = tournaments.find((t) => t.id === id);
+          if (!source) return;
+
+          const now = Date.now();
+          // A copy is a new tournament, files exchanged with the original do not merge into it
+          const copy: TournamentEntry = {
+            id: generateId(),
+            name: `${source.name} (copie)`,
+            createdAt: now,
+            updatedAt: now,
+            archived: false,
+            data: { ...getContent(source), syncPoints: [] },
+          };
+          const index = tournaments.indexOf(source);
+          set({ tournaments: [...tournaments.slice(0, index + 1), copy, ...tournaments.slice(index + 1)] });
+        },
+
+        renameTournament: (id, name) => {
+          if (!name.trim()) return;
+          set({ tournaments: get().tournaments.map((t) => (t.id === id ? { ...t, name: name.trim() } : t)) });
+        },
+
+        setTournamentArchived: (id, archived) => {
+          if (id === get().activeId) return;
+          set({ tournaments: get().tournaments.map((t) => (t.id === id ? { ...t, archived } : t)) });
+        },
+
+        deleteTournament: (id) => {
+          if (id === get().activeId) return;
+          set({ tournaments: get().tournaments.filter((t) => t.id !== id) });
+        },
+      };
+    },
+    {
+      name: 'badminton-tournament-workspace',
+      storage: createJSONStorage(() => journalStorage),
+      // Tournaments kept in the library are upgraded like the open one
+      version: TOURNAMENT_FILE_VERSION,
+      migrate: (persistedState, version) => {
+        const state = persistedState as WorkspaceStore;
+        return {
+          ...state,
+          tournaments: state.tournaments.map((t) =>
+            t.data
+              ? {
+                  ...t,
+                  data: migrateTournamentData(t.data as unknown as Record<string, unknown>, Math.max(version, 1)) as unknown as SavedTournament,
+                }
+              : t
+          ),
+        };
+      },
+    }
+  )
+);
+
+const persistedStores = [useTournamentStore, useTemplateStore, useWorkspaceStore];
+
+// Saved states are read asynchronously from IndexedDB: until then, the stores
+// hold their initial state and a change would be saved over the real one
+export function useStoresHydrated(): boolean {
+  const [hydrated, setHydrated] = useState(() => persistedStores.every((store) => store.persist.hasHydrated()));
+  useEffect(() => {
+    const update = () => setHydrated(persistedStores.every((store) => store.persist.hasHydrated()));
+    const unsubscribes = persistedStores.map((store) => store.persist.onFinishHydration(update));
+    update();
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, []);
+  return hydrated;
+}
+
 // Helper hook to get all rounds flattened
 export function useAllRounds() {
   const series = useTournamentStore((state) => state.series);
@@ -1021,3 +1887,49 @@ export function useScheduledRoundInfo(roundId: string) {
   }
   return null;
 }
+
+// Helper hook to get player conflicts grouped by round ID
+export function usePlayerConflicts() {
+  const series = useTournamentStore((state) => state.series);
+  const players = useTournamentStore((state) => state.players);
+  const schedule = useTournamentStore((state) => state.schedule);
+  const settings = useTournamentStore((state) => state.settings);
+
+  return useMemo(
+    () => groupConflictsByRound(findPlayerConflicts(series, players, schedule, settings)),
+    [series, players, schedule, settings]
+  );
+}
+
+// Issues of the whole schedule, recomputed on every change
+export function useScheduleIssues() {
+  const series = useTournamentStore((state) => state.series);
+  const schedule = useTournamentStore((state) => state.schedule);
+  const settings = useTournamentStore((state) => state.settings);
+
+  return useMemo(() => findScheduleIssues(series, schedule, settings), [series, schedule, settings]);
+}
+
+// Refresh every 30 seconds so that overdue rounds keep moving on the tournament day
+function useNow(intervalMs = 30000): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+// Helper hook to get projected times of the live phase, null before any match is recorded
+export function useLiveProjection() {
+  const series = useTournamentStore((state) => state.series);
+  const schedule = useTournamentStore((state) => state.schedule);
+  const settings = useTournamentStore((state) => state.settings);
+  const progress = useTournamentStore((state) => state.progress);
+  const now = useNow();
+
+  return useMemo(
+    () => (progress.length > 0 ? projectLiveSchedule(series, schedule, settings, progress, now) : null),
+    [series, schedule, settings, progress, now]
+  );
+}
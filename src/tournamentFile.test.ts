@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { TOURNAMENT_FILE_VERSION, buildTournamentFile, migrateTournamentData, validateTournamentFile } from './tournamentFile';
+import { TournamentData } from './types';
+
+const data: TournamentData = {
+  settings: { courtCount: 2, timeSlotDuration: 30, startTime: '09:00', endTime: '12:00' },
+  series: [
+    {
+      id: 'a',
+      name: 'Série A',
+      shortName: 'A',
+      color: '#3b82f6',
+      rounds: [{ id: 'a1', seriesId: 'a', roundNumber: 1, matchCount: 2, label: 'Tour 1' }],
+      entries: [{ id: 'e1', playerIds: ['p1'] }],
+    },
+  ],
+  players: [{ id: 'p1', name: 'Jean Dupont', club: 'BCN', licence: '0654321' }],
+  schedule: [{ roundId: 'a1', row: 1, startCol: 0 }],
+  snapshots: [],
+  progress: [],
+};
+
+// A file of the first version: no format marker, no players, a schedule history
+const versionOne = {
+  settings: data.settings,
+  series: [{ ...data.series[0], entries: undefined }],
+  schedule: data.schedule,
+  scheduleHistory: [[]],
+};
+
+describe('migrateTournamentData', () => {
+  it('fills the collections added since version 1 and drops the schedule history', () => {
+    const migrated = migrateTournamentData(versionOne, 1);
+    expect(migrated).toEqual({
+      settings: data.settings,
+      series: versionOne.series,
+      schedule: data.schedule,
+      players: [],
+      snapshots: [],
+      progress: [],
+    });
+  });
+
+  it('leaves data of the current version unchanged', () => {
+    const current = { ...data } as unknown as Record<string, unknown>;
+    expect(migrateTournamentData(current, TOURNAMENT_FILE_VERSION)).toBe(current);
+  });
+});
+
+describe('validateTournamentFile', () => {
+  it('reads a file of version 1 as a tournament of the current version', () => {
+    const { data: read, error } = validateTournamentFile(versionOne);
+    expect(error).toBeUndefined();
+    expect(read?.players).toEqual([]);
+    expect(read?.schedule).toEqual(data.schedule);
+  });
+
+  it('reads back a file it wrote', () => {
+    const sync = { id: 's1', knownIds: ['s1'] };
+    expect(validateTournamentFile(JSON.parse(JSON.stringify(buildTournamentFile(data, sync))))).toEqual({ data, sync });
+  });
+
+  it('refuses a file of a newer version or with broken references', () => {
+    const file = buildTournamentFile(data, { id: 's1', knownIds: ['s1'] });
+    expect(validateTournamentFile({ ...file, version: TOURNAMENT_FILE_VERSION + 1 }).error).toContain('version');
+    expect(validateTournamentFile({ ...file, schedule: [{ roundId: 'x1', row: 0, startCol: 0 }] }).error).toBeDefined();
+  });
+});
@@ -0,0 +1,441 @@
+// Tournament files: the exported JSON and the state saved in the browser
+//
+// Files carry a format version. Older files are upgraded step by step by the
+// migrations below, then validated against the current version, which is
+// published as public/tournament.schema.json. Validation errors give the path
+// of the value that failed, e.g. "series[2].rounds[0].matchCount".
+
+import {
+  BlockedWindow,
+  CourtAvailability,
+  CourtInterval,
+  Entry,
+  MatchDuration,
+  MatchGroup,
+  MatchProgress,
+  Player,
+  RestRules,
+  Round,
+  RoundProgress,
+  ScheduleSnapshot,
+  ScheduledRound,
+  Series,
+  TournamentData,
+  TournamentDay,
+  TournamentFileSync,
+  TournamentSettings,
+  isValidRestRules,
+  normalizeSettings,
+} from './types';
+
+export const TOURNAMENT_FILE_FORMAT = 'badminton-tournament';
+// Files exported before the format had a version are version 1
+export const TOURNAMENT_FILE_VERSION = 2;
+export const TOURNAMENT_FILE_SCHEMA_URL = 'https://echeancier.bcv38.org/tournament.schema.json';
+
+export interface TournamentFile extends TournamentData {
+  $schema: string;
+  format: string;
+  version: number;
+  sync: TournamentFileSync;
+}
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n - 1] upgrades version n to version n + 1
+const MIGRATIONS: Migration[] = [
+  // 1 → 2: collections added over time are filled in, the schedule history of
+  // the first versions (replaced by the in-memory undo history) is dropped
+  ({ scheduleHistory: _scheduleHistory, ...data }) => ({
+    ...data,
+    players: data.players ?? [],
+    snapshots: data.snapshots ?? [],
+    progress: data.progress ?? [],
+  }),
+];
+
+// Tournament data of an older version upgraded to the current one, other fields are kept
+export function migrateTournamentData(data: Record<string, unknown>, version: number): Record<string, unknown> {
+  return MIGRATIONS.slice(version - 1).reduce((current, migrate) => migrate(current), data);
+}
+
+export function buildTournamentFile(data: TournamentData, sync: TournamentFileSync): TournamentFile {
+  const { settings, series, players, schedule, snapshots, progress } = data;
+  return {
+    $schema: TOURNAMENT_FILE_SCHEMA_URL,
+    format: TOURNAMENT_FILE_FORMAT,
+    version: TOURNAMENT_FILE_VERSION,
+    settings,
+    series,
+    players,
+    schedule,
+    snapshots,
+    progress,
+    sync,
+  };
+}
+
+// Value of the file that failed validation
+class FileValueError extends Error {
+  constructor(readonly path: string, expected: string) {
+    super(`${path} : ${expected}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function at(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function fail(path: string, expected: string): never {
+  throw new FileValueError(path || 'fichier', expected);
+}
+
+function readObject(value: unknown, path: string): Record<string, unknown> {
+  if (!isObject(value)) fail(path, 'objet attendu');
+  return value;
+}
+
+function readArray<T>(value: unknown, path: string, read: (item: unknown, path: string) => T): T[] {
+  if (!Array.isArray(value)) fail(path, 'liste attendue');
+  return value.map((item, index) => read(item, at(path, index)));
+}
+
+function optional<T>(value: unknown, path: string, read: (value: unknown, path: string) => T): T | undefined {
+  return value === undefined ? undefined : read(value, path);
+}
+
+function readString(value: unknown, path: string): string {
+  if (typeof value !== 'string') fail(path, 'texte attendu');
+  return value;
+}
+
+function readId(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !value.trim()) fail(path, 'identifiant attendu');
+  return value;
+}
+
+function readUniqueId(value: unknown, path: string, ids: Set<string>): string {
+  const id = readId(value, path);
+  if (ids.has(id)) fail(path, `identifiant "${id}" déjà utilisé`);
+  ids.add(id);
+  return id;
+}
+
+function readReference(value: unknown, path: string, ids: { has: (id: string) => boolean }, what: string): string {
+  const id = readString(value, path);
+  if (!ids.has(id)) fail(path, `${what} "${id}" inconnu`);
+  return id;
+}
+
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'nombre attendu');
+  return value;
+}
+
+function readInteger(value: unknown, path: string, min: number, max?: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || (max !== undefined && value > max)) {
+    fail(path, max === undefined ? `entier >= ${min} attendu` : `entier entre ${min} et ${max} attendu`);
+  }
+  return value;
+}
+
+function readTime(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !/^([01]\d|2[0-3]):([0-5]\d)$/.test(value)) fail(path, 'heure HH:MM attendue');
+  return value;
+}
+
+function readTimestamp(value: unknown, path: string): number {
+  if (readNumber(value, path) < 0) fail(path, 'horodatage attendu');
+  return value as number;
+}
+
+function readDay(value: unknown, path: string, courtCount: number): TournamentDay {
+  const day = readObject(value, path);
+  return {
+    id: readId(day.id, at(path, 'id')),
+    label: readString(day.label, at(path, 'label')),
+    startTime: readTime(day.startTime, at(path, 'startTime')),
+    endTime: readTime(day.endTime, at(path, 'endTime')),
+    courtCount: readInteger(day.courtCount, at(path, 'courtCount'), 1, courtCount),
+  };
+}
+
+function readBlockedWindow(value: unknown, path: string, courtCount: number, dayIds: Set<string>): BlockedWindow {
+  const window = readObject(value, path);
+  const dayId = optional(window.dayId, at(path, 'dayId'), (v, p) => readReference(v, p, dayIds, 'jour'));
+  const courts = optional(window.courts, at(path, 'courts'), (v, p) =>
+    readArray(v, p, (col, colPath) => readInteger(col, colPath, 0, courtCount - 1))
+  );
+  return {
+    id: readString(window.id, at(path, 'id')),
+    label: readString(window.label, at(path, 'label')),
+    ...(dayId !== undefined ? { dayId } : {}),
+    startTime: readTime(window.startTime, at(path, 'startTime')),
+    endTime: readTime(window.endTime, at(path, 'endTime')),
+    ...(courts !== undefined ? { courts } : {}),
+  };
+}
+
+function readCourtInterval(value: unknown, path: string, dayIds: Set<string>): CourtInterval {
+  const interval = readObject(value, path);
+  const dayId = optional(interval.dayId, at(path, 'dayId'), (v, p) => readReference(v, p, dayIds, 'jour'));
+  return {
+    ...(dayId !== undefined ? { dayId } : {}),
+    startTime: readTime(interval.startTime, at(path, 'startTime')),
+    endTime: readTime(interval.endTime, at(path, 'endTime')),
+  };
+}
+
+function readCourtAvailability(value: unknown, path: string, courtCount: number, dayIds: Set<string>): CourtAvailability {
+  const court = readObject(value, path);
+  const readIntervals = (v: unknown, p: string) => readArray(v, p, (item, itemPath) => readCourtInterval(item, itemPath, dayIds));
+  return {
+    col: readInteger(court.col, at(path, 'col'), 0, courtCount - 1),
+    available: optional(court.available, at(path, 'available'), readIntervals) ?? [],
+    unavailable: optional(court.unavailable, at(path, 'unavailable'), readIntervals) ?? [],
+  };
+}
+
+function readRestRules(value: unknown, path: string): RestRules {
+  const rules = readObject(value, path);
+  const result = {
+    min: readNumber(rules.min, at(path, 'min')),
+    ideal: readNumber(rules.ideal, at(path, 'ideal')),
+    max: readNumber(rules.max, at(path, 'max')),
+  };
+  if (!isValidRestRules(result)) fail(path, 'minimum <= idéal <= maximum attendu');
+  return result;
+}
+
+function readMatchDuration(value: unknown, path: string): MatchDuration {
+  const duration = readObject(value, path);
+  if (readNumber(duration.value, at(path, 'value')) <= 0) fail(at(path, 'value'), 'nombre > 0 attendu');
+  if (duration.unit !== 'slots' && duration.unit !== 'minutes') fail(at(path, 'unit'), '"slots" ou "minutes" attendu');
+  return { value: duration.value as number, unit: duration.unit };
+}
+
+function readSettings(value: unknown, path: string): TournamentSettings {
+  const settings = readObject(value, path);
+  const courtCount = readInteger(settings.courtCount, at(path, 'courtCount'), 1);
+
+  const days = optional(settings.days, at(path, 'days'), (v, p) =>
+    readArray(v, p, (day, dayPath) => readDay(day, dayPath, courtCount))
+  );
+  const dayIds = new Set((days ?? []).map((d) => d.id));
+  const blockedWindows = optional(settings.blockedWindows, at(path, 'blockedWindows'), (v, p) =>
+    readArray(v, p, (window, windowPath) => readBlockedWindow(window, windowPath, courtCount, dayIds))
+  );
+  const courts = optional(settings.courts, at(path, 'courts'), (v, p) =>
+    readArray(v, p, (court, courtPath) => readCourtAvailability(court, courtPath, courtCount, dayIds))
+  );
+  const restRules = optional(settings.restRules, at(path, 'restRules'), readRestRules);
+
+  return normalizeSettings({
+    courtCount,
+    timeSlotDuration: readInteger(settings.timeSlotDuration, at(path, 'timeSlotDuration'), 1),
+    startTime: readTime(settings.startTime, at(path, 'startTime')),
+    endTime: readTime(settings.endTime, at(path, 'endTime')),
+    ...(days && days.length > 0 ? { days } : {}),
+    ...(blockedWindows && blockedWindows.length > 0 ? { blockedWindows } : {}),
+    ...(courts && courts.length > 0 ? { courts } : {}),
+    ...(restRules ? { restRules } : {}),
+  });
+}
+
+function readPlayer(value: unknown, path: string, playerIds: Set<string>): Player {
+  const player = readObject(value, path);
+  const club = optional(player.club, at(path, 'club'), readString);
+  const licence = optional(player.licence, at(path, 'licence'), readString);
+  return {
+    id: readUniqueId(player.id, at(path, 'id'), playerIds),
+    name: readString(player.name, at(path, 'name')),
+    ...(club !== undefined ? { club } : {}),
+    ...(licence !== undefined ? { licence } : {}),
+  };
+}
+
+function readRound(value: unknown, path: string, seriesId: string, roundMatchCounts: Map<string, number>): Round {
+  const round = readObject(value, path);
+  const id = readId(round.id, at(path, 'id'));
+  if (roundMatchCounts.has(id)) fail(at(path, 'id'), `identifiant "${id}" déjà utilisé`);
+  if (round.seriesId !== seriesId) fail(at(path, 'seriesId'), `identifiant de la série "${seriesId}" attendu`);
+  const matchCount = readInteger(round.matchCount, at(path, 'matchCount'), 1);
+  const duration = optional(round.duration, at(path, 'duration'), readMatchDuration);
+  roundMatchCounts.set(id, matchCount);
+  return {
+    id,
+    seriesId,
+    roundNumber: readInteger(round.roundNumber, at(path, 'roundNumber'), 1),
+    matchCount,
+    label: readString(round.label, at(path, 'label')),
+    ...(duration ? { duration } : {}),
+  };
+}
+
+function readEntry(value: unknown, path: string, playerIds: Set<string>): Entry {
+  const entry = readObject(value, path);
+  return {
+    id: readString(entry.id, at(path, 'id')),
+    playerIds: readArray(entry.playerIds, at(path, 'playerIds'), (id, idPath) => readReference(id, idPath, playerIds, 'joueur')),
+  };
+}
+
+function readSeries(
+  value: unknown,
+  path: string,
+  seriesIds: Set<string>,
+  roundMatchCounts: Map<string, number>,
+  playerIds: Set<string>,
+  dayIds: Set<string>
+): Series {
+  const series = readObject(value, path);
+  const id = readUniqueId(series.id, at(path, 'id'), seriesIds);
+  const dayId = optional(series.dayId, at(path, 'dayId'), (v, p) => readReference(v, p, dayIds, 'jour'));
+  const matchDuration = optional(series.matchDuration, at(path, 'matchDuration'), readMatchDuration);
+  const restRules = optional(series.restRules, at(path, 'restRules'), readRestRules);
+  return {
+    id,
+    name: readString(series.name, at(path, 'name')),
+    shortName: readString(series.shortName, at(path, 'shortName')),
+    color: readString(series.color, at(path, 'color')),
+    rounds: readArray(series.rounds, at(path, 'rounds'), (round, roundPath) => readRound(round, roundPath, id, roundMatchCounts)),
+    entries:
+      optional(series.entries, at(path, 'entries'), (v, p) =>
+        readArray(v, p, (entry, entryPath) => readEntry(entry, entryPath, playerIds))
+      ) ?? [],
+    ...(dayId !== undefined ? { dayId } : {}),
+    ...(matchDuration ? { matchDuration } : {}),
+    ...(restRules ? { restRules } : {}),
+  };
+}
+
+// Groups of a split round must leave at least one match at the round start
+export function isValidMatchGroups(groups: MatchGroup[], matchCount: number): boolean {
+  return groups.reduce((acc, g) => acc + g.matchCount, 0) < matchCount;
+}
+
+function readMatchGroup(value: unknown, path: string, courtCount: number): MatchGroup {
+  const group = readObject(value, path);
+  return {
+    row: readInteger(group.row, at(path, 'row'), 0),
+    startCol: readInteger(group.startCol, at(path, 'startCol'), 0, courtCount - 1),
+    matchCount: readInteger(group.matchCount, at(path, 'matchCount'), 1),
+  };
+}
+
+function readSchedule(value: unknown, path: string, roundMatchCounts: Map<string, number>, courtCount: number): ScheduledRound[] {
+  const scheduledRoundIds = new Set<string>();
+  return readArray(value, path, (item, itemPath): ScheduledRound => {
+    const entry = readObject(item, itemPath);
+    const roundId = readReference(entry.roundId, at(itemPath, 'roundId'), roundMatchCounts, 'tour');
+    if (scheduledRoundIds.has(roundId)) fail(at(itemPath, 'roundId'), `tour "${roundId}" déjà placé`);
+    scheduledRoundIds.add(roundId);
+
+    const groups = optional(entry.groups, at(itemPath, 'groups'), (v, p) =>
+      readArray(v, p, (group, groupPath) => readMatchGroup(group, groupPath, courtCount))
+    );
+    if (groups && !isValidMatchGroups(groups, roundMatchCounts.get(roundId)!)) {
+      fail(at(itemPath, 'groups'), 'au moins un match doit rester au début du tour');
+    }
+    return {
+      roundId,
+      row: readInteger(entry.row, at(itemPath, 'row'), 0),
+      startCol: readInteger(entry.startCol, at(itemPath, 'startCol'), 0, courtCount - 1),
+      ...(groups && groups.length > 0 ? { groups } : {}),
+    };
+  });
+}
+
+function readSnapshot(value: unknown, path: string, roundMatchCounts: Map<string, number>, courtCount: number): ScheduleSnapshot {
+  const snapshot = readObject(value, path);
+  return {
+    id: readString(snapshot.id, at(path, 'id')),
+    name: readString(snapshot.name, at(path, 'name')),
+    createdAt: readTimestamp(snapshot.createdAt, at(path, 'createdAt')),
+    schedule: readSchedule(snapshot.schedule, at(path, 'schedule'), roundMatchCounts, courtCount),
+  };
+}
+
+function readMatchProgress(value: unknown, path: string): MatchProgress {
+  const match = readObject(value, path);
+  const startedAt = optional(match.startedAt, at(path, 'startedAt'), readTimestamp);
+  const finishedAt = optional(match.finishedAt, at(path, 'finishedAt'), readTimestamp);
+  return {
+    ...(startedAt !== undefined ? { startedAt } : {}),
+    ...(finishedAt !== undefined ? { finishedAt } : {}),
+  };
+}
+
+function readRoundProgress(value: unknown, path: string, scheduledRoundIds: Set<string>): RoundProgress {
+  const progress = readObject(value, path);
+  return {
+    roundId: readReference(progress.roundId, at(path, 'roundId'), scheduledRoundIds, 'tour placé'),
+    matches: readArray(progress.matches, at(path, 'matches'), readMatchProgress),
+  };
+}
+
+function readSync(value: unknown, path: string): TournamentFileSync {
+  const sync = readObject(value, path);
+  return {
+    id: readId(sync.id, at(path, 'id')),
+    knownIds: readArray(sync.knownIds, at(path, 'knownIds'), readId),
+  };
+}
+
+// Format and version of the file, version 1 for files exported before versioning
+function readVersion(file: Record<string, unknown>): number {
+  if (file.version === undefined) return 1;
+  const version = readInteger(file.version, 'version', 1);
+  if (version > TOURNAMENT_FILE_VERSION) {
+    fail('version', `format ${version} produit par une version plus récente de l'application, format ${TOURNAMENT_FILE_VERSION} au plus attendu`);
+  }
+  if (version >= 2 && file.format !== TOURNAMENT_FILE_FORMAT) fail('format', `"${TOURNAMENT_FILE_FORMAT}" attendu`);
+  return version;
+}
+
+function readTournamentFile(value: unknown): { data: TournamentData; sync?: TournamentFileSync } {
+  const original = readObject(value, '');
+  const file = migrateTournamentData(original, readVersion(original));
+
+  const settings = readSettings(file.settings, 'settings');
+  const dayIds = new Set((settings.days ?? []).map((d) => d.id));
+  const playerIds = new Set<string>();
+  const players = readArray(file.players, 'players', (player, path) => readPlayer(player, path, playerIds));
+
+  const seriesIds = new Set<string>();
+  const roundMatchCounts = new Map<string, number>();
+  const series = readArray(file.series, 'series', (s, path) =>
+    readSeries(s, path, seriesIds, roundMatchCounts, playerIds, dayIds)
+  );
+
+  const schedule = readSchedule(file.schedule, 'schedule', roundMatchCounts, settings.courtCount);
+  const scheduledRoundIds = new Set(schedule.map((sr) => sr.roundId));
+  const snapshots = readArray(file.snapshots, 'snapshots', (snapshot, path) =>
+    readSnapshot(snapshot, path, roundMatchCounts, settings.courtCount)
+  );
+  const progress = readArray(file.progress, 'progress', (p, path) => readRoundProgress(p, path, scheduledRoundIds));
+  const sync = optional(file.sync, 'sync', readSync);
+
+  return { data: { settings, series, players, schedule, snapshots, progress }, ...(sync ? { sync } : {}) };
+}
+
+// Tournament of an exported file, upgraded to the current version
+export function validateTournamentFile(value: unknown): {
+  data?: TournamentData;
+  sync?: TournamentFileSync;
+  error?: string;
+} {
+  try {
+    return readTournamentFile(value);
+  } catch (error) {
+    if (error instanceof FileValueError) {
+      return { error: `Fichier invalide, ${error.message}.` };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Series, TournamentSettings, createCellAvailability, getRoundCellPositions, getRoundTiming, getScheduledRoundPositions } from './types';
+import { getSeriesTableData } from './scheduleData';
+import { findScheduleIssues } from './scheduleValidation';
+
+// Saturday and Sunday 09:00-11:00, 4 rows each: Saturday is rows 0-3, Sunday rows 4-7
+const settings: TournamentSettings = {
+  courtCount: 2,
+  timeSlotDuration: 30,
+  startTime: '09:00',
+  endTime: '11:00',
+  days: [
+    { id: 'sat', label: 'Samedi', startTime: '09:00', endTime: '11:00', courtCount: 2 },
+    { id: 'sun', label: 'Dimanche', startTime: '09:00', endTime: '11:00', courtCount: 2 },
+  ],
+};
+
+const series: Series = {
+  id: 'a',
+  name: 'Série A',
+  shortName: 'A',
+  color: '#3b82f6',
+  matchDuration: { value: 2, unit: 'slots' },
+  rounds: [{ id: 'a1', seriesId: 'a', roundNumber: 1, matchCount: 2, label: 'Tour 1' }],
+};
+
+describe('getRoundCellPositions', () => {
+  it('starts a match on the next day when the rows left in the day are fewer than its span', () => {
+    const positions = getRoundCellPositions(3, 0, 1, settings.courtCount, createCellAvailability(settings), 2);
+    expect(positions.map((p) => p.row)).toEqual([4, 5]);
+  });
+
+  it('keeps matches lasting one slot on the last row of a day', () => {
+    const positions = getRoundCellPositions(3, 0, 2, settings.courtCount, createCellAvailability(settings), 1);
+    expect(positions).toEqual([
+      { row: 3, col: 0, matchIndex: 0 },
+      { row: 3, col: 1, matchIndex: 1 },
+    ]);
+  });
+
+  it('continues the last day past its end', () => {
+    const positions = getRoundCellPositions(7, 0, 1, settings.courtCount, createCellAvailability(settings), 2);
+    expect(positions.map((p) => p.row)).toEqual([7, 8]);
+  });
+});
+
+describe('getRoundTiming', () => {
+  it('starts a round at its first match when it is pushed to the next day', () => {
+    const timing = getRoundTiming({ roundId: 'a1', row: 3, startCol: 0 }, series.rounds[0], series, settings);
+    // Sunday is 24h after Saturday: 09:00 is 33 * 60 minutes after the first day start
+    expect(timing).toMatchObject({ firstRow: 4, startMinutes: 33 * 60, endMinutes: 34 * 60, dayIndex: 1, lastDayIndex: 1 });
+  });
+
+  it('gives the time of the first match in the series table', () => {
+    const [table] = getSeriesTableData([series], [{ roundId: 'a1', row: 3, startCol: 0 }], settings);
+    expect(table.rounds[0].time).toBe('Dimanche 09:00');
+  });
+});
+
+describe('findScheduleIssues', () => {
+  it('never leaves a match of several slots across two days', () => {
+    const schedule = [{ roundId: 'a1', row: 3, startCol: 0 }];
+    const positions = getScheduledRoundPositions(schedule[0], series.rounds[0], series, settings, createCellAvailability(settings));
+    expect(new Set(positions.map((p) => (p.row < 4 ? 'sat' : 'sun')))).toEqual(new Set(['sun']));
+  });
+
+  it('reports a round placed on a row its matches are pushed away from', () => {
+    const issues = findScheduleIssues([series], [{ roundId: 'a1', row: 3, startCol: 0 }], settings);
+    expect(issues.filter((i) => i.kind === 'out-of-hours')).toEqual([
+      expect.objectContaining({ roundIds: ['a1'], location: { row: 3, col: 0 } }),
+    ]);
+    expect(findScheduleIssues([series], [{ roundId: 'a1', row: 2, startCol: 0 }], settings)).toEqual([]);
+  });
+
+  it('reports a match pushed out of the day its series is pinned to', () => {
+    const pinned: Series = { ...series, dayId: 'sat' };
+    const issues = findScheduleIssues([pinned], [{ roundId: 'a1', row: 3, startCol: 0 }], settings);
+    expect(issues.map((i) => i.kind)).toContain('out-of-hours');
+  });
+});
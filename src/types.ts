@@ -1,11 +1,25 @@
 // Types for the badminton tournament scheduler
 
+// Duration of one match, overrides the time slot duration
+export interface MatchDuration {
+  value: number;
+  unit: 'slots' | 'minutes';
+}
+
+// Rest between the end of a round and the start of the next round of the same series, in minutes
+export interface RestRules {
+  min: number; // Shorter rests are reported and avoided by the auto-scheduler
+  ideal: number; // Target rest, rests between ideal and max are preferred
+  max: number; // Longer rests are reported
+}
+
 export interface Round {
   id: string;
   seriesId: string;
   roundNumber: number; // 1-indexed
   matchCount: number;
   label: string; // e.g., "Tour 1", "Demi", "Finale"
+  duration?: MatchDuration; // Overrides the series match duration
 }
 
 export interface Series {
@@ -14,6 +28,30 @@ export interface Series {
   shortName: string; // Short display name
   color: string; // Auto-generated color
   rounds: Round[];
+  entries?: Entry[]; // Registered entries (singles or pairs)
+  dayId?: string; // Pin the series to one tournament day
+  matchDuration?: MatchDuration; // Default duration of the matches of this series
+  restRules?: RestRules; // Overrides the tournament rest rules, e.g. juniors or finals
+}
+
+export interface Player {
+  id: string;
+  name: string;
+  club?: string;
+  licence?: string; // Federation licence number, identifies the player whatever the spelling of the name
+}
+
+// An entry in a series: one player for singles, two for doubles
+export interface Entry {
+  id: string;
+  playerIds: string[];
+}
+
+// Matches of a split round placed apart from the others, e.g. one match later on a freed court
+export interface MatchGroup {
+  row: number;
+  startCol: number;
+  matchCount: number;
 }
 
 export interface ScheduledRound {
@@ -22,21 +60,125 @@ export interface ScheduledRound {
   startCol: number; // Starting court column (0 to courtCount-1)
   // The round wraps to next rows if it reaches the end of a row
   // Matches are placed continuously, wrapping to col 0 of next row when needed
+  groups?: MatchGroup[]; // Split round: the last matches, in order, the others start at row/startCol
 }
 
-export interface TournamentSettings {
+export interface TournamentDay {
+  id: string;
+  label: string; // e.g., "Samedi"
+  startTime: string; // e.g., "09:00"
+  endTime: string; // e.g., "20:00"
   courtCount: number;
+}
+
+// Time window where matches cannot be played (lunch break, ceremony, cleaning...)
+export interface BlockedWindow {
+  id: string;
+  label: string; // e.g., "Pause déjeuner"
+  dayId?: string; // Every day when not set
+  startTime: string;
+  endTime: string;
+  courts?: number[]; // Court columns (0-indexed), all courts when not set or empty
+}
+
+export interface CourtInterval {
+  dayId?: string; // Every day when not set
+  startTime: string;
+  endTime: string;
+}
+
+// Opening hours of a court, e.g. courts rented from 10:00 or a broken light
+export interface CourtAvailability {
+  col: number; // Court column (0-indexed)
+  available?: CourtInterval[]; // Open only within these intervals, all day when not set or empty
+  unavailable?: CourtInterval[]; // Closed periods
+}
+
+export interface TournamentSettings {
+  courtCount: number; // Grid width: the largest court count of all days
   timeSlotDuration: number; // in minutes
-  startTime: string; // e.g., "08:00"
-  endTime: string; // e.g., "18:00"
+  startTime: string; // e.g., "08:00", start of the first day
+  endTime: string; // e.g., "18:00", end of the last day
+  days?: TournamentDay[]; // Multi-day events, rows continue from one day to the next
+  blockedWindows?: BlockedWindow[];
+  courts?: CourtAvailability[];
+  restRules?: RestRules; // DEFAULT_REST_RULES when not set
 }
 
-export interface TournamentState {
+export type TournamentPhase = 'config' | 'schedule' | 'live';
+
+// Real timestamps (epoch milliseconds) recorded by the table staff on the tournament day
+export interface MatchProgress {
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface RoundProgress {
+  roundId: string;
+  matches: MatchProgress[]; // Indexed by match index
+}
+
+// Saved version of the schedule, e.g. "v2 finales dimanche"
+export interface ScheduleSnapshot {
+  id: string;
+  name: string;
+  createdAt: number; // Epoch milliseconds
+  schedule: ScheduledRound[];
+}
+
+// Tournament content, everything that undo and redo restore
+export interface TournamentData {
   settings: TournamentSettings;
   series: Series[];
+  players: Player[];
   schedule: ScheduledRound[];
-  scheduleHistory: ScheduledRound[][]; // History of schedule states for undo
-  currentPhase: 'config' | 'schedule';
+  snapshots: ScheduleSnapshot[];
+  progress: RoundProgress[]; // Live tracking, the planned schedule is left untouched
+}
+
+// One step of the undo/redo history
+export interface HistoryEntry {
+  label: string; // Action that led from one state to the other, e.g. "Suppression de la série DH1"
+  at: number; // Epoch milliseconds
+  data: TournamentData; // State before the action in the undo stack, after it in the redo stack
+  mergeKey?: string; // Successive edits of the same field are merged into one step
+}
+
+// Series and schedule as exchanged in a file, the common base of a later three-way merge
+export interface SyncPoint {
+  id: string; // Carried by the file, see TournamentFileSync
+  at: number; // Epoch milliseconds
+  series: Series[];
+  schedule: ScheduledRound[];
+}
+
+// Sync information of an exported file: the state it carries and the states its author knows
+export interface TournamentFileSync {
+  id: string;
+  knownIds: string[]; // Sync points of the author, most recent last
+}
+
+export interface TournamentState extends TournamentData {
+  currentPhase: TournamentPhase;
+  syncPoints: SyncPoint[]; // Oldest first, not part of the undo history
+  undoStack: HistoryEntry[]; // Oldest first
+  redoStack: HistoryEntry[]; // Next step to redo last
+}
+
+// Tournament as saved in the browser, with the page it was left on
+export interface SavedTournament extends TournamentData {
+  currentPhase: TournamentPhase;
+  syncPoints: SyncPoint[];
+}
+
+// Tournament of the workspace library
+export interface TournamentEntry {
+  id: string;
+  name: string;
+  createdAt: number; // Epoch milliseconds
+  updatedAt: number; // Last time the tournament was left for another one
+  archived: boolean;
+  data?: SavedTournament; // None for the open tournament, its content is in the tournament store
 }
 
 export interface GridCell {
@@ -44,6 +186,18 @@ export interface GridCell {
   col: number;
 }
 
+// Day and wall-clock time of a grid row
+export interface RowSlot {
+  dayIndex: number;
+  minutes: number; // Minutes from midnight
+}
+
+// Whether a court can host a match on a given row. The last row of the day of a
+// row keeps the slots of one match on a single day (Infinity after the last day).
+export type CellAvailability = ((row: number, col: number) => boolean) & {
+  getDayLastRow?: (row: number) => number;
+};
+
 // Color palette generator
 export function generateSeriesColor(index: number, total: number): string {
   // Use HSL to generate distinct colors
@@ -86,41 +240,338 @@ export function getContrastColor(bgColor: string): string {
   return '#ffffff';
 }
 
-// Format time from row number
-export function formatTime(row: number, startTime: string, slotDuration: number): string {
-  const [startHour, startMin] = startTime.split(':').map(Number);
-  const totalMinutes = startHour * 60 + startMin + row * slotDuration;
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function minutesToTime(totalMinutes: number): string {
   const hours = Math.floor(totalMinutes / 60);
   const minutes = totalMinutes % 60;
   return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
 }
 
+// Days of the tournament, single-day settings are seen as one day
+export function getTournamentDays(settings: TournamentSettings): TournamentDay[] {
+  if (settings.days && settings.days.length > 0) {
+    return settings.days;
+  }
+  return [
+    {
+      id: 'day-1',
+      label: 'Jour 1',
+      startTime: settings.startTime,
+      endTime: settings.endTime || '18:00',
+      courtCount: settings.courtCount,
+    },
+  ];
+}
+
+// Keep the single-day fields in sync with the list of days
+export function normalizeSettings(settings: TournamentSettings): TournamentSettings {
+  if (!settings.days || settings.days.length === 0) {
+    return settings;
+  }
+  return {
+    ...settings,
+    courtCount: Math.max(...settings.days.map((d) => d.courtCount)),
+    startTime: settings.days[0].startTime,
+    endTime: settings.days[settings.days.length - 1].endTime,
+  };
+}
+
+function getDaySlotCount(day: TournamentDay, slotDuration: number): number {
+  const totalMinutes = timeToMinutes(day.endTime) - timeToMinutes(day.startTime);
+  return Math.max(0, Math.ceil(totalMinutes / slotDuration));
+}
+
+// First row and number of rows of each day
+export function getDayRowRanges(
+  settings: TournamentSettings
+): Array<{ day: TournamentDay; dayIndex: number; firstRow: number; rowCount: number }> {
+  let firstRow = 0;
+  return getTournamentDays(settings).map((day, dayIndex) => {
+    const rowCount = getDaySlotCount(day, settings.timeSlotDuration);
+    const range = { day, dayIndex, firstRow, rowCount };
+    firstRow += rowCount;
+    return range;
+  });
+}
+
+// Number of time slot rows between start and end time, over all days
+export function getSlotCount(settings: TournamentSettings): number {
+  return getDayRowRanges(settings).reduce((acc, range) => acc + range.rowCount, 0);
+}
+
+// Rows past the end of the last day continue its timeline
+export function getRowSlot(row: number, settings: TournamentSettings): RowSlot {
+  const ranges = getDayRowRanges(settings);
+  const range =
+    ranges.find((r) => row >= r.firstRow && row < r.firstRow + r.rowCount) ??
+    (row < 0 ? ranges[0] : ranges[ranges.length - 1]);
+  return {
+    dayIndex: range.dayIndex,
+    minutes: timeToMinutes(range.day.startTime) + (row - range.firstRow) * settings.timeSlotDuration,
+  };
+}
+
+// Format the time of a row, taking days into account
+export function formatRowTime(row: number, settings: TournamentSettings): string {
+  return minutesToTime(getRowSlot(row, settings).minutes);
+}
+
+// Format the day and time of a row, the day is omitted for single-day events
+export function formatRowLabel(row: number, settings: TournamentSettings): string {
+  const days = getTournamentDays(settings);
+  const slot = getRowSlot(row, settings);
+  const time = minutesToTime(slot.minutes);
+  return days.length > 1 ? `${days[slot.dayIndex].label} ${time}` : time;
+}
+
+// Minutes elapsed since the start of the first day, days are 24h apart
+export function getRowAbsoluteMinutes(row: number, settings: TournamentSettings): number {
+  const slot = getRowSlot(row, settings);
+  return slot.dayIndex * 24 * 60 + slot.minutes;
+}
+
+// Real start and end of a scheduled round, from its first match start to its last match end.
+// The start row may differ from `scheduled.row`: matches not fitting in the rest of a day start on the next one.
+export function getRoundTiming(
+  scheduled: ScheduledRound,
+  round: Round,
+  series: Series | undefined,
+  settings: TournamentSettings,
+  isCellOpen: CellAvailability = createCellAvailability(settings)
+): { firstRow: number; startMinutes: number; endMinutes: number; dayIndex: number; lastDayIndex: number } {
+  const rows = getScheduledRoundPositions(scheduled, round, series, settings, isCellOpen).map((p) => p.row);
+  const firstRow = rows.length > 0 ? Math.min(...rows) : scheduled.row;
+  const lastRow = rows.length > 0 ? Math.max(...rows) : scheduled.row;
+  return {
+    firstRow,
+    startMinutes: getRowAbsoluteMinutes(firstRow, settings),
+    endMinutes: getRowAbsoluteMinutes(lastRow, settings) + settings.timeSlotDuration,
+    dayIndex: getRowSlot(firstRow, settings).dayIndex,
+    lastDayIndex: getRowSlot(lastRow, settings).dayIndex,
+  };
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours}h` : `${hours}h${rest.toString().padStart(2, '0')}`;
+}
+
+// Blocked window covering a cell, if any (a row is blocked when its slot overlaps the window)
+export function getBlockedWindow(row: number, col: number, settings: TournamentSettings): BlockedWindow | undefined {
+  const windows = settings.blockedWindows ?? [];
+  if (windows.length === 0) return undefined;
+
+  const days = getTournamentDays(settings);
+  const slot = getRowSlot(row, settings);
+  const slotEnd = slot.minutes + settings.timeSlotDuration;
+
+  return windows.find(
+    (w) =>
+      (!w.dayId || w.dayId === days[slot.dayIndex].id) &&
+      (!w.courts || w.courts.length === 0 || w.courts.includes(col)) &&
+      timeToMinutes(w.startTime) < slotEnd &&
+      timeToMinutes(w.endTime) > slot.minutes
+  );
+}
+
+// Whether a court is open for the whole slot of a row, according to its availability intervals
+export function isCourtAvailable(row: number, col: number, settings: TournamentSettings): boolean {
+  const court = (settings.courts ?? []).find((c) => c.col === col);
+  if (!court) return true;
+
+  const slot = getRowSlot(row, settings);
+  const dayId = getTournamentDays(settings)[slot.dayIndex].id;
+  const slotEnd = slot.minutes + settings.timeSlotDuration;
+  const appliesToDay = (interval: CourtInterval) => !interval.dayId || interval.dayId === dayId;
+
+  const available = (court.available ?? []).filter(appliesToDay);
+  if (
+    (court.available ?? []).length > 0 &&
+    !available.some((i) => timeToMinutes(i.startTime) <= slot.minutes && timeToMinutes(i.endTime) >= slotEnd)
+  ) {
+    return false;
+  }
+
+  return !(court.unavailable ?? [])
+    .filter(appliesToDay)
+    .some((i) => timeToMinutes(i.startTime) < slotEnd && timeToMinutes(i.endTime) > slot.minutes);
+}
+
+// Courts open on each row: a day only uses its own courts, within their availability,
+// and blocked windows are closed
+export function createCellAvailability(settings: TournamentSettings): CellAvailability {
+  const ranges = getDayRowRanges(settings);
+  const last = ranges[ranges.length - 1];
+  const hasBlockedWindows = (settings.blockedWindows ?? []).length > 0;
+  const hasCourtAvailability = (settings.courts ?? []).length > 0;
+  const cache = new Map<number, boolean>();
+  const isCellOpen: CellAvailability = (row, col) => {
+    if (row < 0 || col < 0 || col >= settings.courtCount) return false;
+    const key = row * settings.courtCount + col;
+    let open = cache.get(key);
+    if (open === undefined) {
+      const range = ranges.find((r) => row >= r.firstRow && row < r.firstRow + r.rowCount) ?? last;
+      open =
+        col < range.day.courtCount &&
+        (!hasBlockedWindows || !getBlockedWindow(row, col, settings)) &&
+        (!hasCourtAvailability || isCourtAvailable(row, col, settings));
+      cache.set(key, open);
+    }
+    return open;
+  };
+  isCellOpen.getDayLastRow = (row) => {
+    const range = ranges.find((r) => row >= r.firstRow && row < r.firstRow + r.rowCount);
+    return !range || range === last ? Infinity : range.firstRow + range.rowCount - 1;
+  };
+  return isCellOpen;
+}
+
+// Whether a series may be played on a row (series pinned to a day)
+export function isRowAllowedForSeries(row: number, series: Series, settings: TournamentSettings): boolean {
+  if (!series.dayId) return true;
+  const days = getTournamentDays(settings);
+  const dayIndex = days.findIndex((d) => d.id === series.dayId);
+  if (dayIndex === -1) return true;
+  return getRowSlot(row, settings).dayIndex === dayIndex;
+}
+
+export const DEFAULT_REST_RULES: RestRules = {
+  min: 30,
+  ideal: 60,
+  max: 120,
+};
+
+// Rest rules of a series: its own rules, otherwise the tournament ones
+export function getRestRules(series: Series | undefined, settings: TournamentSettings): RestRules {
+  return series?.restRules ?? settings.restRules ?? DEFAULT_REST_RULES;
+}
+
+export function isValidRestRules(rules: RestRules): boolean {
+  return (
+    [rules.min, rules.ideal, rules.max].every((v) => Number.isInteger(v) && v >= 0) &&
+    rules.min <= rules.ideal &&
+    rules.ideal <= rules.max
+  );
+}
+
 // Generate unique ID
 export function generateId(): string {
   return Math.random().toString(36).substring(2, 11);
 }
 
+// Number of rows a match of this round occupies on its court
+export function getMatchSlotSpan(round: Round, series: Series | undefined, slotDuration: number): number {
+  const duration = round.duration ?? series?.matchDuration;
+  if (!duration || duration.value <= 0) return 1;
+  if (duration.unit === 'slots') return Math.max(1, Math.round(duration.value));
+  return Math.max(1, Math.ceil(duration.value / slotDuration));
+}
+
 // Calculate which cells a round occupies (may span multiple rows)
+// Closed cells are skipped, the round continues on the next open court.
+// A match lasting several slots occupies its court on `span` consecutive rows of
+// the same day: the cells of each match are listed together, the first one being
+// the match start.
 export function getRoundCellPositions(
   startRow: number,
   startCol: number,
   matchCount: number,
-  courtCount: number
-): Array<{ row: number; col: number }> {
-  const positions: Array<{ row: number; col: number }> = [];
+  courtCount: number,
+  isCellOpen?: CellAvailability,
+  span = 1
+): Array<{ row: number; col: number; matchIndex: number }> {
+  const positions: Array<{ row: number; col: number; matchIndex: number }> = [];
   let currentRow = startRow;
   let currentCol = startCol;
+  let placedMatches = 0;
+  // Guard against grids with no open cell ahead
+  let remainingSteps = matchCount + courtCount * 1000;
 
-  for (let i = 0; i < matchCount; i++) {
-    positions.push({ row: currentRow, col: currentCol });
+  while (placedMatches < matchCount && remainingSteps-- > 0) {
+    // A match does not run over two days: it starts on the first row of the next one
+    const dayLastRow = isCellOpen?.getDayLastRow?.(currentRow) ?? Infinity;
+    if (currentRow + span - 1 > dayLastRow) {
+      currentRow = dayLastRow + 1;
+      currentCol = 0;
+      continue;
+    }
+    const matchRows = Array.from({ length: span }, (_, i) => currentRow + i);
+    if (!isCellOpen || matchRows.every((row) => isCellOpen(row, currentCol))) {
+      matchRows.forEach((row) => positions.push({ row, col: currentCol, matchIndex: placedMatches }));
+      placedMatches++;
+    }
     currentCol++;
 
-    // Wrap to next row when reaching the end
+    // Wrap to the row following the current matches when reaching the end
     if (currentCol >= courtCount) {
       currentCol = 0;
-      currentRow++;
+      currentRow += span;
     }
   }
 
   return positions;
 }
+
+// Matches placed at row/startCol, the first ones of the round
+export function getMainGroupMatchCount(scheduled: ScheduledRound, round: Round): number {
+  const grouped = (scheduled.groups ?? []).reduce((acc, g) => acc + g.matchCount, 0);
+  return Math.max(0, round.matchCount - grouped);
+}
+
+// Rows where the parts of a scheduled round start, the first matches then each match group
+export function getScheduledRoundStartRows(scheduled: ScheduledRound): number[] {
+  return [scheduled.row, ...(scheduled.groups ?? []).map((g) => g.row)];
+}
+
+// Cells of a scheduled round, split rounds included: match indexes continue
+// from the first matches to each group in turn (group 0 is the main group)
+export function getScheduledRoundPositions(
+  scheduled: ScheduledRound,
+  round: Round,
+  series: Series | undefined,
+  settings: TournamentSettings,
+  isCellOpen?: CellAvailability
+): Array<{ row: number; col: number; matchIndex: number; group: number }> {
+  const span = getMatchSlotSpan(round, series, settings.timeSlotDuration);
+  const parts = [
+    { row: scheduled.row, startCol: scheduled.startCol, matchCount: getMainGroupMatchCount(scheduled, round) },
+    ...(scheduled.groups ?? []),
+  ];
+  let firstMatch = 0;
+  return parts.flatMap((part, group) => {
+    const positions = getRoundCellPositions(part.row, part.startCol, part.matchCount, settings.courtCount, isCellOpen, span).map(
+      (p) => ({ ...p, matchIndex: firstMatch + p.matchIndex, group })
+    );
+    firstMatch += part.matchCount;
+    return positions;
+  });
+}
+
+// Move a cell by a number of open cells (negative to move back)
+export function offsetCell(
+  row: number,
+  col: number,
+  delta: number,
+  courtCount: number,
+  isCellOpen?: CellAvailability
+): { row: number; col: number } {
+  let index = row * courtCount + col;
+  const step = delta < 0 ? -1 : 1;
+  let remaining = Math.abs(delta);
+  let remainingSteps = remaining + courtCount * 1000;
+
+  while (remaining > 0 && index + step >= 0 && remainingSteps-- > 0) {
+    index += step;
+    if (!isCellOpen || isCellOpen(Math.floor(index / courtCount), index % courtCount)) {
+      remaining--;
+    }
+  }
+
+  return { row: Math.floor(index / courtCount), col: index % courtCount };
+}